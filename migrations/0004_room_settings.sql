@@ -0,0 +1,7 @@
+-- Migration: Room settings
+-- Description: Per-room configuration chosen by the owner at creation (capacity, voting rule)
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS settings JSONB DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN rooms.settings IS 'Decided V2: Owner-chosen room settings (maxParticipants, votingRule)';
@@ -0,0 +1,17 @@
+-- Migration: Room deadlines
+-- Description: Server-enforced room expiry; a sweeper closes open rooms whose deadline has passed
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS extension_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS rooms_status_check;
+ALTER TABLE rooms ADD CONSTRAINT rooms_status_check
+  CHECK (status IN ('waiting', 'active', 'completed', 'abandoned', 'expired'));
+
+-- The sweeper only ever looks at open rooms
+CREATE INDEX IF NOT EXISTS idx_rooms_expires_at ON rooms (expires_at)
+  WHERE status IN ('waiting', 'active');
+
+COMMENT ON COLUMN rooms.expires_at IS 'Decided V2: When the room closes unless extended';
+COMMENT ON COLUMN rooms.extension_count IS 'Decided V2: How many times the deadline has been extended';
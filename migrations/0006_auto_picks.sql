@@ -0,0 +1,7 @@
+-- Migration: Pick timer auto picks
+-- Description: Flags picks the server made for participants whose pick timer ran out
+
+ALTER TABLE bracket_picks
+  ADD COLUMN IF NOT EXISTS auto_picked BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN bracket_picks.auto_picked IS 'Decided V2: Made by the server on timeout; excluded from Elo training';
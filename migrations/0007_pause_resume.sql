@@ -0,0 +1,11 @@
+-- Migration: Pause and resume
+-- Description: Paused rooms stop their clocks; participants' last stream heartbeat backs the reconnect grace period
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS paused_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE room_participants
+  ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN rooms.paused_at IS 'Decided V2: When the running tournament was paused, null while running';
+COMMENT ON COLUMN room_participants.last_seen_at IS 'Decided V2: Last heartbeat on the participant''s room stream';
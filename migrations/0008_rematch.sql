@@ -0,0 +1,10 @@
+-- Migration: Rematch rooms
+-- Description: A rematch is a new room with the same participants, linked back to the finished one
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS rematch_of UUID REFERENCES rooms(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rooms_rematch_of ON rooms (rematch_of)
+  WHERE rematch_of IS NOT NULL;
+
+COMMENT ON COLUMN rooms.rematch_of IS 'Decided V2: The completed room this one was started from with "run it back"';
@@ -0,0 +1,11 @@
+-- Migration: Spectators
+-- Description: Participants can join as spectators, who watch the bracket without voting or taking a seat
+
+ALTER TABLE room_participants
+  ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'player';
+
+ALTER TABLE room_participants DROP CONSTRAINT IF EXISTS room_participants_role_check;
+ALTER TABLE room_participants ADD CONSTRAINT room_participants_role_check
+  CHECK (role IN ('player', 'spectator'));
+
+COMMENT ON COLUMN room_participants.role IS 'Decided V2: player, or spectator (read-only, not counted toward capacity)';
@@ -0,0 +1,15 @@
+-- Migration: Saved movie lists
+-- Description: Users can save a curated set of movies and start a room from it instead of everyone's watchlists
+
+CREATE TABLE IF NOT EXISTS movie_lists (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(80) NOT NULL,
+  movies JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_movie_lists_user_id ON movie_lists (user_id);
+
+COMMENT ON COLUMN movie_lists.movies IS 'Decided V2: Candidate movies as [{ id, title, posterPath }], id being the TMDB id';
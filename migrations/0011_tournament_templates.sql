@@ -0,0 +1,18 @@
+-- Migration: Tournament templates
+-- Description: Saved themed tournaments, a films catalog query plus bracket settings, shared by slug
+
+CREATE TABLE IF NOT EXISTS tournament_templates (
+  id SERIAL PRIMARY KEY,
+  slug VARCHAR(100) NOT NULL UNIQUE,
+  name VARCHAR(80) NOT NULL,
+  description TEXT,
+  query JSONB NOT NULL DEFAULT '{}'::jsonb,
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournament_templates_created_by ON tournament_templates (created_by);
+
+COMMENT ON COLUMN tournament_templates.query IS 'Decided V2: Pool filters over the films table (genres, years, keywords, vote thresholds)';
+COMMENT ON COLUMN tournament_templates.settings IS 'Decided V2: Bracket settings applied to rooms started from the template';
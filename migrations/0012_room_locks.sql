@@ -0,0 +1,13 @@
+-- Migration: Room locks
+-- Description: Lease rows that serialize actions on a room across server instances, with a fencing token per acquisition
+
+CREATE TABLE IF NOT EXISTS room_locks (
+  room_id UUID PRIMARY KEY REFERENCES rooms(id) ON DELETE CASCADE,
+  holder VARCHAR(100),
+  fencing_token INTEGER NOT NULL DEFAULT 0,
+  acquired_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+COMMENT ON TABLE room_locks IS 'Decided V2: Per-room action lease; an expired lease can be taken over, so a crashed holder never blocks the room';
+COMMENT ON COLUMN room_locks.fencing_token IS 'Decided V2: Bumped on every acquisition; state writes are rejected unless they carry the current token';
@@ -0,0 +1,25 @@
+-- Migration: Room event log
+-- Description: Every saved room state transition as an ordered patch, plus periodic full snapshots to replay from
+
+CREATE TABLE IF NOT EXISTS room_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  seq INTEGER NOT NULL,
+  event_type VARCHAR(50) NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  patch JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (room_id, seq)
+);
+
+CREATE TABLE IF NOT EXISTS room_snapshots (
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  seq INTEGER NOT NULL,
+  state JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (room_id, seq)
+);
+
+COMMENT ON TABLE room_events IS 'Decided V2: Append-only room state log; replaying a snapshot plus later patches rebuilds room_states.current_state';
+COMMENT ON COLUMN room_events.seq IS 'Decided V2: The room_states.state_version this event produced';
+COMMENT ON TABLE room_snapshots IS 'Decided V2: Full room state every N events, and where the log starts for rooms created before it existed';
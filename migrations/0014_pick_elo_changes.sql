@@ -0,0 +1,7 @@
+-- Migration: Elo changes on picks
+-- Description: Records what each Decided pick did to the picker's Elo ratings, so undoing the pick can take it back
+
+ALTER TABLE bracket_picks
+  ADD COLUMN IF NOT EXISTS elo_changes JSONB;
+
+COMMENT ON COLUMN bracket_picks.elo_changes IS 'Decided V2: Per-movie deltas applied by the Elo batch processor; null until the job has run';
@@ -0,0 +1,7 @@
+-- Migration: Dropped participants
+-- Description: Marks players the sweeper took out after their stream went quiet, so they can take their seat back
+
+ALTER TABLE room_participants
+  ADD COLUMN IF NOT EXISTS dropped_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN room_participants.dropped_at IS 'Decided V2: When the player was dropped for not reconnecting; cleared when they rejoin';
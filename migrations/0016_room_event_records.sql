@@ -0,0 +1,15 @@
+-- Migration: Room records in the event log
+-- Description: Logs the rows a room's actions write (room, participants, picks, completed matches) next to each state patch, so replaying the log rebuilds them too
+
+ALTER TABLE room_states
+  ADD COLUMN IF NOT EXISTS current_record JSONB;
+
+ALTER TABLE room_events
+  ADD COLUMN IF NOT EXISTS record_patch JSONB;
+
+ALTER TABLE room_snapshots
+  ADD COLUMN IF NOT EXISTS record JSONB;
+
+COMMENT ON COLUMN room_states.current_record IS 'Decided V2: The room''s rows as of state_version, what the next record_patch is taken against';
+COMMENT ON COLUMN room_events.record_patch IS 'Decided V2: Patch to the room''s rows written in the same transaction as this event; null for events logged before records were';
+COMMENT ON COLUMN room_snapshots.record IS 'Decided V2: The room''s rows at this seq; null when they weren''t logged yet';
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict'
+import {
+  NOT_LISTENING,
+  encodeProbe,
+  encodeStateNotice,
+  isListenLive,
+  needsReload,
+  parseProbe,
+  parseStateNotice,
+  receiveProbe,
+  sendProbe,
+} from '../src/lib/utils/backplane.ts'
+
+const notice = { roomId: 'room-1', version: 7, origin: 'instance-a' }
+
+// Test 1: notices survive the round trip
+assert.deepEqual(parseStateNotice(encodeStateNotice(notice)), notice)
+
+// Test 2: extra fields are dropped on encode
+assert.equal(encodeStateNotice({ ...notice, state: { big: true } } as typeof notice), '{"roomId":"room-1","version":7,"origin":"instance-a"}')
+
+// Test 3: malformed payloads are ignored
+assert.equal(parseStateNotice('not json'), null)
+assert.equal(parseStateNotice('null'), null)
+assert.equal(parseStateNotice('{"roomId":"room-1","version":"7","origin":"a"}'), null)
+assert.equal(parseStateNotice('{"roomId":"room-1","version":7}'), null)
+
+// Test 4: an instance ignores its own saves
+assert.equal(needsReload(notice, 'instance-a'), false)
+
+// Test 5: other instances reload unless their cache is already that new
+assert.equal(needsReload(notice, 'instance-b'), true)
+assert.equal(needsReload(notice, 'instance-b', 6), true)
+assert.equal(needsReload(notice, 'instance-b', 7), false)
+assert.equal(needsReload(notice, 'instance-b', 8), false)
+
+// Test 6: probes are told apart from state notices
+assert.equal(parseProbe(encodeProbe('instance-a')), 'instance-a')
+assert.equal(parseStateNotice(encodeProbe('instance-a')), null)
+assert.equal(parseProbe(encodeStateNotice(notice)), null)
+assert.equal(parseProbe('not json'), null)
+
+const at = (seconds: number) => new Date(Date.UTC(2025, 0, 1, 20, 0, seconds))
+
+// Test 7: a listener that never hears its probe back (e.g. behind a transaction pooler) isn't trusted
+assert.equal(isListenLive(NOT_LISTENING, at(0)), false)
+const unanswered = sendProbe(NOT_LISTENING, at(0))
+assert.equal(isListenLive(unanswered, at(1)), false)
+assert.equal(isListenLive(sendProbe(unanswered, at(10)), at(20)), false)
+
+// Test 8: trusted once a probe comes back, until a later one is overdue
+const live = receiveProbe(at(1))
+assert.equal(isListenLive(live, at(5)), true)
+const waiting = sendProbe(sendProbe(live, at(10)), at(12))
+assert.deepEqual(waiting.probeSentAt, at(10))
+assert.equal(isListenLive(waiting, at(12), 3000), true)
+assert.equal(isListenLive(waiting, at(13), 3000), false)
+assert.equal(isListenLive(receiveProbe(at(14)), at(14)), true)
+
+console.log('✅ backplane utils tests passed')
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict'
+import { buildBracketTree } from '../src/lib/utils/bracket-tree.ts'
+import { buildFirstRound } from '../src/lib/utils/bracket.ts'
+
+const movies = [1, 2, 3, 4, 5, 6].map((id) => ({ id }))
+const { matches, byes } = buildFirstRound(movies)
+const resolution = (winnerId: number, loserId: number) => ({ winnerId, loserId, votes: { [winnerId]: 2, [loserId]: 0 }, decidedBy: 'majority' as const })
+
+// Test 1: a fresh six-movie bracket has an open first round, with byes, and pending slots to the final
+const fresh = buildBracketTree({ totalRounds: 3, matches, byes, picks: [] })
+assert.deepEqual(fresh.map((round) => round.matches.length), [2, 2, 1])
+assert.deepEqual(fresh[0].byes, [{ id: 1 }, { id: 2 }])
+assert.ok(fresh[0].matches.every((match) => match.status === 'open' && match.picksIn === 0))
+assert.ok(fresh[1].matches.every((match) => match.status === 'pending' && match.matchId === null))
+
+// Test 2: byes already fill their round 2 slots
+assert.deepEqual(fresh[1].matches.map((match) => [match.movieA?.id ?? null, match.movieB?.id ?? null]), [[1, null], [2, null]])
+
+// Test 3: picks are counted on open matches but only revealed once resolved
+const [first, second] = matches
+const picks = [
+  { matchId: first.matchId, userId: 'u1', selectedMovieId: first.movieB.id },
+  { matchId: first.matchId, userId: 'u2', selectedMovieId: first.movieB.id, autoPicked: true },
+  { matchId: second.matchId, userId: 'u1', selectedMovieId: second.movieA.id },
+]
+const midRound = buildBracketTree({
+  totalRounds: 3,
+  matches,
+  byes,
+  resolutions: { [first.matchId]: resolution(first.movieB.id, first.movieA.id) },
+  picks,
+})
+const [resolved, open] = midRound[0].matches
+assert.equal(resolved.status, 'resolved')
+assert.equal(resolved.winnerId, first.movieB.id)
+assert.deepEqual(resolved.picks, [
+  { userId: 'u1', selectedMovieId: first.movieB.id, autoPicked: false },
+  { userId: 'u2', selectedMovieId: first.movieB.id, autoPicked: true },
+])
+assert.equal(open.status, 'open')
+assert.equal(open.picks, undefined)
+assert.equal(open.picksIn, 1)
+
+// Test 4: a resolved winner moves into its pending slot in the next round
+assert.deepEqual(midRound[1].matches[0].movieA, { id: 1 })
+assert.deepEqual(midRound[1].matches[0].movieB, first.movieB)
+assert.equal(midRound[1].matches[1].movieB, null)
+assert.equal(midRound[2].matches[0].movieA, null)
+
+// Test 5: other formats only list the rounds drawn so far
+const swiss = buildBracketTree({ format: 'swiss', totalRounds: 3, matches, picks: [] })
+assert.equal(swiss.length, 1)
+
+// Test 6: a finished tournament has nothing pending
+const final = { matchId: 'final-round-2', roundNumber: 2, slot: 0, movieA: { id: 1 }, movieB: { id: 2 } }
+const semis = [
+  { matchId: 'round-1-match-1', roundNumber: 1, slot: 0, movieA: { id: 1 }, movieB: { id: 4 } },
+  { matchId: 'round-1-match-2', roundNumber: 1, slot: 1, movieA: { id: 2 }, movieB: { id: 3 } },
+]
+const done = buildBracketTree({
+  totalRounds: 2,
+  matches: [...semis, final],
+  resolutions: {
+    'round-1-match-1': resolution(1, 4),
+    'round-1-match-2': resolution(2, 3),
+    'final-round-2': resolution(2, 1),
+  },
+  picks: [],
+})
+assert.ok(done.flatMap((round) => round.matches).every((match) => match.status === 'resolved'))
+assert.equal(done[1].matches[0].winnerId, 2)
+
+console.log('✅ bracket tree utils tests passed')
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict'
+import { buildFirstRound, buildNextRound, getBracketSize, getSeedOrder, getTotalRounds } from '../src/lib/utils/bracket.ts'
+
+// Test 1: bracket sizing
+assert.equal(getBracketSize(2), 2)
+assert.equal(getBracketSize(5), 8)
+assert.equal(getBracketSize(64), 64)
+assert.equal(getTotalRounds(9), 4)
+assert.throws(() => getBracketSize(1))
+assert.throws(() => getBracketSize(65))
+
+// Test 2: standard seed positions
+assert.deepEqual(getSeedOrder(4), [1, 4, 2, 3])
+assert.deepEqual(getSeedOrder(8), [1, 8, 4, 5, 2, 7, 3, 6])
+
+// Test 3: top seeds get the byes and no movie is duplicated
+const movies = [1, 2, 3, 4, 5, 6].map((id) => ({ id }))
+const { matches, byes } = buildFirstRound(movies)
+assert.equal(matches.length, 2)
+assert.deepEqual(byes.map((b) => b.movie.id).sort(), [1, 2])
+const seen = [...matches.flatMap((m) => [m.movieA.id, m.movieB.id]), ...byes.map((b) => b.movie.id)]
+assert.deepEqual(seen.sort(), [1, 2, 3, 4, 5, 6])
+assert.ok(matches.every((m) => m.movieA.id !== m.movieB.id))
+
+// Test 4: byes and winners pair up in slot order
+const results = [
+  ...byes.map((b) => ({ slot: b.slot, movie: b.movie })),
+  ...matches.map((m) => ({ slot: m.slot, movie: m.movieB })),
+]
+const round2 = buildNextRound(results, 2)
+assert.equal(round2.length, 2)
+assert.equal(round2[0].movieA.id, 1, 'Expected the top seed to open round 2')
+assert.equal(round2[0].matchId, 'round-2-match-1')
+
+// Test 5: a pool of 3 is a bye plus a match, then a final
+const three = buildFirstRound([{ id: 1 }, { id: 2 }, { id: 3 }])
+assert.equal(three.matches.length, 1)
+assert.equal(three.byes.length, 1)
+assert.equal(three.byes[0].movie.id, 1)
+
+console.log('✅ bracket utils tests passed')
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict'
+import { retryOnConflict } from '../src/lib/utils/conflict-retry.ts'
+
+class Conflict extends Error {}
+const isConflict = (error: unknown) => error instanceof Conflict
+
+// A room whose writes only land when the attempt's transaction commits, like the action processor's
+function createRoom() {
+  const room = { version: 1, extensions: 0, jobs: [] as string[] }
+  const transaction = async <T>(write: (pending: { extensions: number }) => T, saveOver: number): Promise<T> => {
+    const pending = { extensions: room.extensions }
+    const result = write(pending)
+    if (saveOver !== room.version) {
+      throw new Conflict()
+    }
+    room.extensions = pending.extensions
+    room.version += 1
+    return result
+  }
+  return { room, transaction }
+}
+
+// Test 1: an extend that loses the version check mid-action is applied once
+{
+  const { room, transaction } = createRoom()
+  let attempts = 0
+  await retryOnConflict(async (stage) => {
+    attempts += 1
+    const loadedAt = room.version
+    if (attempts === 1) {
+      room.version += 1 // someone else saves while this attempt is writing
+    }
+    await transaction((pending) => {
+      pending.extensions += 1
+      stage(() => room.jobs.push('elo'))
+    }, loadedAt)
+  }, { maxAttempts: 3, isConflict })
+
+  assert.equal(attempts, 2)
+  assert.equal(room.extensions, 1)
+  assert.deepEqual(room.jobs, ['elo'])
+}
+
+// Test 2: running out of attempts gives up with the conflict and nothing applied
+{
+  const { room, transaction } = createRoom()
+  const retried: number[] = []
+  await assert.rejects(
+    retryOnConflict(async (stage) => {
+      const loadedAt = room.version
+      room.version += 1
+      await transaction((pending) => {
+        pending.extensions += 1
+        stage(() => room.jobs.push('elo'))
+      }, loadedAt)
+    }, { maxAttempts: 3, isConflict, onRetry: attempt => retried.push(attempt) }),
+    Conflict
+  )
+  assert.deepEqual(retried, [1, 2])
+  assert.equal(room.extensions, 0)
+  assert.deepEqual(room.jobs, [])
+}
+
+// Test 3: other errors aren't retried
+{
+  let attempts = 0
+  await assert.rejects(
+    retryOnConflict(async () => {
+      attempts += 1
+      throw new Error('Room is already paused')
+    }, { maxAttempts: 3, isConflict }),
+    /already paused/
+  )
+  assert.equal(attempts, 1)
+}
+
+// Test 4: a join that conflicts is rebuilt and saved again rather than left half done
+{
+  const { room, transaction } = createRoom()
+  const participants: string[] = []
+  let attempts = 0
+  const joined = await retryOnConflict(async (stage) => {
+    attempts += 1
+    const loadedAt = room.version
+    if (attempts === 1) {
+      room.version += 1
+    }
+    const written: string[] = []
+    await transaction(() => written.push('user-1'), loadedAt)
+    participants.push(...written)
+    stage(() => room.jobs.push('broadcast'))
+    return participants.includes('user-1')
+  }, { maxAttempts: 3, isConflict })
+
+  assert.equal(joined, true)
+  assert.deepEqual(participants, ['user-1'])
+  assert.deepEqual(room.jobs, ['broadcast'])
+}
+
+console.log('✅ conflict retry utils tests passed')
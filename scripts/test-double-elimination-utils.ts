@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict'
+import {
+  applyDoubleEliminationResults,
+  buildDoubleEliminationStart,
+  countDoubleEliminationRounds,
+  parseDoubleEliminationMatchId,
+  scheduleDoubleEliminationRound,
+} from '../src/lib/utils/double-elimination.ts'
+import type { DoubleEliminationMatch, DoubleEliminationState } from '../src/lib/utils/double-elimination.ts'
+
+type Movie = { id: number }
+
+// Plays the whole tournament, letting `pickWinner` decide each match
+function play(count: number, pickWinner: (match: DoubleEliminationMatch<Movie>) => Movie, grandFinalReset = true) {
+  const seeded = Array.from({ length: count }, (_, index) => ({ id: index + 1 }))
+  const start = buildDoubleEliminationStart(seeded)
+  let state: DoubleEliminationState<Movie> = start.state
+  let matches = start.matches
+  const played: DoubleEliminationMatch<Movie>[] = []
+  let round = 1
+
+  while (matches.length > 0) {
+    played.push(...matches)
+    state = applyDoubleEliminationResults(state, matches.map((match) => ({ match, winner: pickWinner(match) })), round, { grandFinalReset })
+    round += 1
+    const scheduled = scheduleDoubleEliminationRound(state, round)
+    state = scheduled.state
+    matches = scheduled.matches
+  }
+
+  return { state, played }
+}
+
+// Test 1: match IDs encode the bracket
+assert.deepEqual(parseDoubleEliminationMatchId('losers-round-3-match-2'), { bracket: 'losers', bracketRound: 3, matchNumber: 2 })
+assert.equal(parseDoubleEliminationMatchId('grand-final-reset')?.bracketRound, 2)
+assert.equal(parseDoubleEliminationMatchId('round-1-match-1'), null)
+
+// Test 2: every movie but the champion loses twice; 2N - 2 matches without a reset
+for (const count of [2, 3, 5, 8, 13]) {
+  const { state, played } = play(count, (match) => match.movieA)
+  assert.equal(state.stage, 'complete')
+  assert.equal(state.champion?.id, 1)
+  assert.equal(state.eliminated.length, count - 1)
+  assert.equal(played.length, 2 * count - 2, `Expected ${2 * count - 2} matches for ${count} movies`)
+  assert.ok(played.every((m) => m.movieA.id !== m.movieB.id))
+}
+
+// Test 3: losers' bracket champion winning the grand final forces a reset
+const upset = play(4, (match) => (match.bracket === 'grand-final' ? match.movieB : match.movieA))
+assert.equal(upset.played.at(-1)?.matchId, 'grand-final-reset')
+assert.equal(upset.state.champion?.id, upset.played.at(-1)?.movieB.id)
+
+// Test 4: without resets the first grand final decides it
+const noReset = play(4, (match) => (match.bracket === 'grand-final' ? match.movieB : match.movieA), false)
+assert.equal(noReset.played.at(-1)?.matchId, 'grand-final')
+assert.equal(noReset.played.length, 6)
+
+// Test 5: round count for progress display
+assert.equal(countDoubleEliminationRounds(2), 2)
+assert.equal(countDoubleEliminationRounds(8), 6)
+
+console.log('✅ double elimination utils tests passed')
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict'
+import { dropMatchJobs, enqueueJob, type QueuedEloJob } from '../src/lib/utils/elo-queue.ts'
+
+const job = (userId: string, matchId: string, priority: QueuedEloJob['priority'] = 'normal') => ({
+  roomId: 'room-1',
+  userId,
+  matchId,
+  priority,
+})
+
+// Test 1: higher priorities go first, otherwise oldest first
+let queue: QueuedEloJob[] = [job('a', 'm1', 'low')]
+queue = enqueueJob(queue, job('b', 'm1'))
+queue = enqueueJob(queue, job('c', 'm1', 'high'))
+queue = enqueueJob(queue, job('d', 'm1'))
+assert.deepEqual(queue.map((j) => j.userId), ['c', 'b', 'd', 'a'])
+
+// Test 2: an undo drops only that user's jobs for the match
+queue = [job('a', 'm1'), job('b', 'm1'), job('a', 'm2')]
+assert.deepEqual(dropMatchJobs(queue, 'room-1', 'm1', 'a'), [job('b', 'm1'), job('a', 'm2')])
+assert.deepEqual(dropMatchJobs(queue, 'room-2', 'm1', 'a'), queue)
+
+// Test 3: a split replay queues exactly one job per user. Picks commit as the action processor makes
+// them: the pick that splits the match drops the match's jobs and queues none of its own.
+const processor = { queue: [] as QueuedEloJob[] }
+const pick = (userId: string, splits: boolean) => {
+  processor.queue = splits
+    ? dropMatchJobs(processor.queue, 'room-1', 'm1')
+    : enqueueJob(processor.queue, job(userId, 'm1'))
+}
+pick('a', false)
+pick('b', true) // a and b disagree, everyone picks again
+assert.equal(processor.queue.length, 0)
+pick('a', false)
+pick('b', false)
+assert.deepEqual(processor.queue.map((j) => j.userId), ['a', 'b'])
+
+console.log('✅ elo queue utils tests passed')
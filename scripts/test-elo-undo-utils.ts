@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict'
+import { getEloChanges, revertEloChange } from '../src/lib/utils/elo-undo.ts'
+import { getPickOutcome, updateElo } from '../src/lib/elo.ts'
+
+// Test 1: the change a job applied, including to movies the user hadn't rated yet
+const before = new Map([[1, { eloRating: 1250, matchesPlayed: 4, wins: 3, losses: 1 }]])
+const changes = getEloChanges(before, [
+  { movieId: 1, eloRating: 1264, matchesPlayed: 5, wins: 4, losses: 1 },
+  { movieId: 2, eloRating: 1186, matchesPlayed: 1, wins: 0, losses: 1 },
+])
+assert.deepEqual(changes, [
+  { movieId: 1, ratingDelta: 14, matchesPlayed: 1, wins: 1, losses: 0 },
+  { movieId: 2, ratingDelta: -14, matchesPlayed: 1, wins: 0, losses: 1 },
+])
+
+// Test 2: undoing right after the job ran restores the ratings it found
+assert.deepEqual(revertEloChange({ eloRating: 1264, matchesPlayed: 5, wins: 4, losses: 1 }, changes[0]), before.get(1))
+assert.deepEqual(revertEloChange({ eloRating: 1186, matchesPlayed: 1, wins: 0, losses: 1 }, changes[1]), {
+  eloRating: 1200,
+  matchesPlayed: 0,
+  wins: 0,
+  losses: 0,
+})
+
+// Test 3: later picks keep their effect when an earlier one is undone
+assert.deepEqual(revertEloChange({ eloRating: 1280, matchesPlayed: 6, wins: 5, losses: 1 }, changes[0]), {
+  eloRating: 1266,
+  matchesPlayed: 5,
+  wins: 4,
+  losses: 1,
+})
+
+// Test 4: counters never go negative, e.g. after the ratings were reset
+assert.deepEqual(revertEloChange({ eloRating: 1200, matchesPlayed: 0, wins: 0, losses: 0 }, changes[0]), {
+  eloRating: 1186,
+  matchesPlayed: 0,
+  wins: 0,
+  losses: 0,
+})
+
+// Test 5: a job that never ran recorded nothing, so there is nothing to revert
+assert.deepEqual(getEloChanges(before, []), [])
+
+// Test 6: a pick of movie B credits B, so A's rating drops and the recorded change says so
+const pickedB = getPickOutcome({ movieAId: 1, movieBId: 2, selectedMovieId: 2 })
+assert.deepEqual(pickedB, { selectedMovieId: 2, rejectedMovieId: 1 })
+const [winner, loser] = updateElo('user-1', pickedB.selectedMovieId, pickedB.rejectedMovieId, 1200, 1250)
+assert.equal(winner.movieId, 2)
+assert.equal(loser.movieId, 1)
+assert.ok(loser.newRating < 1250)
+const pickedBChanges = getEloChanges(new Map([[1, { eloRating: 1250, matchesPlayed: 4, wins: 3, losses: 1 }]]), [
+  { movieId: 1, eloRating: loser.newRating, matchesPlayed: 5, wins: 3, losses: 2 },
+  { movieId: 2, eloRating: winner.newRating, matchesPlayed: 1, wins: 1, losses: 0 },
+])
+assert.ok(pickedBChanges[0].ratingDelta < 0)
+assert.equal(pickedBChanges[0].losses, 1)
+assert.ok(pickedBChanges[1].ratingDelta > 0)
+
+// Test 7: a pick of movie A is unchanged
+assert.deepEqual(getPickOutcome({ movieAId: 1, movieBId: 2, selectedMovieId: 1 }), { selectedMovieId: 1, rejectedMovieId: 2 })
+
+console.log('✅ elo undo utils tests passed')
@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict'
+import { getAcquireAttempts, isLeaseHeld, renewLease, takeLease } from '../src/lib/utils/lease.ts'
+
+const now = new Date('2025-01-01T20:00:00Z')
+const seconds = (n: number) => new Date(now.getTime() + n * 1000)
+
+// Test 1: a room nobody has locked yet starts counting tokens at 1
+assert.deepEqual(takeLease(null, now, 5000), { fencingToken: 1, expiresAt: seconds(5) })
+
+// Test 2: a running lease can't be taken, one that ran out is stolen with the next token
+const held = { fencingToken: 3, expiresAt: seconds(5) }
+assert.equal(takeLease(held, seconds(4), 5000), null)
+assert.deepEqual(takeLease(held, seconds(5), 5000), { fencingToken: 4, expiresAt: seconds(10) })
+
+// Test 3: the old holder's token is refused once the lease has run out or been stolen
+assert.equal(isLeaseHeld(held, 3, seconds(4)), true)
+assert.equal(isLeaseHeld(held, 3, seconds(5)), false)
+const stolen = takeLease(held, seconds(6), 5000)
+assert.equal(isLeaseHeld(stolen, 3, seconds(7)), false)
+assert.equal(isLeaseHeld(stolen, 4, seconds(7)), true)
+assert.equal(isLeaseHeld(null, 1, now), false)
+
+// Test 4: only the current holder can renew, and only before the lease runs out
+assert.deepEqual(renewLease(held, 3, seconds(2), 5000), { fencingToken: 3, expiresAt: seconds(7) })
+assert.equal(renewLease(held, 3, seconds(6), 5000), null)
+assert.equal(renewLease(stolen, 3, seconds(7), 5000), null)
+
+// Test 5: waiting for a busy lease outlasts a crashed holder's
+assert.equal(getAcquireAttempts(5000, 100), 51)
+assert.ok(getAcquireAttempts(5000, 100) * 100 > 5000)
+
+console.log('✅ lease utils tests passed')
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict'
+import {
+  MAX_PAUSE_MS,
+  RECONNECT_GRACE_MS,
+  addPausedTime,
+  isDisconnected,
+  isPauseExpired,
+  resumeDeadline,
+} from '../src/lib/utils/pause.ts'
+import { getPickDeadline } from '../src/lib/utils/pick-timer.ts'
+
+const now = new Date('2025-01-01T20:00:00Z')
+const minutes = (n: number) => new Date(now.getTime() + n * 60 * 1000)
+
+// Test 1: resuming pushes the room deadline back by the length of the pause
+assert.equal(resumeDeadline(minutes(20), minutes(5), minutes(15)).getTime(), minutes(30).getTime())
+assert.equal(resumeDeadline(minutes(20).toISOString(), minutes(5).toISOString(), minutes(5)).getTime(), minutes(20).getTime())
+
+// Test 2: pauses and disconnects have limits
+assert.equal(isPauseExpired(now, new Date(now.getTime() + MAX_PAUSE_MS - 1)), false)
+assert.equal(isPauseExpired(now, new Date(now.getTime() + MAX_PAUSE_MS)), true)
+assert.equal(isDisconnected(now, new Date(now.getTime() + RECONNECT_GRACE_MS)), false)
+assert.equal(isDisconnected(now, new Date(now.getTime() + RECONNECT_GRACE_MS + 1)), true)
+assert.equal(isDisconnected(null, minutes(60)), false)
+
+// Test 3: only the part of a pause inside the running clock counts
+const pauses = [
+  { from: minutes(-10).toISOString(), to: minutes(-5).toISOString() }, // over before the clock started
+  { from: minutes(-1).toISOString(), to: minutes(1).toISOString() }, // straddles the start: 1 minute counts
+  { from: minutes(2).toISOString(), to: minutes(4).toISOString() },
+  { from: minutes(30).toISOString(), to: minutes(40).toISOString() }, // after the deadline
+]
+assert.equal(addPausedTime(now, minutes(5), pauses).getTime(), minutes(8).getTime())
+assert.equal(addPausedTime(now, minutes(5), []).getTime(), minutes(5).getTime())
+
+// Test 4: a pause pushes back the pick timer too
+assert.equal(
+  getPickDeadline(now, null, 60, [{ from: minutes(0.5).toISOString(), to: minutes(2.5).toISOString() }])!.getTime(),
+  minutes(3).getTime()
+)
+
+console.log('✅ pause utils tests passed')
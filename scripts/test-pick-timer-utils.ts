@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict'
+import { chooseAutoPick, getMatchClockStart, getPickDeadline } from '../src/lib/utils/pick-timer.ts'
+import { normalizeRoomSettings, validateRoomSettings } from '../src/lib/utils/room-settings.ts'
+
+const roundStart = new Date('2025-01-01T20:00:00Z')
+
+// Test 1: the clock starts with the round, or at the participant's last pick
+assert.equal(getPickDeadline(roundStart, null, 30)!.getTime(), roundStart.getTime() + 30000)
+const lastPick = new Date(roundStart.getTime() + 12000)
+assert.equal(getPickDeadline(roundStart, lastPick, 30)!.getTime(), lastPick.getTime() + 30000)
+assert.equal(getPickDeadline(roundStart, new Date(roundStart.getTime() - 5000), 30)!.getTime(), roundStart.getTime() + 30000)
+
+// Test 2: no limit, or no known round start, means no deadline
+assert.equal(getPickDeadline(roundStart, null, 0), undefined)
+assert.equal(getPickDeadline(undefined, lastPick, 30), undefined)
+
+// Test 2b: a split match replays on its own clock, while the round's other open match keeps the round's
+const replayStart = new Date(roundStart.getTime() + 25000)
+const round = [
+  { matchId: 'split', replayStartedAt: replayStart.toISOString() },
+  { matchId: 'waiting' },
+] as { matchId: string; replayStartedAt?: string }[]
+const deadlines = round.map((match) => getPickDeadline(getMatchClockStart(roundStart, match.replayStartedAt), null, 30)!.getTime())
+assert.deepEqual(deadlines, [replayStart.getTime() + 30000, roundStart.getTime() + 30000])
+assert.equal(
+  getPickDeadline(getMatchClockStart(roundStart, round[0].replayStartedAt), lastPick, 30)!.getTime(),
+  replayStart.getTime() + 30000
+)
+
+// Test 3: auto picks follow the participant's ratings, ties go to the first slot
+const movieA = { id: 1 }
+const movieB = { id: 2 }
+assert.equal(chooseAutoPick(movieA, movieB, { policy: 'elo', ratings: { 1: 1180, 2: 1260 }, draw: 0.1 }), 2)
+assert.equal(chooseAutoPick(movieA, movieB, { policy: 'elo', ratings: {}, draw: 0.9 }), 1)
+assert.equal(chooseAutoPick(movieA, movieB, { policy: 'random', draw: 0.9 }), 2)
+assert.equal(chooseAutoPick(movieA, movieB, { policy: 'random', draw: 0.1 }), 1)
+
+// Test 4: settings
+assert.equal(validateRoomSettings({ pickTimeLimit: 45, autoPick: 'random' }).valid, true)
+assert.equal(validateRoomSettings({ pickTimeLimit: 0 }).valid, true)
+assert.equal(validateRoomSettings({ pickTimeLimit: 5 }).valid, false)
+assert.equal(validateRoomSettings({ autoPick: 'first' }).valid, false)
+assert.equal(normalizeRoomSettings({ pickTimeLimit: 3600 }).pickTimeLimit, 600)
+assert.equal(normalizeRoomSettings({ pickTimeLimit: -1 }).pickTimeLimit, 0)
+
+console.log('✅ pick timer utils tests passed')
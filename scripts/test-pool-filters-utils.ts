@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict'
+import {
+  collectServiceIds,
+  getStreamingProviderNames,
+  hasActiveFilters,
+  isOnAnyService,
+  normalizePoolFilters,
+  validatePoolFilters,
+} from '../src/lib/utils/pool-filters.ts'
+
+// Test 1: validation
+assert.equal(validatePoolFilters(undefined).valid, true)
+assert.equal(validatePoolFilters({ maxRuntime: 120, includeGenres: ['Comedy'], minVoteAverage: 6.5 }).valid, true)
+assert.equal(validatePoolFilters({ maxRuntime: -5 }).valid, false)
+assert.equal(validatePoolFilters({ includeGenres: 'Comedy' }).valid, false)
+assert.equal(validatePoolFilters({ yearFrom: 2020, yearTo: 1990 }).valid, false)
+assert.equal(validatePoolFilters({ minVoteAverage: 11 }).valid, false)
+assert.equal(validatePoolFilters([]).valid, false)
+
+// Test 2: normalization drops empty and invalid values
+assert.deepEqual(normalizePoolFilters({ includeGenres: [], maxRuntime: 'long', sharedStreamingOnly: false, yearFrom: 1999.5 }), { yearFrom: 1999 })
+assert.equal(hasActiveFilters(normalizePoolFilters(null)), false)
+assert.equal(hasActiveFilters({ sharedStreamingOnly: true }), true)
+
+// Test 3: keywords are matched lowercase and vote counts are whole numbers
+assert.equal(validatePoolFilters({ keywords: ['slasher'], minVoteCount: 500 }).valid, true)
+assert.equal(validatePoolFilters({ keywords: 'slasher' }).valid, false)
+assert.equal(validatePoolFilters({ minVoteCount: -1 }).valid, false)
+assert.deepEqual(normalizePoolFilters({ keywords: [' Slasher ', ''], minVoteCount: 99.9 }), { keywords: ['slasher'], minVoteCount: 99 })
+assert.deepEqual(normalizePoolFilters({ keywords: ['  '] }), {})
+
+// Test 4: streaming service names match loosely
+assert.equal(isOnAnyService(['Disney Plus'], ['Disney+']), true)
+assert.equal(isOnAnyService(['Max'], ['HBO Max']), true)
+assert.equal(isOnAnyService(['Netflix'], ['Hulu', 'Disney+']), false)
+assert.equal(isOnAnyService([''], ['Netflix']), false)
+assert.equal(isOnAnyService(['Netflix'], []), false)
+
+// Test 5: only providers that don't need a rental or purchase count as streaming
+const providers = {
+  link: 'https://www.themoviedb.org/movie/1/watch',
+  flatrate: [{ provider_name: 'Netflix' }],
+  free: [{ provider_name: 'Tubi' }],
+  ads: [{ provider_name: 'Pluto TV' }],
+  rent: [{ provider_name: 'Apple TV' }],
+  buy: [{ provider_name: 'Google Play Movies' }],
+}
+assert.deepEqual(getStreamingProviderNames(providers), ['Netflix', 'Tubi', 'Pluto TV'])
+assert.deepEqual(getStreamingProviderNames(null), [])
+assert.deepEqual(getStreamingProviderNames({ flatrate: 'Netflix', free: [{ name: 'Tubi' }] }), [])
+assert.equal(isOnAnyService(getStreamingProviderNames(providers), ['Apple TV']), false, 'Expected rentals not to count')
+assert.equal(isOnAnyService(getStreamingProviderNames(providers), ['Netflix']), true)
+
+// Test 6: service ids from every participant's profile, once each
+assert.deepEqual(collectServiceIds([['1', '8'], null, ['8', '15'], undefined]), [1, 8, 15])
+assert.deepEqual(collectServiceIds([['', 'netflix', '3']]), [3])
+assert.deepEqual(collectServiceIds([]), [])
+
+console.log('✅ pool filters utils tests passed')
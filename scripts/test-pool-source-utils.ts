@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict'
+import {
+  MAX_CANDIDATES,
+  normalizeCandidates,
+  parseImportedTitles,
+  validateCandidates,
+  validateListName,
+  validatePoolSourceRequest,
+} from '../src/lib/utils/pool-source.ts'
+import { normalizeRoomSettings } from '../src/lib/utils/room-settings.ts'
+
+const movies = [1, 2, 3, 4].map((id) => ({ id, title: `Movie ${id}`, posterPath: `/${id}.jpg` }))
+
+// Test 1: curated pools need a real bracket's worth of distinct, well-formed movies
+assert.equal(validateCandidates(movies).valid, true)
+assert.equal(validateCandidates(movies.slice(0, 3)).valid, false)
+assert.equal(validateCandidates([...movies.slice(0, 3), movies[0]]).valid, false)
+assert.equal(validateCandidates([...movies, { id: 5, title: '' }]).valid, false)
+assert.equal(validateCandidates('1,2,3,4').valid, false)
+
+// Test 2: normalizing drops repeats and junk and fills in missing posters
+assert.deepEqual(
+  normalizeCandidates([movies[0], { id: 9, title: ' Nine ' }, movies[0], { id: -1, title: 'Bad' }]),
+  [movies[0], { id: 9, title: 'Nine', posterPath: '' }]
+)
+const many = Array.from({ length: MAX_CANDIDATES + 5 }, (_, i) => ({ id: i + 1, title: `M${i}`, posterPath: '' }))
+assert.equal(normalizeCandidates(many).length, MAX_CANDIDATES)
+
+// Test 3: pasted titles lose numbering, bullets, blanks and repeats
+assert.deepEqual(
+  parseImportedTitles('1. Heat\n2) Alien\n- Jaws\n\n* heat\n• Brazil  \r\nJAWS'),
+  ['Heat', 'Alien', 'Jaws', 'Brazil']
+)
+
+// Test 4: each pool source checks its own fields
+assert.equal(validatePoolSourceRequest(undefined).valid, true)
+assert.equal(validatePoolSourceRequest({ source: 'watchlists' }).valid, true)
+assert.equal(validatePoolSourceRequest({ source: 'hand-picked', movies }).valid, true)
+assert.equal(validatePoolSourceRequest({ source: 'import', titles: 'Heat\nAlien\nJaws\nBrazil' }).valid, true)
+assert.equal(validatePoolSourceRequest({ source: 'import', titles: 'Heat\nheat\nAlien\nJaws' }).valid, false)
+assert.equal(validatePoolSourceRequest({ source: 'list', listId: 3 }).valid, true)
+assert.equal(validatePoolSourceRequest({ source: 'list', listId: '3' }).valid, false)
+assert.equal(validatePoolSourceRequest({ source: 'friends' }).valid, false)
+
+// Test 5: list names
+assert.equal(validateListName('Halloween').valid, true)
+assert.equal(validateListName('   ').valid, false)
+assert.equal(validateListName('x'.repeat(81)).valid, false)
+
+// Test 6: a curated source only sticks in the room settings when it has movies
+assert.equal(normalizeRoomSettings({ poolSource: 'import', candidates: movies }).poolSource, 'import')
+assert.equal(normalizeRoomSettings({ poolSource: 'import', candidates: movies }).candidates.length, 4)
+assert.equal(normalizeRoomSettings({ poolSource: 'list', candidates: [] }).poolSource, 'watchlists')
+assert.deepEqual(normalizeRoomSettings({ poolSource: 'watchlists', candidates: movies }).candidates, [])
+
+console.log('✅ pool source utils tests passed')
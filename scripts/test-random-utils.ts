@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict'
+import { createRng, deriveSeed, generateSeed, shuffle } from '../src/lib/utils/random.ts'
+
+// Test 1: same seed, same sequence; different seed, different sequence
+const a = createRng(42)
+const b = createRng(42)
+const c = createRng(43)
+const seqA = [a(), a(), a()]
+assert.deepEqual([b(), b(), b()], seqA)
+assert.notDeepEqual([c(), c(), c()], seqA)
+assert.ok(seqA.every((n) => n >= 0 && n < 1))
+
+// Test 2: seeded shuffle is reproducible and keeps every item
+const items = [1, 2, 3, 4, 5, 6, 7, 8]
+const first = shuffle(items, createRng(7))
+assert.deepEqual(shuffle(items, createRng(7)), first)
+assert.deepEqual([...first].sort((x, y) => x - y), items)
+assert.deepEqual(items, [1, 2, 3, 4, 5, 6, 7, 8], 'Expected the input to be left alone')
+
+// Test 3: every position is reachable
+const firstSlots = new Set<number>()
+for (let seed = 0; seed < 200; seed++) {
+  firstSlots.add(shuffle(items, createRng(seed))[0])
+}
+assert.equal(firstSlots.size, items.length)
+
+// Test 4: generated seeds are 32-bit unsigned integers
+const seed = generateSeed()
+assert.ok(Number.isInteger(seed) && seed >= 0 && seed < 2 ** 32)
+
+// Test 5: derived seeds are stable per key and differ between keys
+assert.equal(deriveSeed(42, 'round-1-match-0'), deriveSeed(42, 'round-1-match-0'))
+assert.notEqual(deriveSeed(42, 'round-1-match-0'), deriveSeed(42, 'round-1-match-1'))
+assert.notEqual(deriveSeed(42, 'round-1-match-0'), deriveSeed(43, 'round-1-match-0'))
+assert.ok(Number.isInteger(deriveSeed(42, 'final')) && deriveSeed(42, 'final') >= 0)
+
+console.log('✅ random utils tests passed')
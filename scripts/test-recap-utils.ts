@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict'
+import { buildRecap } from '../src/lib/utils/recap.ts'
+
+const movie = (id: number) => ({ id, title: `Movie ${id}` })
+const matches = [
+  { matchId: 'm1', roundNumber: 1, movieA: movie(1), movieB: movie(2) },
+  { matchId: 'm2', roundNumber: 1, movieA: movie(3), movieB: movie(4) },
+  { matchId: 'm3', roundNumber: 2, movieA: movie(1), movieB: movie(3) },
+]
+const resolutions = {
+  m1: { winnerId: 1, loserId: 2, votes: { 1: 2, 2: 0 }, decidedBy: 'majority' as const },
+  m2: { winnerId: 3, loserId: 4, votes: { 3: 1, 4: 1 }, decidedBy: 'elo' as const },
+  m3: { winnerId: 1, loserId: 3, votes: { 1: 2, 3: 0 }, decidedBy: 'majority' as const },
+}
+const pick = (matchId: string, userId: string, selectedMovieId: number, responseTimeMs: number | null, autoPicked = false) =>
+  ({ matchId, userId, selectedMovieId, responseTimeMs, autoPicked })
+const picks = [
+  pick('m1', 'a', 1, 1200), pick('m1', 'b', 1, 800),
+  pick('m2', 'a', 3, 5000), pick('m2', 'b', 4, 300),
+  pick('m3', 'a', 1, 2000), pick('m3', 'b', 1, null),
+]
+
+const recap = buildRecap({
+  matches,
+  resolutions,
+  picks,
+  completedAt: { m1: '2026-01-01T20:01:00Z', m2: '2026-01-01T20:02:00Z', m3: '2026-01-01T20:05:00Z' },
+  winnerId: 1,
+  ratingsBefore: { a: { 1: 1200 }, b: { 1: 1250 } },
+  ratingsAfter: { a: { 1: 1232 }, b: { 1: 1270 } },
+})
+
+// Test 1: agreement is the share of matches where both partners picked the same movie
+assert.equal(recap.matchesPlayed, 3)
+assert.equal(recap.agreementRate, 2 / 3)
+assert.deepEqual(recap.pairAgreement, [{ userIds: ['a', 'b'], rate: 2 / 3, matches: 3 }])
+
+// Test 2: the split match comes first among the closest
+assert.equal(recap.closestMatches[0].matchId, 'm2')
+assert.equal(recap.closestMatches[0].decidedBy, 'elo')
+
+// Test 3: fastest and slowest picks skip picks with no timing
+assert.deepEqual(recap.fastestPicks.map((p) => p.responseTimeMs), [300, 800, 1200])
+assert.deepEqual(recap.slowestPicks.map((p) => p.responseTimeMs), [5000, 2000, 1200])
+assert.equal(recap.slowestPicks[0].movie.id, 3)
+
+// Test 4: each finalist's path runs in round order, winner first
+assert.deepEqual(recap.finalistPaths.map((entry) => entry.movie.id), [1, 3])
+assert.deepEqual(recap.finalistPaths[0].path.map((step) => [step.opponent.id, step.won]), [[2, true], [3, true]])
+assert.deepEqual(recap.finalistPaths[1].path.map((step) => [step.opponent.id, step.won]), [[4, true], [1, false]])
+assert.equal(recap.finalistPaths[0].path[1].decidedAt, '2026-01-01T20:05:00Z')
+assert.equal(recap.winner?.title, 'Movie 1')
+
+// Test 5: the winner's Elo change per voter
+assert.deepEqual(recap.winnerElo, [
+  { userId: 'a', before: 1200, after: 1232, change: 32 },
+  { userId: 'b', before: 1250, after: 1270, change: 20 },
+])
+
+// Test 6: auto picks count for neither agreement nor timing
+const withAuto = buildRecap({
+  matches,
+  resolutions,
+  picks: [pick('m1', 'a', 1, 1000), pick('m1', 'b', 2, 10, true)],
+  winnerId: 1,
+})
+assert.equal(withAuto.agreementRate, null)
+assert.deepEqual(withAuto.fastestPicks.map((p) => p.userId), ['a'])
+
+// Test 7: missing ratings fall back to the default with no change
+assert.deepEqual(withAuto.winnerElo, [{ userId: 'a', before: 1200, after: 1200, change: 0 }])
+
+// Test 8: no winner yet means no Elo section
+assert.deepEqual(buildRecap({ matches: [], resolutions: {}, picks: [], winnerId: null }).winnerElo, [])
+
+console.log('✅ recap utils tests passed')
@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict'
+import { MAX_EXCLUDED_MOVIES, getFinalistIds, mergeExclusions } from '../src/lib/utils/rematch.ts'
+import { normalizeRoomSettings, validateRoomSettings } from '../src/lib/utils/room-settings.ts'
+
+const match = (roundNumber: number, a: number, b: number) => ({ roundNumber, movieA: { id: a }, movieB: { id: b } })
+
+// Test 1: finalists come from the last round played
+const matches = [match(1, 1, 2), match(1, 3, 4), match(2, 1, 3)]
+assert.deepEqual(getFinalistIds(matches, 3), [3, 1])
+assert.deepEqual(getFinalistIds(matches), [1, 3])
+
+// Test 2: a double elimination reset leaves a single last round
+assert.deepEqual(getFinalistIds([...matches, match(3, 3, 1)], 1), [1, 3])
+assert.deepEqual(getFinalistIds([], 7), [7])
+
+// Test 3: exclusions accumulate without duplicates and keep the newest
+assert.deepEqual(mergeExclusions([5, 1], [1, 3]), [5, 1, 3])
+const many = Array.from({ length: MAX_EXCLUDED_MOVIES }, (_, i) => i + 100)
+const merged = mergeExclusions(many, [1, 2])
+assert.equal(merged.length, MAX_EXCLUDED_MOVIES)
+assert.deepEqual(merged.slice(-2), [1, 2])
+assert.equal(merged.includes(100), false)
+
+// Test 4: settings
+assert.equal(validateRoomSettings({ excludedMovieIds: [550, 680] }).valid, true)
+assert.equal(validateRoomSettings({ excludedMovieIds: [550, 'x'] }).valid, false)
+assert.equal(validateRoomSettings({ excludedMovieIds: many.concat([1]) }).valid, false)
+assert.deepEqual(normalizeRoomSettings({ excludedMovieIds: [550, 550, -1, 680] }).excludedMovieIds, [550, 680])
+
+console.log('✅ rematch utils tests passed')
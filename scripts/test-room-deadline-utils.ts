@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict'
+import {
+  MAX_ROOM_EXTENSIONS,
+  ROOM_EXTENSION_MS,
+  ROOM_LIFETIME_MS,
+  extendDeadline,
+  getExtensionsRemaining,
+  getInitialDeadline,
+  getSecondsRemaining,
+  isExpired,
+} from '../src/lib/utils/room-deadline.ts'
+
+const now = new Date('2025-01-01T20:00:00Z')
+
+// Test 1: new rooms get the full lifetime
+const deadline = getInitialDeadline(now)
+assert.equal(deadline.getTime() - now.getTime(), ROOM_LIFETIME_MS)
+assert.equal(getSecondsRemaining(deadline, now), ROOM_LIFETIME_MS / 1000)
+assert.equal(getSecondsRemaining(deadline.toISOString(), now), ROOM_LIFETIME_MS / 1000)
+
+// Test 2: expiry is never negative, and rooms without a deadline never expire
+const past = new Date(now.getTime() - 1000)
+assert.equal(getSecondsRemaining(past, now), 0)
+assert.equal(isExpired(past, now), true)
+assert.equal(isExpired(deadline, now), false)
+assert.equal(getSecondsRemaining(null, now), undefined)
+assert.equal(isExpired(undefined, now), false)
+
+// Test 3: extensions stack onto the time left
+const extended = extendDeadline(deadline, 0, now)
+assert.equal(extended.valid, true)
+assert.equal(extended.expiresAt!.getTime(), deadline.getTime() + ROOM_EXTENSION_MS)
+assert.equal(extendDeadline(null, 0, now).expiresAt!.getTime(), now.getTime() + ROOM_EXTENSION_MS)
+
+// Test 4: extensions are capped and can't revive an expired room
+assert.equal(getExtensionsRemaining(1), MAX_ROOM_EXTENSIONS - 1)
+assert.equal(extendDeadline(deadline, MAX_ROOM_EXTENSIONS, now).valid, false)
+assert.equal(extendDeadline(past, 0, now).error, 'Room has already expired')
+
+console.log('✅ room deadline utils tests passed')
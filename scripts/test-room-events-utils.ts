@@ -0,0 +1,193 @@
+import assert from 'node:assert/strict'
+import {
+  applyPatch,
+  diffState,
+  findDivergence,
+  findGap,
+  reduceEvents,
+  reduceRecords,
+  resolveHead,
+  shouldSnapshot,
+  toRoomRecord,
+} from '../src/lib/utils/room-events.ts'
+
+const lobby = { version: 1, screen: 'lobby', data: { room: { code: 'ABC123', participants: [{ userId: 'a' }] } } }
+const joined = { version: 2, screen: 'lobby', data: { room: { code: 'ABC123', participants: [{ userId: 'a' }, { userId: 'b' }] } } }
+const started = { version: 3, screen: 'bracket', data: { room: { code: 'ABC123', participants: [{ userId: 'a' }, { userId: 'b' }] }, tournament: { round: 1 } } }
+const ended = { version: 4, screen: 'error', error: 'Tournament abandoned', data: { room: { code: 'ABC123', participants: [{ userId: 'a' }] } } }
+
+// Test 1: the first save replaces the whole (empty) state
+assert.deepEqual(diffState(undefined, lobby), [{ op: 'set', path: [], value: lobby }])
+
+// Test 2: only changed fields are patched; arrays are replaced whole
+assert.deepEqual(diffState(lobby, joined), [
+  { op: 'set', path: ['version'], value: 2 },
+  { op: 'set', path: ['data', 'room', 'participants'], value: joined.data.room.participants },
+])
+
+// Test 3: removed fields become remove ops, and applying the diff lands on the new state
+const patch = diffState(started, ended)
+assert.ok(patch.some((op) => op.op === 'remove' && op.path.join('.') === 'data.tournament'))
+assert.deepEqual(applyPatch(started, patch), ended)
+
+// Test 4: applying a patch leaves the input untouched
+assert.equal(started.data.tournament.round, 1)
+assert.equal(started.screen, 'bracket')
+
+// Test 5: reducing the log from nothing rebuilds every state, in seq order
+const events = [
+  { seq: 2, patch: diffState(lobby, joined) },
+  { seq: 1, patch: diffState(undefined, lobby) },
+  { seq: 3, patch: diffState(joined, started) },
+  { seq: 4, patch: diffState(started, ended) },
+]
+assert.deepEqual(reduceEvents(null, events), ended)
+assert.deepEqual(reduceEvents(null, events.filter((e) => e.seq <= 3)), started)
+
+// Test 6: a snapshot plus the events after it gives the same result
+assert.deepEqual(reduceEvents(joined, events.filter((e) => e.seq > 2)), ended)
+
+// Test 7: gaps in the log are found
+assert.equal(findGap(0, events), null)
+assert.equal(findGap(2, events.filter((e) => e.seq !== 3 && e.seq > 2)), 3)
+assert.equal(findGap(1, [{ seq: 3, patch: [] }]), 2)
+
+// Test 8: divergence ignores key order and undefined fields, and names the first differing path
+assert.equal(findDivergence({ a: 1, b: { c: [1, 2] } }, { b: { c: [1, 2] }, a: 1, d: undefined }), null)
+assert.deepEqual(findDivergence(started, { ...started, data: { ...started.data, tournament: { round: 2 } } }), ['data', 'tournament', 'round'])
+assert.deepEqual(findDivergence([1, 2], [1, 2, 3]), [])
+
+// Test 9: snapshots every 25 events
+assert.equal(shouldSnapshot(25), true)
+assert.equal(shouldSnapshot(26), false)
+assert.equal(shouldSnapshot(0), false)
+assert.equal(shouldSnapshot(10, 5), true)
+
+// The rows a room goes through as it is created, joined, played and undone
+const participants = [
+  { userId: 'a', role: 'player', isActive: true, completedMatches: 0 },
+  { userId: 'b', role: 'player', isActive: true, completedMatches: 0 },
+]
+const created = toRoomRecord({
+  room: { status: 'waiting', tournamentData: null, extensionCount: 0 },
+  participants: participants.slice(0, 1),
+  picks: [],
+  completions: [],
+})
+const playerJoined = toRoomRecord({
+  room: created.room,
+  participants,
+  picks: [],
+  completions: [],
+})
+const playingRoom = { status: 'active', tournamentData: { currentRound: 1, matches: [{ id: 'm1' }] }, extensionCount: 0 }
+const playing = toRoomRecord({ room: playingRoom, participants, picks: [], completions: [] })
+const pick = { matchId: 'm1', userId: 'a', selectedMovieId: 10, autoPicked: false }
+const picked = toRoomRecord({ room: playingRoom, participants, picks: [pick], completions: [] })
+const undone = toRoomRecord({ room: playingRoom, participants, picks: [], completions: [] })
+
+// Test 10: rows are keyed and read back as JSON, so the same rows make the same record
+const startedAt = new Date('2025-01-01T20:00:00Z')
+assert.deepEqual(
+  toRoomRecord({
+    room: { startedAt },
+    participants: [{ userId: 'b' }, { userId: 'a' }],
+    picks: [{ matchId: 'm2', userId: 'a' }, { matchId: 'm1', userId: 'b' }, { matchId: 'm1', userId: 'a' }],
+    completions: [{ matchId: 'm2' }, { matchId: 'm1' }],
+  }),
+  {
+    room: { startedAt: '2025-01-01T20:00:00.000Z' },
+    participants: { a: { userId: 'a' }, b: { userId: 'b' } },
+    picks: {
+      'm1:a': { matchId: 'm1', userId: 'a' },
+      'm1:b': { matchId: 'm1', userId: 'b' },
+      'm2:a': { matchId: 'm2', userId: 'a' },
+    },
+    completions: { m1: { matchId: 'm1' }, m2: { matchId: 'm2' } },
+  }
+)
+
+// Test 11: replaying the logged record patches rebuilds the rows as they stand now
+const recordEvents = [created, playerJoined, playing, picked, undone].map((record, i, all) => ({
+  seq: i + 1,
+  recordPatch: diffState(i === 0 ? undefined : all[i - 1], record),
+}))
+assert.deepEqual(reduceRecords(null, recordEvents), undone)
+assert.deepEqual(reduceRecords(null, recordEvents.slice(0, 4)), picked)
+assert.deepEqual(reduceRecords(playerJoined, recordEvents.slice(2)), undone)
+
+// Test 12: events from before records were logged break the chain until a save sets the whole record
+assert.equal(reduceRecords(null, [{ seq: 1, recordPatch: null }, ...recordEvents.slice(1)]), null)
+assert.equal(reduceRecords(picked, [{ seq: 5 }]), null)
+assert.deepEqual(
+  reduceRecords(null, [{ seq: 1 }, { seq: 2, recordPatch: diffState(undefined, playing) }, recordEvents[3]]),
+  picked
+)
+
+// Test 13: a pick, an undo and a join each log just the row that changed, however many rows there are
+const manyPicks = Array.from({ length: 50 }, (_, i) => ({ matchId: `m${i}`, userId: 'b', selectedMovieId: i }))
+const crowded = toRoomRecord({ room: playingRoom, participants, picks: manyPicks, completions: [] })
+const crowdedPicked = toRoomRecord({ room: playingRoom, participants, picks: [...manyPicks, pick], completions: [] })
+assert.deepEqual(diffState(crowded, crowdedPicked), [{ op: 'set', path: ['picks', 'm1:a'], value: pick }])
+assert.deepEqual(diffState(crowdedPicked, crowded), [{ op: 'remove', path: ['picks', 'm1:a'] }])
+assert.deepEqual(diffState(created, playerJoined), [{ op: 'set', path: ['participants', 'b'], value: participants[1] }])
+
+// A room's store as writeState keeps it: the log, unique on seq, and room_states caching its head
+type Stored = typeof lobby | typeof ended | typeof started | typeof joined
+function createStore() {
+  const store = {
+    log: [] as Array<{ seq: number; patch: ReturnType<typeof diffState> }>,
+    cache: null as { stateVersion: number; currentState: unknown } | null,
+    head() {
+      const logged = store.log.length > 0
+        ? { seq: Math.max(...store.log.map((e) => e.seq)), state: reduceEvents<Stored>(null, store.log) }
+        : null
+      return resolveHead<Stored>(logged, store.cache)
+    },
+    save(state: Stored, expectedVersion: number) {
+      const head = store.head()
+      assert.equal(head.version, expectedVersion, 'stale save')
+      const seq = head.version + 1
+      assert.ok(!store.log.some((e) => e.seq === seq), `duplicate (room_id, seq=${seq})`)
+      store.log.push({ seq, patch: diffState(head.state ?? undefined, { ...state, version: seq }) })
+      store.cache = { stateVersion: seq, currentState: { ...state, version: seq } }
+    },
+  }
+  return store
+}
+
+// Test 14: the log wins over a cache that disagrees with it; the cache only stands in with no log at all
+const played = createStore()
+played.save(lobby, 0)
+played.save(joined, 1)
+played.save(started, 2)
+assert.deepEqual(played.head(), { version: 3, state: { ...started, version: 3 }, source: 'log', drifted: false })
+played.cache = { stateVersion: 3, currentState: lobby } // edited by hand
+assert.equal(played.head().drifted, true)
+assert.deepEqual(played.head().state, { ...started, version: 3 })
+played.cache = { stateVersion: 2, currentState: joined }
+assert.equal(played.head().version, 3)
+assert.deepEqual(resolveHead(null, { stateVersion: 7, currentState: lobby }), { version: 7, state: lobby, source: 'cache', drifted: false })
+assert.deepEqual(resolveHead(null, null), { version: 0, state: null, source: 'none', drifted: false })
+
+// Test 15: a repaired room clears its log with its cached state, so it saves again from seq 1 and the
+// old tournament doesn't come back
+played.log = []
+played.cache = null
+assert.equal(played.head().source, 'none')
+played.save(lobby, 0)
+assert.deepEqual(played.log.map((e) => e.seq), [1])
+assert.deepEqual(played.head().state, { ...lobby, version: 1 })
+played.save(joined, 1)
+assert.deepEqual(played.head().state, { ...joined, version: 2 })
+
+// Test 16: clearing only the cache leaves the log in charge: saves carry on from its head, not seq 1
+const cacheOnly = createStore()
+cacheOnly.save(lobby, 0)
+cacheOnly.save(joined, 1)
+cacheOnly.cache = null
+assert.throws(() => cacheOnly.save(lobby, 0), /stale save/)
+cacheOnly.save(started, 2)
+assert.deepEqual(cacheOnly.log.map((e) => e.seq), [1, 2, 3])
+
+console.log('✅ room events utils tests passed')
@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict'
+import { computeJointRatings, orderBySeed, DEFAULT_ELO_RATING } from '../src/lib/utils/seeding.ts'
+import { buildFirstRound } from '../src/lib/utils/bracket.ts'
+
+// Test 1: joint rating averages participants, unrated counts as the default
+const joint = computeJointRatings([1, 2, 3], ['a', 'b'], [
+  { userId: 'a', movieId: 1, eloRating: 1400 },
+  { userId: 'b', movieId: 1, eloRating: 1300 },
+  { userId: 'a', movieId: 2, eloRating: 1600 },
+  { userId: 'b', movieId: 3, eloRating: null },
+  { userId: 'c', movieId: 3, eloRating: 2000 },
+])
+assert.equal(joint.get(1), 1350)
+assert.equal(joint.get(2), 1400)
+assert.equal(joint.get(3), DEFAULT_ELO_RATING)
+
+// Test 2: no participants falls back to the default rating
+assert.equal(computeJointRatings([1], [], []).get(1), DEFAULT_ELO_RATING)
+
+// Test 3: best joint rating first, ties keep incoming order
+const movies = [{ id: 3 }, { id: 1 }, { id: 4 }, { id: 2 }]
+const ratings = new Map([[1, 1500], [2, 1400], [3, 1200], [4, 1200]])
+assert.deepEqual(orderBySeed(movies, ratings).map((m) => m.id), [1, 2, 3, 4])
+assert.deepEqual(movies.map((m) => m.id), [3, 1, 4, 2])
+
+// Test 4: seeded pool pairs 1 vs N in the first round
+const seeded = orderBySeed(
+  [5, 6, 7, 8, 1, 2, 3, 4].map((id) => ({ id })),
+  new Map([1, 2, 3, 4, 5, 6, 7, 8].map((id) => [id, 2000 - id * 10]))
+)
+const { matches } = buildFirstRound(seeded)
+assert.deepEqual(matches.map((m) => [m.movieA.id, m.movieB.id]), [[1, 8], [4, 5], [2, 7], [3, 6]])
+
+console.log('✅ seeding utils tests passed')
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict'
+import { canJoinAs, getPlayers, getSeatedPlayers, parseJoinRole, planAfterLeave, planJoin } from '../src/lib/utils/spectators.ts'
+
+// Test 1: joining without a role is joining as a player
+assert.deepEqual(parseJoinRole(undefined), { valid: true, role: 'player' })
+assert.deepEqual(parseJoinRole('spectator'), { valid: true, role: 'spectator' })
+assert.equal(parseJoinRole('referee').valid, false)
+
+// Test 2: spectators can join rooms that are already running
+assert.equal(canJoinAs('player', 'waiting'), true)
+assert.equal(canJoinAs('player', 'active'), false)
+assert.equal(canJoinAs('spectator', 'active'), true)
+assert.equal(canJoinAs('spectator', 'completed'), true)
+assert.equal(canJoinAs('spectator', 'expired'), false)
+
+// Test 2b: a dropped player can take their seat back, but only while the tournament runs
+assert.equal(canJoinAs('player', 'active', { reclaimingSeat: true }), true)
+assert.equal(canJoinAs('player', 'abandoned', { reclaimingSeat: true }), false)
+assert.equal(canJoinAs('player', 'completed', { reclaimingSeat: true }), false)
+assert.equal(canJoinAs('player', 'active', { reclaimingSeat: false }), false)
+
+// Test 3: only active players vote
+const participants = [
+  { userId: 'a', isActive: true },
+  { userId: 'b', isActive: true, isSpectator: true },
+  { userId: 'c', isActive: false },
+  { userId: 'd', isActive: true, isSpectator: false },
+]
+assert.deepEqual(getPlayers(participants).map((p) => p.userId), ['a', 'd'])
+
+// Test 4: joining again rejoins, and every player needs a free seat, whether new or coming back
+assert.deepEqual(planJoin('player', 'waiting', undefined), { kind: 'join', takesSeat: true })
+assert.deepEqual(planJoin('spectator', 'active', null), { kind: 'join', takesSeat: false })
+assert.deepEqual(planJoin('player', 'waiting', { isActive: true }), { kind: 'already-joined' })
+assert.deepEqual(planJoin('player', 'waiting', { isActive: false }), { kind: 'rejoin', takesSeat: true })
+assert.deepEqual(planJoin('spectator', 'waiting', { isActive: false }), { kind: 'rejoin', takesSeat: false })
+assert.deepEqual(
+  planJoin('player', 'active', { isActive: false, role: 'player', droppedAt: '2025-01-01T20:00:00Z' }),
+  { kind: 'rejoin', takesSeat: true }
+)
+assert.deepEqual(
+  planJoin('player', 'active', { isActive: false, droppedAt: null }),
+  { kind: 'rejected', error: 'Room is not accepting new participants' }
+)
+// A spectator dropped from a running bracket can come back to watch, but not to vote
+assert.deepEqual(
+  planJoin('player', 'active', { isActive: false, role: 'spectator', droppedAt: '2025-01-01T20:00:00Z' }),
+  { kind: 'rejected', error: 'Room is not accepting new participants' }
+)
+assert.deepEqual(
+  planJoin('spectator', 'active', { isActive: false, role: 'spectator', droppedAt: '2025-01-01T20:00:00Z' }),
+  { kind: 'rejoin', takesSeat: false }
+)
+assert.deepEqual(
+  planJoin('spectator', 'expired', { isActive: true }),
+  { kind: 'rejected', error: 'Room is no longer open to spectators' }
+)
+
+// Test 5: a 2-player room that loses a player to the sweeper waits for them, and they rejoin through the join route
+const dropped = [
+  { userId: 'a', isActive: true },
+  { userId: 'b', isActive: false, isDropped: true },
+  { userId: 'c', isActive: true, isSpectator: true },
+]
+assert.deepEqual(getSeatedPlayers(dropped).map((p) => p.userId), ['a', 'b'])
+assert.equal(planAfterLeave(dropped, true), 'await-reconnect')
+assert.deepEqual(
+  planJoin('player', 'active', { isActive: false, role: 'player', droppedAt: '2025-01-01T20:00:00Z' }),
+  { kind: 'rejoin', takesSeat: true }
+)
+const reclaimed = dropped.map((p) => (p.userId === 'b' ? { userId: 'b', isActive: true } : p))
+assert.equal(planAfterLeave(reclaimed, true), 'continue')
+assert.equal(getPlayers(reclaimed).length, 2)
+
+// Test 6: the room is only abandoned once too few players could ever come back
+assert.equal(planAfterLeave([{ userId: 'a', isActive: true }, { userId: 'b', isActive: false }], true), 'abandon')
+assert.equal(planAfterLeave([{ userId: 'a', isActive: false }, { userId: 'b', isActive: false, isDropped: true }], true), 'abandon')
+assert.equal(planAfterLeave([{ userId: 'a', isActive: true }], false), 'continue')
+assert.equal(planAfterLeave([{ userId: 'a', isActive: false }], false), 'abandon')
+assert.equal(
+  planAfterLeave([{ userId: 'a', isActive: true }, { userId: 'b', isActive: true }, { userId: 'c', isActive: false, isDropped: true }], true),
+  'continue'
+)
+
+console.log('✅ spectator utils tests passed')
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict'
+import {
+  MAX_REPLAY_GAP,
+  checkVersion,
+  formatSseEvent,
+  parseLastEventId,
+  planResume,
+  toReplayedState,
+} from '../src/lib/utils/sse-resume.ts'
+
+// Test 1: only whole non-negative ids are accepted
+assert.equal(parseLastEventId('12'), 12)
+assert.equal(parseLastEventId(' 7 '), 7)
+assert.equal(parseLastEventId(null), null)
+assert.equal(parseLastEventId(''), null)
+assert.equal(parseLastEventId('abc'), null)
+assert.equal(parseLastEventId('-3'), null)
+assert.equal(parseLastEventId('1.5'), null)
+
+// Test 2: a fresh connection, or an id from the future, gets a snapshot
+assert.deepEqual(planResume(null, 10), { kind: 'snapshot' })
+assert.deepEqual(planResume(0, 10), { kind: 'snapshot' })
+assert.deepEqual(planResume(11, 10), { kind: 'snapshot' })
+
+// Test 3: an up-to-date client gets nothing
+assert.deepEqual(planResume(10, 10), { kind: 'none' })
+
+// Test 4: small gaps are replayed, large ones snapshot
+assert.deepEqual(planResume(7, 10), { kind: 'replay', fromSeq: 7, toSeq: 10 })
+assert.deepEqual(planResume(30 - MAX_REPLAY_GAP, 30), { kind: 'replay', fromSeq: 30 - MAX_REPLAY_GAP, toSeq: 30 })
+assert.deepEqual(planResume(29 - MAX_REPLAY_GAP, 30), { kind: 'snapshot' })
+assert.deepEqual(planResume(5, 10, 3), { kind: 'snapshot' })
+
+// Test 5: events carry their name and id before the data
+assert.equal(formatSseEvent({ a: 1 }), 'data: {"a":1}\n\n')
+assert.equal(formatSseEvent({ a: 1 }, { id: 4 }), 'id: 4\ndata: {"a":1}\n\n')
+assert.equal(formatSseEvent({ a: 1 }, { id: 4, event: 'snapshot' }), 'event: snapshot\nid: 4\ndata: {"a":1}\n\n')
+
+// Test 6: the client applies the next version, skips old ones and spots gaps
+assert.equal(checkVersion(null, 5), 'next')
+assert.equal(checkVersion(4, 5), 'next')
+assert.equal(checkVersion(5, 5), 'stale')
+assert.equal(checkVersion(6, 5), 'stale')
+assert.equal(checkVersion(3, 5), 'gap')
+
+// Test 7: replayed states leave out the per-user view rather than filling it in from today's data
+const logged = {
+  version: 8,
+  availableActions: ['pick', 'undo'],
+  data: { tournament: { currentMatch: { matchId: 'm2', deadline: '2025-01-01T20:00:30Z' }, matches: [{ matchId: 'm2' }] } },
+}
+const replayed = toReplayedState(logged)
+assert.deepEqual(replayed, { version: 8, availableActions: [], data: { tournament: { matches: [{ matchId: 'm2' }] } } })
+assert.deepEqual(logged.availableActions, ['pick', 'undo'])
+assert.deepEqual(toReplayedState({ data: {} }), { availableActions: [], data: {} })
+
+console.log('✅ sse resume utils tests passed')
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict'
+import { getSuggestionExclusions, getSuggestionGenres } from '../src/lib/utils/suggestions.ts'
+
+// Test 1: genres from every participant's profile, once each
+assert.deepEqual(getSuggestionGenres([
+  { selectedGenres: ['Comedy', 'Horror'] },
+  { selectedGenres: null },
+  { selectedGenres: ['Horror', 'Drama'] },
+]), ['Comedy', 'Horror', 'Drama'])
+assert.deepEqual(getSuggestionGenres([]), [])
+
+// Test 2: disliked films are left out, other ratings are not
+const ratings = [
+  { tmdbId: 10, ratingType: 'dislike' },
+  { tmdbId: 11, ratingType: 'like' },
+  { tmdbId: 12, ratingType: 'not_seen' },
+  { tmdbId: 13, ratingType: 'love' },
+]
+assert.deepEqual(getSuggestionExclusions([], ratings, []), [10])
+
+// Test 3: watched films are left out, films still to watch are not
+const watchList = [
+  { tmdbId: 20, isWatched: true },
+  { tmdbId: 21, isWatched: false },
+  { tmdbId: 22, isWatched: null },
+]
+assert.deepEqual(getSuggestionExclusions([], [], watchList), [20])
+
+// Test 4: the pool itself is excluded, and overlaps are only listed once
+assert.deepEqual(
+  getSuggestionExclusions([1, 10], ratings, [...watchList, { tmdbId: 10, isWatched: true }]),
+  [1, 10, 20]
+)
+
+console.log('✅ suggestions utils tests passed')
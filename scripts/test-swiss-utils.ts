@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict'
+import {
+  applySwissResults,
+  createSwissState,
+  getSwissRounds,
+  getSwissWinner,
+  pairSwissRound,
+  rankStandings,
+} from '../src/lib/utils/swiss.ts'
+
+type Movie = { id: number; seed: number; jointElo?: number }
+
+function play(movies: Movie[], pickWinner: (a: Movie, b: Movie) => Movie) {
+  let state = createSwissState(movies)
+  const byes: number[] = []
+  for (let round = 1; round <= state.totalRounds; round++) {
+    const { matches, bye } = pairSwissRound(state, round)
+    if (bye) byes.push(bye.id)
+    state = applySwissResults(state, matches.map((match) => ({ match, winner: pickWinner(match.movieA, match.movieB) })), bye)
+  }
+  return { state, byes }
+}
+
+const pool = (count: number) => Array.from({ length: count }, (_, i) => ({ id: i + 1, seed: i + 1 }))
+
+// Test 1: round counts, small pools are a full round robin
+assert.equal(getSwissRounds(4), 3)
+assert.equal(getSwissRounds(8), 4)
+assert.throws(() => getSwissRounds(3))
+assert.throws(() => getSwissRounds(9))
+
+// Test 2: four movies meet every other movie exactly once
+const roundRobin = play(pool(4), (a, b) => (a.id < b.id ? a : b))
+roundRobin.state.standings.forEach((s) => {
+  assert.deepEqual([...s.opponents].sort(), [1, 2, 3, 4].filter((id) => id !== s.movie.id))
+})
+assert.deepEqual(rankStandings(roundRobin.state.standings).map((s) => s.wins), [3, 2, 1, 0])
+
+// Test 3: first round pairs neighbours in the standings, later rounds avoid rematches
+const state = createSwissState(pool(8))
+assert.deepEqual(pairSwissRound(state, 1).matches.map((m) => [m.movieA.id, m.movieB.id]), [[1, 2], [3, 4], [5, 6], [7, 8]])
+const eight = play(pool(8), (a, b) => (a.id < b.id ? a : b))
+eight.state.standings.forEach((s) => assert.equal(new Set(s.opponents).size, s.opponents.length))
+assert.equal(getSwissWinner(eight.state).id, 1)
+
+// Test 4: odd pools give each bye to a different movie and count it as a win
+const five = play(pool(5), (a, b) => (a.id < b.id ? a : b))
+assert.equal(new Set(five.byes).size, five.byes.length)
+assert.equal(five.state.standings.reduce((sum, s) => sum + s.wins + s.losses, 0), 2 * 2 * 4 + 4)
+
+// Test 5: equal wins fall back to joint Elo
+const tied = createSwissState([{ id: 1, seed: 1, jointElo: 1200 }, { id: 2, seed: 2, jointElo: 1300 }, { id: 3, seed: 3 }, { id: 4, seed: 4 }])
+assert.equal(getSwissWinner(tied).id, 2)
+
+console.log('✅ swiss utils tests passed')
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict'
+import {
+  BUILT_IN_TEMPLATES,
+  applyTemplate,
+  findBuiltInTemplate,
+  pickTemplateSettings,
+  slugify,
+  validateTemplate,
+} from '../src/lib/utils/templates.ts'
+import { normalizeRoomSettings } from '../src/lib/utils/room-settings.ts'
+
+// Test 1: every built-in template is valid and findable by slug
+for (const template of BUILT_IN_TEMPLATES) {
+  assert.equal(validateTemplate(template).valid, true, template.slug)
+  assert.equal(findBuiltInTemplate(template.slug), template)
+}
+assert.equal(findBuiltInTemplate('missing'), undefined)
+
+// Test 2: slugs are lowercase words joined by dashes
+assert.equal(slugify("80s Horror!"), '80s-horror')
+assert.equal(slugify('  Amélie & friends  '), 'amelie-friends')
+assert.equal(slugify('!!!'), 'template')
+
+// Test 3: templates need a name and a real query, and only carry bracket settings
+assert.equal(validateTemplate({ name: 'Short', query: { maxRuntime: 90 } }).valid, true)
+assert.equal(validateTemplate({ name: '', query: { maxRuntime: 90 } }).valid, false)
+assert.equal(validateTemplate({ name: 'Anything', query: {} }).valid, false)
+assert.equal(validateTemplate({ name: 'Bad', query: { yearFrom: 2000, yearTo: 1990 } }).valid, false)
+assert.equal(validateTemplate({ name: 'Seats', query: { maxRuntime: 90 }, settings: { maxParticipants: 4 } }).error, "Templates can't set: maxParticipants")
+assert.equal(validateTemplate({ name: 'Swiss', query: { maxRuntime: 90 }, settings: { format: 'swiss' } }).valid, true)
+assert.equal(validateTemplate({ name: 'Odd', query: { maxRuntime: 90 }, settings: { format: 'round-robin' } }).valid, false)
+assert.deepEqual(pickTemplateSettings({ format: 'swiss', maxParticipants: 4 }), { format: 'swiss' })
+
+// Test 4: a room from a template takes its query as filters, with the owner's own settings on top
+const horror = findBuiltInTemplate('80s-horror')!
+const settings = normalizeRoomSettings(applyTemplate(horror, { seeding: 'elo', maxParticipants: 4 }))
+assert.deepEqual(settings.filters, horror.query)
+assert.equal(settings.seeding, 'elo')
+assert.equal(settings.maxParticipants, 4)
+assert.equal(settings.format, 'single-elimination')
+
+console.log('✅ template utils tests passed')
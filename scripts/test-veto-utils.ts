@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict'
+import {
+  createVetoPhase,
+  getRemainingVetoes,
+  getVetoedPool,
+  hasFinishedVetoing,
+  isVetoPhaseComplete,
+  validateVeto,
+} from '../src/lib/utils/veto.ts'
+
+const pool = [1, 2, 3, 4, 5, 6].map((id) => ({ id }))
+const voters = ['u1', 'u2']
+
+// Test 1: a fresh phase gives everyone their full quota
+const phase = createVetoPhase(pool, 2)
+assert.equal(getRemainingVetoes(phase, 'u1'), 2)
+assert.equal(isVetoPhaseComplete(phase, voters, 2), false)
+
+// Test 2: vetoes must target a movie still in the pool
+assert.equal(validateVeto(phase, 'u1', 3, 2).valid, true)
+assert.equal(validateVeto(phase, 'u1', 99, 2).valid, false)
+assert.equal(validateVeto(phase, 'u1', '3', 2).valid, false)
+phase.vetoes.push({ userId: 'u1', movieId: 3 })
+assert.equal(validateVeto(phase, 'u2', 3, 2).error, 'Movie has already been vetoed')
+assert.deepEqual(getVetoedPool(phase).map((m) => m.id), [1, 2, 4, 5, 6])
+
+// Test 3: quotas are per participant
+phase.vetoes.push({ userId: 'u1', movieId: 5 })
+assert.equal(getRemainingVetoes(phase, 'u1'), 0)
+assert.equal(validateVeto(phase, 'u1', 1, 2).error, 'No vetoes left')
+assert.equal(validateVeto(phase, 'u2', 1, 2).valid, true)
+assert.equal(hasFinishedVetoing(phase, 'u1'), true)
+
+// Test 4: the phase ends once everyone is out of vetoes or done
+assert.equal(isVetoPhaseComplete(phase, voters, 2), false)
+phase.done.push('u2')
+assert.equal(validateVeto(phase, 'u2', 1, 2).error, 'No vetoes left')
+assert.equal(isVetoPhaseComplete(phase, voters, 2), true)
+
+// Test 5: vetoes stop at the format's minimum pool size
+const small = createVetoPhase(pool.slice(0, 5), 3)
+small.vetoes.push({ userId: 'u1', movieId: 1 })
+assert.equal(validateVeto(small, 'u2', 2, 4).valid, false)
+assert.equal(isVetoPhaseComplete(small, voters, 4), true)
+
+console.log('✅ veto utils tests passed')
@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict'
+import { hasAllVotes, isUndecided, resolveMatchVotes } from '../src/lib/utils/voting.ts'
+import { normalizeRoomSettings, validateRoomSettings } from '../src/lib/utils/room-settings.ts'
+
+const movieA = { id: 1, fromUsers: ['u1'] }
+const movieB = { id: 2, fromUsers: ['u2', 'u3'] }
+
+// Test 1: every voter must pick before a match resolves
+const votes = [
+  { userId: 'u1', selectedMovieId: 1 },
+  { userId: 'u2', selectedMovieId: 1 },
+]
+assert.equal(hasAllVotes(votes, ['u1', 'u2', 'u3']), false)
+assert.equal(hasAllVotes([...votes, { userId: 'u3', selectedMovieId: 2 }], ['u1', 'u2', 'u3']), true)
+assert.equal(hasAllVotes([], []), false)
+
+// Test 2: 2 of 3 is a majority
+const majority = resolveMatchVotes(movieA, movieB, [...votes, { userId: 'u3', selectedMovieId: 2 }], {
+  rule: 'majority',
+  voterCount: 3,
+})
+assert.equal(majority.winnerId, 1)
+assert.equal(majority.loserId, 2)
+assert.equal(majority.decidedBy, 'majority')
+assert.deepEqual(majority.votes, { 1: 2, 2: 1 })
+
+// Test 3: under majority a timed-out voter's auto pick counts toward the threshold but backs neither movie
+const withTimeout = [
+  { userId: 'u1', selectedMovieId: 1 },
+  { userId: 'u2', selectedMovieId: 2 },
+  { userId: 'u3', selectedMovieId: 1, autoPicked: true },
+]
+const byPlurality = resolveMatchVotes(movieA, movieB, withTimeout, { rule: 'plurality', voterCount: 3 })
+assert.equal(byPlurality.winnerId, 1, 'Expected the auto pick to count as a vote under plurality')
+assert.deepEqual(byPlurality.votes, { 1: 2, 2: 1 })
+const byMajority = resolveMatchVotes(movieA, movieB, withTimeout, { rule: 'majority', voterCount: 3 })
+assert.deepEqual(byMajority.votes, { 1: 1, 2: 1 })
+assert.equal(byMajority.decidedBy, 'elo')
+assert.equal(byMajority.winnerId, 2, 'Expected tie-break to favour the movie more participants added')
+assert.equal(isUndecided(movieA, movieB, withTimeout, { rule: 'plurality', voterCount: 3 }), false)
+assert.equal(isUndecided(movieA, movieB, withTimeout, { rule: 'majority', voterCount: 3 }), true)
+
+// Test 3b: abstentions still count toward the threshold, so 2 real votes of 4 are not a majority
+const twoTimeouts = [
+  { userId: 'u1', selectedMovieId: 1 },
+  { userId: 'u2', selectedMovieId: 1 },
+  { userId: 'u3', selectedMovieId: 1, autoPicked: true },
+  { userId: 'u4', selectedMovieId: 2, autoPicked: true },
+]
+assert.equal(resolveMatchVotes(movieA, movieB, twoTimeouts, { rule: 'plurality', voterCount: 4 }).decidedBy, 'majority')
+assert.equal(resolveMatchVotes(movieA, movieB, twoTimeouts, { rule: 'majority', voterCount: 4 }).decidedBy, 'elo')
+assert.equal(resolveMatchVotes(movieA, movieB, twoTimeouts.slice(0, 3), { rule: 'majority', voterCount: 3 }).decidedBy, 'majority')
+
+// Test 4: a split vote goes to the tie-break
+const split = resolveMatchVotes(movieA, { id: 2, fromUsers: ['u2'] }, [
+  { userId: 'u1', selectedMovieId: 1 },
+  { userId: 'u2', selectedMovieId: 2 },
+], { rule: 'plurality', voterCount: 2 })
+assert.equal(split.decidedBy, 'elo')
+assert.equal(split.winnerId, 1, 'Expected equal support to fall back to the first slot')
+
+// Test 5: tie-break policies settle a split vote
+const splitVotes = [
+  { userId: 'u1', selectedMovieId: 1 },
+  { userId: 'u2', selectedMovieId: 2 },
+]
+const tied = { rule: 'plurality' as const, voterCount: 2 }
+assert.equal(isUndecided(movieA, movieB, splitVotes, tied), true)
+assert.equal(isUndecided(movieA, movieB, splitVotes.slice(0, 1), tied), false)
+const byElo = resolveMatchVotes(movieA, movieB, splitVotes, { ...tied, tieBreak: { policy: 'elo', jointElo: { 1: 1300, 2: 1250 } } })
+assert.equal(byElo.winnerId, 1, 'Expected the higher combined Elo to win despite fewer watchlists')
+assert.equal(resolveMatchVotes(movieA, movieB, splitVotes, { ...tied, tieBreak: { policy: 'coin-flip', coinFlip: 0.7 } }).winnerId, 2)
+const byCoin = resolveMatchVotes(movieA, movieB, splitVotes, { ...tied, tieBreak: { policy: 'coin-flip', coinFlip: 0.2 } })
+assert.equal(byCoin.winnerId, 1)
+assert.equal(byCoin.decidedBy, 'coin-flip')
+const byOwner = resolveMatchVotes(movieA, movieB, splitVotes, { ...tied, tieBreak: { policy: 'owner', ownerId: 'u1' } })
+assert.equal(byOwner.winnerId, 1)
+assert.equal(byOwner.decidedBy, 'owner')
+const ownerLeft = resolveMatchVotes(movieA, movieB, splitVotes, { ...tied, tieBreak: { policy: 'owner', ownerId: 'u9' } })
+assert.equal(ownerLeft.decidedBy, 'elo', 'Expected a missing owner pick to fall back to Elo')
+
+// Test 6: room settings validation and defaults
+assert.deepEqual(normalizeRoomSettings(null), {
+  maxParticipants: 2,
+  votingRule: 'plurality',
+  tieBreak: 'elo',
+  seeding: 'random',
+  format: 'single-elimination',
+  grandFinalReset: true,
+  filters: {},
+  vetoesPerUser: 0,
+  pickTimeLimit: 0,
+  autoPick: 'elo',
+  excludedMovieIds: [],
+  poolSource: 'watchlists',
+  candidates: [],
+})
+assert.equal(normalizeRoomSettings({ maxParticipants: 20 }).maxParticipants, 8)
+assert.equal(validateRoomSettings({ maxParticipants: 6, votingRule: 'majority' }).valid, true)
+assert.equal(validateRoomSettings({ maxParticipants: 9 }).valid, false)
+assert.equal(validateRoomSettings({ votingRule: 'unanimous' }).valid, false)
+assert.equal(validateRoomSettings({ seeding: 'random' }).valid, true)
+assert.equal(validateRoomSettings({ seeding: 'alphabetical' }).valid, false)
+assert.equal(validateRoomSettings({ format: 'double-elimination', grandFinalReset: false }).valid, true)
+assert.equal(validateRoomSettings({ grandFinalReset: 'yes' }).valid, false)
+assert.equal(validateRoomSettings({ format: 'swiss' }).valid, true)
+assert.equal(validateRoomSettings({ tieBreak: 'rematch' }).valid, true)
+assert.equal(validateRoomSettings({ tieBreak: 'loudest' }).valid, false)
+assert.equal(validateRoomSettings({ vetoesPerUser: 2 }).valid, true)
+assert.equal(validateRoomSettings({ vetoesPerUser: 6 }).valid, false)
+assert.equal(normalizeRoomSettings({ vetoesPerUser: -1 }).vetoesPerUser, 0)
+
+console.log('✅ voting utils tests passed')
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { rooms, roomParticipants } from '@/db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { TournamentEngine, Tournament, TournamentMatch } from '@/lib/tournament-engine';
+import { normalizeRoomSettings } from '@/lib/utils/room-settings';
+import { getVetoedPool } from '@/lib/utils/veto';
+
+// Regenerates a room's first round from its stored seed and participants, without saving anything.
+// Watchlist or rating changes since the room started will show up as mismatches.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const roomCode = searchParams.get('roomCode');
+
+    if (!roomCode) {
+      return NextResponse.json({ error: 'Room code required' }, { status: 400 });
+    }
+
+    const room = await db.query.rooms.findFirst({
+      where: eq(rooms.code, roomCode),
+    });
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const stored = room.tournamentData as Tournament | null;
+    if (!stored) {
+      return NextResponse.json({ error: 'Room has no tournament yet' }, { status: 404 });
+    }
+    if (stored.veto && !stored.veto.complete) {
+      return NextResponse.json({ error: 'Bracket is drawn once the veto phase is over' }, { status: 409 });
+    }
+    if (stored.rngSeed === undefined) {
+      return NextResponse.json({ error: 'Tournament was created before seeds were stored' }, { status: 422 });
+    }
+
+    // Older tournaments didn't record participants; join order is what the start action used
+    const participantIds = stored.participantIds ?? (await db
+      .select({ userId: roomParticipants.userId })
+      .from(roomParticipants)
+      .where(eq(roomParticipants.roomId, room.id))
+      .orderBy(asc(roomParticipants.joinedAt))
+    ).map(p => p.userId);
+
+    const settings = normalizeRoomSettings(room.settings);
+    const regenerated = await TournamentEngine.generateTournament(participantIds, {
+      seeding: stored.seeding ?? settings.seeding,
+      format: stored.format ?? settings.format,
+      rngSeed: stored.rngSeed,
+      filters: settings.filters,
+      excludeIds: settings.excludedMovieIds,
+      candidates: settings.poolSource === 'watchlists' ? undefined : settings.candidates,
+      // Vetoed rooms are drawn from the pool fixed at the start of the veto phase
+      pool: stored.veto ? getVetoedPool(stored.veto) : undefined,
+    });
+
+    const summarize = (matches: TournamentMatch[]) => matches
+      .filter(m => m.roundNumber === 1)
+      .map(m => ({
+        matchId: m.matchId,
+        movieA: { id: m.movieA.id, title: m.movieA.title },
+        movieB: { id: m.movieB.id, title: m.movieB.title },
+      }));
+
+    const storedRound1 = summarize(stored.matches);
+    const regeneratedRound1 = summarize(regenerated.matches);
+
+    return NextResponse.json({
+      roomCode,
+      roomId: room.id,
+      rngSeed: stored.rngSeed,
+      participantIds,
+      seeding: regenerated.seeding,
+      format: regenerated.format,
+      matchesStoredBracket: JSON.stringify(storedRound1) === JSON.stringify(regeneratedRound1),
+      stored: {
+        matches: storedRound1,
+        byes: (stored.byes ?? []).filter(b => b.roundNumber === 1).map(b => b.movie.id),
+      },
+      regenerated: {
+        matches: regeneratedRound1,
+        byes: (regenerated.byes ?? []).filter(b => b.roundNumber === 1).map(b => b.movie.id),
+      },
+    });
+
+  } catch (error) {
+    console.error('Error regenerating tournament:', error);
+    return NextResponse.json(
+      { error: 'Failed to regenerate tournament' },
+      { status: 500 }
+    );
+  }
+}
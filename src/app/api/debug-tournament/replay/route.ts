@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { rooms } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { RoomEventLog } from '@/lib/db/room-event-log';
+
+// Rebuilds a room's state from its event log, as it stood after event `upto` (default: the latest)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const roomCode = searchParams.get('roomCode');
+    const upto = searchParams.get('upto');
+
+    if (!roomCode) {
+      return NextResponse.json({ error: 'Room code required' }, { status: 400 });
+    }
+
+    const uptoSeq = upto === null ? undefined : Number(upto);
+    if (uptoSeq !== undefined && (!Number.isInteger(uptoSeq) || uptoSeq < 1)) {
+      return NextResponse.json({ error: 'upto must be a positive whole number' }, { status: 400 });
+    }
+
+    const room = await db.query.rooms.findFirst({
+      where: eq(rooms.code, roomCode),
+    });
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const replayed = await RoomEventLog.replay(room.id, uptoSeq);
+    if (!replayed) {
+      return NextResponse.json({ error: 'No events logged for this room' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      roomCode,
+      roomId: room.id,
+      seq: replayed.seq,
+      state: replayed.state,
+      record: replayed.record, // the room's rows, or null where the log predates them
+    });
+
+  } catch (error) {
+    console.error('Error replaying room:', error);
+    return NextResponse.json(
+      { error: 'Failed to replay room' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { rooms } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { RoomEventLog } from '@/lib/db/room-event-log';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// Compares stored room state with what the event log replays to. With a roomCode it checks that
+// room; otherwise it checks the most recently saved rooms and lists the ones that don't match.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const roomCode = searchParams.get('roomCode');
+
+    if (roomCode) {
+      const room = await db.query.rooms.findFirst({
+        where: eq(rooms.code, roomCode),
+      });
+
+      if (!room) {
+        return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+      }
+
+      const result = await RoomEventLog.check(room.id);
+      if (!result) {
+        return NextResponse.json({ error: 'Room has no saved state' }, { status: 404 });
+      }
+      return NextResponse.json({ roomCode, ...result });
+    }
+
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const { checked, mismatches } = await RoomEventLog.findMismatches(limit);
+
+    return NextResponse.json({ checked, mismatches });
+
+  } catch (error) {
+    console.error('Error checking room state:', error);
+    return NextResponse.json(
+      { error: 'Failed to check room state' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { db } from '@/db';
+import { movieLists } from '@/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { normalizeCandidates, validateCandidates, validateListName } from '@/lib/utils/pool-source';
+
+// The signed-in user's saved lists, newest first
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const lists = await db
+      .select({ id: movieLists.id, name: movieLists.name, movies: movieLists.movies })
+      .from(movieLists)
+      .where(eq(movieLists.userId, user.id))
+      .orderBy(desc(movieLists.createdAt));
+
+    return NextResponse.json({ success: true, lists });
+
+  } catch (error) {
+    console.error('Error loading movie lists:', error);
+    return NextResponse.json({
+      error: 'Failed to load lists'
+    }, { status: 500 });
+  }
+}
+
+// Saves a curated pool under a name so a later room can start from it
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = [validateListName(body?.name), validateCandidates(body?.movies)].find(v => !v.valid);
+    if (validation) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const [list] = await db
+      .insert(movieLists)
+      .values({
+        userId: user.id,
+        name: body.name.trim(),
+        movies: normalizeCandidates(body.movies),
+      })
+      .returning({ id: movieLists.id, name: movieLists.name, movies: movieLists.movies });
+
+    return NextResponse.json({ success: true, list });
+
+  } catch (error) {
+    console.error('Error saving movie list:', error);
+    return NextResponse.json({
+      error: 'Failed to save list'
+    }, { status: 500 });
+  }
+}
@@ -3,9 +3,8 @@ import { createClient } from '@/lib/supabase/server';
 import { db } from '@/db';
 import { rooms, roomParticipants } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
-import { ActionProcessor, Action } from '@/lib/services/action-processor';
-import { TournamentEngine } from '@/lib/tournament-engine';
-import { RoomStateManager } from '@/lib/services/room-state-manager';
+import { ActionProcessorV2, Action } from '@/lib/services/action-processor-v2';
+import { RoomStateManager, StateConflictError } from '@/lib/services/room-state-manager';
 
 export async function POST(
   request: Request,
@@ -30,7 +29,7 @@ export async function POST(
       }, { status: 400 });
     }
 
-    const validActions = ['start', 'pick', 'leave', 'extend'];
+    const validActions = ['start', 'pick', 'leave', 'extend', 'filters', 'veto', 'undo', 'pause', 'resume', 'rematch'];
     if (!validActions.includes(body.action)) {
       return NextResponse.json({ 
         error: 'Invalid action' 
@@ -62,7 +61,7 @@ export async function POST(
     }
 
     // Process action
-    const processor = ActionProcessor.getInstance();
+    const processor = ActionProcessorV2.getInstance();
     const action: Action = {
       action: body.action,
       payload: body.payload,
@@ -87,6 +86,12 @@ export async function POST(
     });
 
   } catch (error) {
+    if (error instanceof StateConflictError) {
+      return NextResponse.json({ 
+        error: 'The room changed while your action was processed, try again' 
+      }, { status: 409 });
+    }
+
     console.error('Error processing action:', error);
     return NextResponse.json({ 
       error: 'Failed to process action' 
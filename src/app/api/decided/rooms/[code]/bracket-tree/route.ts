@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { db } from '@/db';
+import { rooms, bracketPicks } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import type { Tournament } from '@/lib/tournament-engine';
+import { buildBracketTree } from '@/lib/utils/bracket-tree';
+
+// Every round of the room's tournament with how each match went; picks stay hidden until a match is
+// resolved. Works the same on finished rooms, as a recap.
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ code: string }> }
+) {
+  try {
+    const params = await context.params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const room = await db.query.rooms.findFirst({
+      where: eq(rooms.code, params.code),
+      with: {
+        participants: {
+          with: { user: true },
+        },
+      },
+    });
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    // Players and spectators alike, including anyone who has since left
+    if (!room.participants.some(p => p.userId === user.id)) {
+      return NextResponse.json({ 
+        error: 'Not a participant of this room' 
+      }, { status: 403 });
+    }
+
+    const tournament = room.tournamentData as Tournament | null;
+    if (!tournament) {
+      return NextResponse.json({ error: 'Room has no tournament yet' }, { status: 404 });
+    }
+
+    const picks = await db
+      .select({
+        matchId: bracketPicks.matchId,
+        userId: bracketPicks.userId,
+        selectedMovieId: bracketPicks.selectedMovieId,
+        autoPicked: bracketPicks.autoPicked,
+      })
+      .from(bracketPicks)
+      .where(eq(bracketPicks.roomId, room.id));
+
+    const rounds = buildBracketTree({
+      format: tournament.format,
+      totalRounds: tournament.totalRounds,
+      matches: tournament.matches,
+      byes: tournament.byes,
+      resolutions: tournament.resolutions,
+      picks,
+    });
+
+    return NextResponse.json({
+      success: true,
+      status: room.status,
+      format: tournament.format ?? 'single-elimination',
+      currentRound: tournament.currentRound,
+      totalRounds: tournament.totalRounds,
+      participants: room.participants.map(p => ({
+        userId: p.userId,
+        name: p.user.name || p.user.username,
+        avatarUrl: p.user.avatarUrl || undefined,
+        ...(p.role === 'spectator' ? { isSpectator: true } : {}),
+      })),
+      rounds,
+    });
+
+  } catch (error) {
+    console.error('Error building bracket tree:', error);
+    return NextResponse.json({ 
+      error: 'Failed to build bracket tree' 
+    }, { status: 500 });
+  }
+}
@@ -3,7 +3,15 @@ import { createClient } from '@/lib/supabase/server';
 import { db } from '@/db';
 import { rooms, roomParticipants, users } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
-import { RoomStateManager } from '@/lib/services/room-state-manager';
+import { RoomStateManager, StateConflictError } from '@/lib/services/room-state-manager';
+import { AuthMiddleware } from '@/lib/security/auth-middleware';
+import { getPlayers, parseJoinRole, planJoin } from '@/lib/utils/spectators';
+import { MIN_PARTICIPANTS } from '@/lib/utils/room-settings';
+import { ActionProcessorV2 } from '@/lib/services/action-processor-v2';
+import { retryOnConflict } from '@/lib/utils/conflict-retry';
+
+// Tries at saving the join before answering 409
+const MAX_JOIN_ATTEMPTS = 3;
 
 export async function POST(
   request: Request,
@@ -20,6 +28,14 @@ export async function POST(
 
     const roomCode = params.code;
 
+    // The body is optional; joining without one takes a seat as a player
+    const body = await request.json().catch(() => ({}));
+    const parsed = parseJoinRole(body?.role);
+    if (!parsed.valid || !parsed.role) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const role = parsed.role;
+
     // Get room
     const room = await db.query.rooms.findFirst({
       where: eq(rooms.code, roomCode),
@@ -29,12 +45,6 @@ export async function POST(
       return NextResponse.json({ error: 'Room not found' }, { status: 404 });
     }
 
-    if (room.status !== 'waiting') {
-      return NextResponse.json({ 
-        error: 'Room is not accepting new participants' 
-      }, { status: 400 });
-    }
-
     // Check if already a participant
     const existingParticipant = await db.query.roomParticipants.findFirst({
       where: and(
@@ -43,40 +53,24 @@ export async function POST(
       ),
     });
 
-    const stateManager = RoomStateManager.getInstance();
-
-    if (existingParticipant) {
-      if (existingParticipant.isActive) {
-        return NextResponse.json({ 
-          success: true,
-          message: 'Already in room' 
-        });
-      }
+    const plan = planJoin(role, room.status, existingParticipant);
+    if (plan.kind === 'rejected') {
+      return NextResponse.json({ 
+        error: plan.error 
+      }, { status: 400 });
+    }
 
-      // Reactivate participant
-      await db
-        .update(roomParticipants)
-        .set({
-          isActive: true,
-          leftAt: null,
-        })
-        .where(eq(roomParticipants.id, existingParticipant.id));
-    } else {
-      // Check room capacity first by getting current participant count
-      const currentParticipants = await db.query.roomParticipants.findMany({
-        where: and(
-          eq(roomParticipants.roomId, room.id),
-          eq(roomParticipants.isActive, true)
-        ),
+    if (plan.kind === 'already-joined') {
+      return NextResponse.json({ 
+        success: true,
+        message: 'Already in room' 
       });
+    }
 
-      if (currentParticipants.length >= 2) {
-        return NextResponse.json({ 
-          error: 'Room is full' 
-        }, { status: 400 });
-      }
+    const stateManager = RoomStateManager.getInstance();
 
-      // Get user profile
+    // Get user profile
+    if (plan.kind === 'join') {
       const userProfile = await db.query.users.findFirst({
         where: eq(users.id, user.id),
       });
@@ -86,28 +80,94 @@ export async function POST(
           error: 'User profile not found' 
         }, { status: 400 });
       }
+    }
+
+    // The participant row and the state listing them land together: a join that loses to another
+    // save is rolled back and built again from the newer state
+    const joined = await retryOnConflict(async (stage) => {
+      const saved = await db.transaction(async (tx) => {
+        // Counted on every attempt with the room row locked, so a join that just won can't be overbooked;
+        // spectators don't take a seat
+        if (plan.takesSeat) {
+          const capacity = await AuthMiddleware.validateRoomCapacity(room.id, tx);
+          if (!capacity.canJoin) {
+            return null;
+          }
+        }
+
+        if (existingParticipant) {
+          // Reactivate participant
+          await tx
+            .update(roomParticipants)
+            .set({
+              isActive: true,
+              leftAt: null,
+              droppedAt: null,
+              lastSeenAt: new Date(),
+              role,
+            })
+            .where(eq(roomParticipants.id, existingParticipant.id));
+        } else {
+          // Add as participant
+          await tx
+            .insert(roomParticipants)
+            .values({
+              roomId: room.id,
+              userId: user.id,
+              isActive: true,
+              role,
+            });
+        }
+
+        // Now rebuild state from the updated participants. Once the tournament is under way only the
+        // participant list changes, so a spectator joining doesn't reset the bracket.
+        const freshState = room.status === 'waiting'
+          ? await stateManager.rebuildFromParticipants(room.id, tx)
+          : await stateManager.refreshParticipants(room.id, tx);
+
+        await stateManager.writeState(tx, room.id, freshState, user.id, { eventType: 'join' });
+        return freshState;
+      });
+
+      if (saved) {
+        // Broadcast to all connected users
+        stage(() => stateManager.publishState(room.id, saved));
+      }
+      return saved;
+    }, { maxAttempts: MAX_JOIN_ATTEMPTS, isConflict: error => error instanceof StateConflictError });
 
-      // Add as participant
-      await db
-        .insert(roomParticipants)
-        .values({
-          roomId: room.id,
-          userId: user.id,
-          isActive: true,
-        });
+    if (!joined) {
+      return NextResponse.json({ 
+        error: 'Room is full' 
+      }, { status: 400 });
     }
 
-    // Now rebuild state from the updated participants in the database
-    const freshState = await stateManager.rebuildFromParticipants(room.id);
-    
-    // Save the fresh state - this will broadcast to all connected users
-    await stateManager.saveState(room.id, freshState, user.id);
+    // The room was held for a dropped player; with them back it carries on. Should this fail, resume
+    // stays on offer to everyone in the room.
+    if (joined.data.room.paused?.reason === 'disconnected'
+      && getPlayers(joined.data.room.participants).length >= MIN_PARTICIPANTS) {
+      try {
+        const resumed = await ActionProcessorV2.getInstance().process(room.id, user.id, { action: 'resume' });
+        if (!resumed.success) {
+          console.error(`Failed to resume room ${roomCode} after a reconnect:`, resumed.error);
+        }
+      } catch (error) {
+        console.error(`Failed to resume room ${roomCode} after a reconnect:`, error);
+      }
+    }
 
     return NextResponse.json({ 
-      success: true 
+      success: true,
+      role,
     });
 
   } catch (error) {
+    if (error instanceof StateConflictError) {
+      return NextResponse.json({ 
+        error: 'The room changed while you joined, try again' 
+      }, { status: 409 });
+    }
+
     console.error('Error joining room:', error);
     return NextResponse.json({ 
       error: 'Failed to join room' 
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { RoomRecap } from '@/lib/services/room-recap';
+
+// How a finished room played out: agreement, close calls, pick speed, the finalists' paths and
+// how the winner's rating moved. The share page shows the same recap without the user ids.
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ code: string }> }
+) {
+  try {
+    const params = await context.params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const data = await RoomRecap.forCode(params.code);
+    if (!data) {
+      return NextResponse.json({ error: 'No recap for this room yet' }, { status: 404 });
+    }
+
+    if (!data.participants.some(p => p.userId === user.id)) {
+      return NextResponse.json({
+        error: 'Not a participant of this room'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      code: data.room.code,
+      completedAt: data.room.completedAt,
+      participants: data.participants,
+      recap: data.recap,
+      sharePath: `/decide-together/${data.room.code}/recap`,
+    });
+
+  } catch (error) {
+    console.error('Error building recap:', error);
+    return NextResponse.json({
+      error: 'Failed to build recap'
+    }, { status: 500 });
+  }
+}
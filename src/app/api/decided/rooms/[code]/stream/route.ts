@@ -3,6 +3,8 @@ import { db } from '@/db';
 import { rooms, roomParticipants } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { RoomStateManager } from '@/lib/services/room-state-manager';
+import { RoomEventLog } from '@/lib/db/room-event-log';
+import { formatSseEvent, parseLastEventId, planResume, toReplayedState } from '@/lib/utils/sse-resume';
 
 export async function GET(
   request: Request,
@@ -48,17 +50,53 @@ export async function GET(
     });
   }
 
+  // Browsers resend the last id on their own reconnects; our client passes it on fresh connections
+  const lastEventId = parseLastEventId(
+    request.headers.get('last-event-id') ?? new URL(request.url).searchParams.get('lastEventId')
+  );
+
+  // An open stream is how we know the participant is still here; the sweeper drops them once it goes quiet.
+  // A reconnect counts as soon as it arrives, so a stale heartbeat from before can't get them dropped.
+  const markSeen = () => db
+    .update(roomParticipants)
+    .set({ lastSeenAt: new Date() })
+    .where(and(
+      eq(roomParticipants.roomId, room.id),
+      eq(roomParticipants.userId, user.id)
+    ))
+    .catch(error => console.error('Error recording heartbeat:', error));
+  await markSeen();
+
   // Create SSE stream
   const encoder = new TextEncoder();
   const stateManager = RoomStateManager.getInstance();
   
   const stream = new ReadableStream({
     async start(controller) {
-      // Send initial state
+      // Send initial state: whatever the client missed since the last version it saw, or all of it
       try {
         const initialState = await stateManager.getState(room.id, user.id);
-        const data = `data: ${JSON.stringify(initialState)}\n\n`;
-        controller.enqueue(encoder.encode(data));
+        const plan = planResume(lastEventId, initialState.version);
+        let resumed = plan.kind === 'none';
+
+        if (plan.kind === 'replay') {
+          try {
+            // The log has every version in between, sent as they were without this user's view of them;
+            // the last one goes out below, personalized now
+            const missed = await RoomEventLog.transitions(room.id, plan.fromSeq, plan.toSeq - 1);
+            for (const { seq, state } of missed) {
+              controller.enqueue(encoder.encode(formatSseEvent(toReplayedState(state), { id: seq })));
+            }
+            controller.enqueue(encoder.encode(formatSseEvent(initialState, { id: initialState.version })));
+            resumed = true;
+          } catch (error) {
+            console.error('Error replaying missed states, sending a snapshot instead:', error);
+          }
+        }
+
+        if (!resumed) {
+          controller.enqueue(encoder.encode(formatSseEvent(initialState, { id: initialState.version, event: 'snapshot' })));
+        }
       } catch (error) {
         console.error('Error sending initial state:', error);
       }
@@ -67,6 +105,7 @@ export async function GET(
       const heartbeat = setInterval(() => {
         try {
           controller.enqueue(encoder.encode(': heartbeat\n\n'));
+          markSeen();
         } catch (error) {
           // Connection closed
           clearInterval(heartbeat);
@@ -78,8 +117,7 @@ export async function GET(
         try {
           // Use the updated state directly and personalize it for this user
           const personalizedState = await stateManager.personalizeState(newState, user.id, room.id);
-          const data = `data: ${JSON.stringify(personalizedState)}\n\n`;
-          controller.enqueue(encoder.encode(data));
+          controller.enqueue(encoder.encode(formatSseEvent(personalizedState, { id: personalizedState.version })));
         } catch (error) {
           console.error('Error sending state update:', error);
         }
@@ -1,11 +1,14 @@
 import { NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
 import { db } from '@/db';
-import { rooms, roomParticipants, roomStates } from '@/db/schema';
-import { customAlphabet } from 'nanoid';
+import { createClient } from '@/lib/supabase/server';
 import { RoomStateManager, RoomState } from '@/lib/services/room-state-manager';
-
-const nanoid = customAlphabet('0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ', 6);
+import { RoomFactory } from '@/lib/services/room-factory';
+import { normalizeRoomSettings, validateRoomSettings } from '@/lib/utils/room-settings';
+import { MAX_ROOM_EXTENSIONS } from '@/lib/utils/room-deadline';
+import { validatePoolSourceRequest } from '@/lib/utils/pool-source';
+import { PoolResolver } from '@/lib/services/pool-resolver';
+import { TournamentTemplates } from '@/lib/db/tournament-templates';
+import { applyTemplate } from '@/lib/utils/templates';
 
 export async function POST(request: Request) {
   try {
@@ -16,55 +19,74 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Generate unique room code
-    const roomCode = nanoid();
-
-    // Create room
-    const [room] = await db
-      .insert(rooms)
-      .values({
-        code: roomCode,
-        ownerId: user.id,
-        status: 'waiting',
-      })
-      .returning();
+    // Optional owner-chosen settings; an empty body keeps the defaults
+    const body = await request.json().catch(() => ({}));
+    const validation = validateRoomSettings(body?.settings);
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    // Where the candidates come from; without a pool the room merges everyone's watchlists
+    const poolValidation = validatePoolSourceRequest(body?.pool);
+    if (!poolValidation.valid) {
+      return NextResponse.json({ error: poolValidation.error }, { status: 400 });
+    }
+    const resolved = await PoolResolver.resolve(user.id, body?.pool ?? { source: 'watchlists' });
+    if (!resolved.valid || !resolved.pool) {
+      return NextResponse.json({ error: resolved.error }, { status: 400 });
+    }
+    const { source: poolSource, candidates, unresolved } = resolved.pool;
 
-    // Add owner as participant
-    await db
-      .insert(roomParticipants)
-      .values({
-        roomId: room.id,
-        userId: user.id,
-        isActive: true,
-      });
+    // Starting from a template fills in its filters and bracket settings under whatever the owner set
+    let requested = body?.settings;
+    if (body?.template !== undefined) {
+      const template = typeof body.template === 'string' ? await TournamentTemplates.findBySlug(body.template) : null;
+      if (!template) {
+        return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+      }
+      requested = applyTemplate(template, body?.settings);
+    }
+    const settings = normalizeRoomSettings({ ...requested, poolSource, candidates });
 
-    // Create initial room state
+    // Create room with the owner joined, and its initial state, in one transaction so the room's
+    // event log starts from the rows it was created with
     const stateManager = RoomStateManager.getInstance();
-    const initialState: RoomState = {
-      version: 0,
-      screen: 'lobby',
-      data: {
-        room: {
-          code: roomCode,
-          participants: [{
-            userId: user.id,
-            name: user.user_metadata?.full_name || user.email?.split('@')[0] || 'Anonymous',
-            avatarUrl: user.user_metadata?.avatar_url,
-            isActive: true,
-            isReady: false,
-            isOwner: true,
-          }],
+    const { room, initialState } = await db.transaction(async (tx) => {
+      const room = await RoomFactory.create({ ownerId: user.id, settings }, tx);
+
+      const initialState: RoomState = {
+        version: 0,
+        screen: 'lobby',
+        data: {
+          room: {
+            code: room.code,
+            expiresAt: room.expiresAt!.toISOString(),
+            extensionsRemaining: MAX_ROOM_EXTENSIONS,
+            maxParticipants: settings.maxParticipants,
+            pickTimeLimit: settings.pickTimeLimit,
+            filters: settings.filters,
+            participants: [{
+              userId: user.id,
+              name: user.user_metadata?.full_name || user.email?.split('@')[0] || 'Anonymous',
+              avatarUrl: user.user_metadata?.avatar_url,
+              isActive: true,
+              isReady: false,
+              isOwner: true,
+            }],
+          },
         },
-      },
-      availableActions: ['leave'],
-      lastUpdated: new Date().toISOString(),
-    };
+        availableActions: ['leave'],
+        lastUpdated: new Date().toISOString(),
+      };
 
-    await stateManager.saveState(room.id, initialState, user.id);
+      await stateManager.writeState(tx, room.id, initialState, user.id, { eventType: 'room_created' });
+      return { room, initialState };
+    });
+    stateManager.publishState(room.id, initialState);
 
     return NextResponse.json({ 
       success: true,
-      roomCode: room.code 
+      roomCode: room.code,
+      ...(unresolved.length > 0 ? { unresolvedTitles: unresolved } : {}),
     });
 
   } catch (error) {
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { TournamentTemplates } from '@/lib/db/tournament-templates';
+
+// Shared templates are readable by slug without signing in
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await context.params;
+    const template = await TournamentTemplates.findBySlug(slug);
+
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, template });
+
+  } catch (error) {
+    console.error('Error loading template:', error);
+    return NextResponse.json({
+      error: 'Failed to load template'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { TournamentTemplates } from '@/lib/db/tournament-templates';
+import { validateTemplate } from '@/lib/utils/templates';
+
+// Built-in templates plus the signed-in user's own
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const templates = await TournamentTemplates.listFor(user.id);
+    return NextResponse.json({ success: true, templates });
+
+  } catch (error) {
+    console.error('Error loading templates:', error);
+    return NextResponse.json({
+      error: 'Failed to load templates'
+    }, { status: 500 });
+  }
+}
+
+// Saves a template; the response's slug is what gets shared
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = validateTemplate(body);
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const template = await TournamentTemplates.create(user.id, body);
+    return NextResponse.json({ success: true, template });
+
+  } catch (error) {
+    console.error('Error saving template:', error);
+    return NextResponse.json({
+      error: 'Failed to save template'
+    }, { status: 500 });
+  }
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/db'
 import { films } from '@/db/schema'
-import { desc, asc, ilike, and, gte, lte, sql, count } from 'drizzle-orm'
+import { desc, asc, ilike, and, sql, count } from 'drizzle-orm'
+import { FilmFilters } from '@/lib/db/film-filters'
+import { TournamentTemplates } from '@/lib/db/tournament-templates'
+import { normalizePoolFilters } from '@/lib/utils/pool-filters'
 
 export async function GET(request: NextRequest) {
   try {
@@ -20,9 +23,30 @@ export async function GET(request: NextRequest) {
     const sortBy = searchParams.get('sortBy') || 'popularity' // popularity, release_date, vote_average, title
     const sortOrder = searchParams.get('sortOrder') || 'desc' // asc, desc
     const minRating = searchParams.get('minRating')
+    const maxRuntime = searchParams.get('maxRuntime')
+    const minVotes = searchParams.get('minVotes')
+    const keywords = searchParams.get('keywords') // comma separated
+    const templateSlug = searchParams.get('template')
+
+    // A template's query is the starting point; explicit parameters narrow or override it
+    const template = templateSlug ? await TournamentTemplates.findBySlug(templateSlug) : null
+    if (templateSlug && !template) {
+      return NextResponse.json({ error: 'Template not found', success: false }, { status: 404 })
+    }
+    const toNumber = (value: string | null) => (value === null || value.trim() === '' ? undefined : Number(value))
+    const filters = normalizePoolFilters({
+      ...template?.query,
+      ...(genre ? { includeGenres: [genre] } : {}),
+      ...(yearFrom ? { yearFrom: toNumber(yearFrom) } : {}),
+      ...(yearTo ? { yearTo: toNumber(yearTo) } : {}),
+      ...(minRating ? { minVoteAverage: toNumber(minRating) } : {}),
+      ...(maxRuntime ? { maxRuntime: toNumber(maxRuntime) } : {}),
+      ...(minVotes ? { minVoteCount: toNumber(minVotes) } : {}),
+      ...(keywords ? { keywords: keywords.split(',') } : {}),
+    })
 
-    // Build where conditions
-    const conditions = []
+    // Build where conditions, the same ones room pools are filtered with
+    const conditions = FilmFilters.buildConditions(filters)
 
     // Search by title
     if (search && search.length >= 2) {
@@ -31,27 +55,6 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Filter by genre
-    if (genre) {
-      conditions.push(
-        sql`${films.genres} @> ARRAY[${genre}]::text[]`
-      )
-    }
-
-    // Filter by release year range
-    if (yearFrom) {
-      conditions.push(gte(films.releaseDate, `${yearFrom}-01-01`))
-    }
-    if (yearTo) {
-      conditions.push(lte(films.releaseDate, `${yearTo}-12-31`))
-    }
-
-    // Filter by minimum rating
-    if (minRating) {
-      const minRatingInt = parseInt(minRating) * 10 // Convert to our integer format
-      conditions.push(gte(films.voteAverage, minRatingInt))
-    }
-
     // Exclude adult content by default
     conditions.push(sql`${films.adult} = false`)
 
@@ -128,6 +131,10 @@ export async function GET(request: NextRequest) {
         sortBy,
         sortOrder,
         minRating,
+        maxRuntime,
+        minVotes,
+        keywords,
+        template: templateSlug,
       }
     })
 
@@ -3,6 +3,7 @@ import { db } from '@/db'
 import { rooms, roomStates, bracketPicks, matchCompletions, roomParticipants } from '@/db/schema'
 import { eq, and } from 'drizzle-orm'
 import { SimplifiedTournamentManager } from '@/lib/services/simplified-tournament-manager'
+import { RoomStateManager } from '@/lib/services/room-state-manager'
 
 export async function POST(request: NextRequest) {
   try {
@@ -71,15 +72,14 @@ export async function POST(request: NextRequest) {
           .set({ tournamentData: null })
           .where(eq(rooms.id, room.id))
         
-        // Clear room state tournament data
+        // Clear room state tournament data. Saved as a new version: room_states only caches what the
+        // room's event log replays to, so writing over it directly would be ignored on the next load.
         if (roomState?.currentState) {
-          const state = roomState.currentState as any
+          const stateManager = RoomStateManager.getInstance()
+          const state = await stateManager.loadFromDB(room.id) as any
           if (state.tournament) {
             delete state.tournament
-            await db
-              .update(roomStates)
-              .set({ currentState: state })
-              .where(eq(roomStates.roomId, room.id))
+            await stateManager.saveState(room.id, state, room.ownerId, { eventType: 'repair' })
           }
         }
         
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { rooms, roomStates, bracketPicks, matchCompletions } from '@/db/schema';
+import { rooms, bracketPicks, matchCompletions } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { RoomEventLog } from '@/lib/db/room-event-log';
+import { RoomStateManager } from '@/lib/services/room-state-manager';
 
 export async function POST(request: NextRequest) {
   try {
@@ -25,44 +27,52 @@ export async function POST(request: NextRequest) {
 
     const roomId = room.id;
     
-    // Step 1: Clear all tournament-related data
-    console.log(`🔧 [REPAIR] Clearing bracket picks...`);
-    const deletedPicks = await db.delete(bracketPicks)
-      .where(eq(bracketPicks.roomId, roomId));
-    
-    console.log(`🔧 [REPAIR] Clearing match completions...`);
-    const deletedCompletions = await db.delete(matchCompletions)
-      .where(eq(matchCompletions.roomId, roomId));
-    
-    console.log(`🔧 [REPAIR] Clearing room state...`);
-    const deletedStates = await db.delete(roomStates)
-      .where(eq(roomStates.roomId, roomId));
-    
-    // Step 2: Reset room to waiting status and clear tournament data
-    console.log(`🔧 [REPAIR] Resetting room status...`);
-    await db
-      .update(rooms)
-      .set({
-        status: 'waiting',
-        startedAt: null,
-        completedAt: null,
-        closedAt: null,
-        tournamentData: null,
-        winnerMovieId: null,
-        winnerTitle: null,
-        winnerPosterPath: null,
-      })
-      .where(eq(rooms.id, roomId));
+    // One transaction, so a failed repair leaves the room as it was
+    const { deletedPicks, deletedCompletions } = await db.transaction(async (tx) => {
+      // Step 1: Clear all tournament-related data
+      console.log(`🔧 [REPAIR] Clearing bracket picks...`);
+      const deletedPicks = await tx.delete(bracketPicks)
+        .where(eq(bracketPicks.roomId, roomId));
+      
+      console.log(`🔧 [REPAIR] Clearing match completions...`);
+      const deletedCompletions = await tx.delete(matchCompletions)
+        .where(eq(matchCompletions.roomId, roomId));
+      
+      // The event log goes with the cached state: loads replay the log, and the next save starts it at 1 again
+      console.log(`🔧 [REPAIR] Clearing room state and event log...`);
+      await RoomEventLog.clear(tx, roomId);
+      
+      // Step 2: Reset room to waiting status and clear tournament data
+      console.log(`🔧 [REPAIR] Resetting room status...`);
+      await tx
+        .update(rooms)
+        .set({
+          status: 'waiting',
+          startedAt: null,
+          completedAt: null,
+          closedAt: null,
+          tournamentData: null,
+          winnerMovieId: null,
+          winnerTitle: null,
+          winnerPosterPath: null,
+        })
+        .where(eq(rooms.id, roomId));
+
+      // Step 3: Reset participant data
+      console.log(`🔧 [REPAIR] Resetting participant data...`);
+      await tx.execute(`
+        UPDATE room_participants 
+        SET 
+          completed_matches = '{}',
+          current_match_index = 0
+        WHERE room_id = '${roomId}'
+      `);
+
+      return { deletedPicks, deletedCompletions };
+    });
 
-    // Step 3: Reset participant data
-    console.log(`🔧 [REPAIR] Resetting participant data...`);
-    await db.execute(`
-      UPDATE room_participants 
-      SET 
-        completed_matches = '{}',
-        current_match_index = 0
-      WHERE room_id = '${roomId}'
-    `);
+    // This instance's copy is from before the reset
+    RoomStateManager.getInstance().clearCache(roomId);
 
     console.log(`🔧 [REPAIR] Repair completed successfully!`);
 
@@ -72,7 +82,8 @@ export async function POST(request: NextRequest) {
       cleared: {
         bracketPicks: deletedPicks,
         matchCompletions: deletedCompletions,
-        roomStates: deletedStates,
+        roomState: true,
+        roomEvents: true,
       }
     });
 
@@ -82,7 +82,6 @@ export async function POST(
 
     // Extract participant user IDs
     const participantIds = activeParticipants.map((p: any) => p.userId);
-    const [userAId, userBId] = participantIds;
 
     // Determine if we should use test mode (for development/testing)
     const testMode = process.env.NODE_ENV === 'development' || 
@@ -92,7 +91,7 @@ export async function POST(
     const tournament = await TournamentMetrics.measureAsync(
       'tournament_generation',
       { roomId: room.id, participantCount: 2, movieCount: 0 },
-      async () => TournamentEngine.generateTournament(userAId, userBId, { testMode })
+      async () => TournamentEngine.generateTournament(participantIds, { testMode })
     );
 
     // Use atomic transaction to update room state and save tournament data
@@ -43,11 +43,12 @@ async function handleWinnerDetermination(request: Request, props: { params: Prom
       }, { status: 400 });
     }
 
-    // Get participants
+    // Get participants; spectators don't pick
     const participants = await db.query.roomParticipants.findMany({
       where: and(
         eq(roomParticipants.roomId, room.id),
-        eq(roomParticipants.isActive, true)
+        eq(roomParticipants.isActive, true),
+        eq(roomParticipants.role, 'player')
       ),
     });
 
@@ -15,8 +15,7 @@ export async function GET() {
     
     // Generate a mock tournament for testing
     const tournament = await TournamentEngine.generateTournament(
-      testUserA, 
-      testUserB, 
+      [testUserA, testUserB], 
       { testMode: true }
     );
 
@@ -86,8 +85,7 @@ export async function POST() {
     // 3. Generate tournament
     console.log('Generating tournament...');
     const tournament = await TournamentEngine.generateTournament(
-      testUserA, 
-      testUserB, 
+      [testUserA, testUserB], 
       { testMode: true }
     );
 
@@ -0,0 +1,53 @@
+import { ImageResponse } from 'next/og'
+import { RoomRecap } from '@/lib/services/room-recap'
+
+export const alt = 'What we decided to watch'
+export const size = { width: 1200, height: 630 }
+export const contentType = 'image/png'
+
+// The winner's poster beside the verdict, for link previews of the recap page
+export default async function Image({ params }: { params: Promise<{ code: string }> }) {
+  const { code } = await params
+  const data = await RoomRecap.forCode(code)
+  const winner = data?.recap.winner
+  const posterPath = winner?.posterPath || data?.room.winnerPosterPath
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          gap: 64,
+          padding: 64,
+          background: 'linear-gradient(135deg, #581c87, #be185d)',
+          color: 'white',
+        }}
+      >
+        {posterPath && (
+          <img
+            src={`https://image.tmdb.org/t/p/w500${posterPath}`}
+            width={334}
+            height={500}
+            style={{ borderRadius: 16, objectFit: 'cover' }}
+            alt=""
+          />
+        )}
+        <div style={{ display: 'flex', flexDirection: 'column', flex: 1 }}>
+          <div style={{ fontSize: 36, opacity: 0.8 }}>We decided on</div>
+          <div style={{ fontSize: 72, fontWeight: 700, lineHeight: 1.1 }}>{winner?.title ?? 'Decided'}</div>
+          {data && (
+            <div style={{ fontSize: 32, marginTop: 24, opacity: 0.8 }}>
+              {data.recap.agreementRate === null
+                ? `${data.recap.matchesPlayed} matches`
+                : `${data.recap.matchesPlayed} matches · ${Math.round(data.recap.agreementRate * 100)}% agreement`}
+            </div>
+          )}
+        </div>
+      </div>
+    ),
+    size
+  )
+}
@@ -0,0 +1,170 @@
+import type { Metadata } from 'next'
+import Image from 'next/image'
+import { notFound } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Film } from 'lucide-react'
+import { RoomRecap } from '@/lib/services/room-recap'
+
+type RecapPageProps = { params: Promise<{ code: string }> }
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`
+
+export async function generateMetadata({ params }: RecapPageProps): Promise<Metadata> {
+  const { code } = await params
+  const data = await RoomRecap.forCode(code)
+  if (!data?.recap.winner) {
+    return { title: 'Decided' }
+  }
+
+  const title = `We decided on ${data.recap.winner.title}`
+  const description = data.recap.agreementRate === null
+    ? `${data.recap.matchesPlayed} matches to settle movie night.`
+    : `${data.recap.matchesPlayed} matches, ${percent(data.recap.agreementRate)} agreement.`
+
+  // The image itself comes from opengraph-image.tsx next to this page
+  return {
+    title: `${title} · Decided`,
+    description,
+    openGraph: { title, description, type: 'article' },
+    twitter: { card: 'summary_large_image', title, description },
+  }
+}
+
+// Public on purpose so the link can be shared: it shows display names and movies, never user ids
+export default async function RecapPage({ params }: RecapPageProps) {
+  const { code } = await params
+  const data = await RoomRecap.forCode(code)
+  if (!data) {
+    notFound()
+  }
+
+  const { recap } = data
+  const nameOf = (userId: string) => data.participants.find(p => p.userId === userId)?.name ?? 'Someone'
+
+  return (
+    <div className="container mx-auto max-w-3xl py-8 px-4 space-y-6">
+      <Card className="overflow-hidden">
+        <div className="flex gap-6 p-6">
+          {recap.winner?.posterPath ? (
+            <div className="relative w-32 aspect-[2/3] shrink-0">
+              <Image
+                src={`https://image.tmdb.org/t/p/w500${recap.winner.posterPath}`}
+                alt={recap.winner.title}
+                fill
+                className="object-cover rounded"
+              />
+            </div>
+          ) : (
+            <div className="w-32 aspect-[2/3] bg-muted flex items-center justify-center rounded shrink-0">
+              <Film className="w-10 h-10 text-muted-foreground" />
+            </div>
+          )}
+          <div>
+            <p className="text-sm text-muted-foreground">Tonight&apos;s pick</p>
+            <h1 className="text-3xl font-bold">{recap.winner?.title ?? 'Undecided'}</h1>
+            <p className="mt-2 text-muted-foreground">
+              {data.participants.filter(p => !p.isSpectator).map(p => p.name).join(' & ')} · {recap.matchesPlayed} matches
+            </p>
+            {recap.agreementRate !== null && (
+              <p className="mt-1 font-medium">Agreed on {percent(recap.agreementRate)} of matches</p>
+            )}
+          </div>
+        </div>
+      </Card>
+
+      {recap.pairAgreement.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Who agreed</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            {recap.pairAgreement.map(pair => (
+              <p key={pair.userIds.join('-')}>
+                {nameOf(pair.userIds[0])} & {nameOf(pair.userIds[1])}: {percent(pair.rate)} of {pair.matches}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {recap.closestMatches.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Closest calls</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            {recap.closestMatches.map(match => (
+              <p key={match.matchId}>
+                Round {match.roundNumber}: {match.movieA.title} {match.votes[match.movieA.id] ?? 0}–{match.votes[match.movieB.id] ?? 0} {match.movieB.title}
+                {match.decidedBy !== 'majority' && match.decidedBy !== 'plurality' && (
+                  <span className="text-muted-foreground"> (settled by {match.decidedBy})</span>
+                )}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {recap.fastestPicks.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Snap decisions and slow burns</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 gap-4 text-sm">
+            <div className="space-y-1">
+              <p className="font-medium">Fastest</p>
+              {recap.fastestPicks.map(pick => (
+                <p key={`${pick.matchId}-${pick.userId}`}>{nameOf(pick.userId)} took {pick.movie.title} in {seconds(pick.responseTimeMs)}</p>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <p className="font-medium">Slowest</p>
+              {recap.slowestPicks.map(pick => (
+                <p key={`${pick.matchId}-${pick.userId}`}>{nameOf(pick.userId)} took {pick.movie.title} after {seconds(pick.responseTimeMs)}</p>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {recap.finalistPaths.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Road to the final</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            {recap.finalistPaths.map(({ movie, path }) => (
+              <div key={movie.id}>
+                <p className="font-medium">{movie.title}</p>
+                <ol className="text-muted-foreground">
+                  {path.map(step => (
+                    <li key={step.matchId}>
+                      Round {step.roundNumber}: {step.won ? 'beat' : 'lost to'} {step.opponent.title}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {recap.winnerElo.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{recap.winner?.title} in everyone&apos;s rankings</CardTitle>
+            <CardDescription>Elo before the tournament and after</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            {recap.winnerElo.map(entry => (
+              <p key={entry.userId}>
+                {nameOf(entry.userId)}: {entry.before} → {entry.after} ({entry.change >= 0 ? '+' : ''}{entry.change})
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -1,11 +1,14 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 import { DecidedRoomV2 } from '@/components/decide-together/DecidedRoomV2';
+import { PoolSourcePicker } from '@/components/decide-together/PoolSourcePicker';
+import { TemplatePicker } from '@/components/decide-together/TemplatePicker';
+import type { PoolRequest } from '@/lib/utils/pool-source';
 import { Loader2 } from 'lucide-react';
 
 export default function TestDecidedV2Page() {
@@ -15,6 +18,9 @@ export default function TestDecidedV2Page() {
   const [isJoining, setIsJoining] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [activeRoom, setActiveRoom] = useState<string | null>(null);
+  const [pool, setPool] = useState<PoolRequest>({ source: 'watchlists' });
+  const handlePoolChange = useCallback((next: PoolRequest) => setPool(next), []);
+  const [template, setTemplate] = useState<string | null>(null);
 
   const createRoom = async () => {
     setIsCreating(true);
@@ -23,6 +29,8 @@ export default function TestDecidedV2Page() {
     try {
       const response = await fetch('/api/decided/rooms', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pool, ...(template ? { template } : {}) }),
       });
       
       if (!response.ok) {
@@ -39,7 +47,7 @@ export default function TestDecidedV2Page() {
     }
   };
 
-  const joinRoom = async () => {
+  const joinRoom = async (role: 'player' | 'spectator' = 'player') => {
     if (!roomCode.trim()) {
       setError('Please enter a room code');
       return;
@@ -51,6 +59,8 @@ export default function TestDecidedV2Page() {
     try {
       const response = await fetch(`/api/decided/rooms/${roomCode}/join`, {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role }),
       });
       
       if (!response.ok) {
@@ -79,7 +89,7 @@ export default function TestDecidedV2Page() {
           Back to Lobby
         </Button>
         
-        <DecidedRoomV2 roomCode={activeRoom} />
+        <DecidedRoomV2 roomCode={activeRoom} onRoomChange={setActiveRoom} />
       </div>
     );
   }
@@ -99,6 +109,12 @@ export default function TestDecidedV2Page() {
           {/* Create Room */}
           <div>
             <h2 className="text-lg font-semibold mb-3">Create a New Room</h2>
+            <div className="mb-4">
+              <TemplatePicker selected={template} disabled={isCreating || isJoining} onSelect={setTemplate} />
+            </div>
+            <div className="mb-4">
+              <PoolSourcePicker disabled={isCreating || isJoining} onChange={handlePoolChange} />
+            </div>
             <Button
               onClick={createRoom}
               disabled={isCreating || isJoining}
@@ -139,7 +155,7 @@ export default function TestDecidedV2Page() {
                 maxLength={6}
               />
               <Button
-                onClick={joinRoom}
+                onClick={() => joinRoom()}
                 disabled={isCreating || isJoining || !roomCode.trim()}
               >
                 {isJoining ? (
@@ -148,6 +164,13 @@ export default function TestDecidedV2Page() {
                   'Join'
                 )}
               </Button>
+              <Button
+                variant="outline"
+                onClick={() => joinRoom('spectator')}
+                disabled={isCreating || isJoining || !roomCode.trim()}
+              >
+                Watch
+              </Button>
             </div>
           </div>
 
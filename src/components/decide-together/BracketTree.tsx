@@ -0,0 +1,89 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import type { TreeMatch, TreeRound } from '@/lib/utils/bracket-tree';
+
+interface TreeMovie {
+  id: number;
+  title: string;
+}
+
+interface BracketTreeData {
+  participants: Array<{ userId: string; name: string }>;
+  rounds: TreeRound<TreeMovie>[];
+}
+
+interface BracketTreeProps {
+  roomCode: string;
+  version?: number; // refetches whenever the room state moves on
+}
+
+// Every round side by side, with who picked what once each match is settled
+export const BracketTree = ({ roomCode, version }: BracketTreeProps) => {
+  const [data, setData] = useState<BracketTreeData | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/decided/rooms/${roomCode}/bracket-tree`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(setData)
+      .catch(() => setData(null));
+  }, [roomCode, version]);
+
+  if (!data || data.rounds.length === 0) {
+    return null;
+  }
+
+  const nameOf = (userId: string) => data.participants.find(p => p.userId === userId)?.name ?? 'Someone';
+
+  const MatchCell = ({ match }: { match: TreeMatch<TreeMovie> }) => (
+    <Card className={cn("p-3 text-sm", match.status === 'pending' && "opacity-60")}>
+      {[match.movieA, match.movieB].map((movie, index) => (
+        <p
+          key={index}
+          className={cn(
+            "truncate",
+            match.status === 'resolved' && movie?.id === match.winnerId && "font-semibold",
+            match.status === 'resolved' && movie?.id !== match.winnerId && "text-muted-foreground line-through"
+          )}
+        >
+          {movie?.title ?? 'TBD'}
+        </p>
+      ))}
+      {match.status === 'open' && (
+        <p className="text-xs text-muted-foreground mt-1">{match.picksIn} picks in</p>
+      )}
+      {match.picks && match.picks.length > 0 && (
+        <ul className="text-xs text-muted-foreground mt-1">
+          {match.picks.map(pick => (
+            <li key={pick.userId}>
+              {nameOf(pick.userId)}: {pick.selectedMovieId === match.movieA?.id ? match.movieA?.title : match.movieB?.title}
+              {pick.autoPicked ? ' (auto)' : ''}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex gap-4 min-w-max">
+        {data.rounds.map(round => (
+          <div key={round.roundNumber} className="w-56 space-y-3 flex flex-col justify-around">
+            <h3 className="font-semibold text-center">Round {round.roundNumber}</h3>
+            {round.matches.map(match => (
+              <MatchCell key={match.matchId ?? `pending-${round.roundNumber}-${match.slot}`} match={match} />
+            ))}
+            {round.byes.length > 0 && (
+              <p className="text-xs text-muted-foreground text-center">
+                Byes: {round.byes.map(movie => movie.title).join(', ')}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -3,18 +3,42 @@
 import { useDecidedRoom } from '@/lib/hooks/useDecidedRoom';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Loader2, Film, Users, AlertCircle, Wifi, WifiOff } from 'lucide-react';
+import { Loader2, Film, Users, AlertCircle, Wifi, WifiOff, Undo2, Pause, Play, RotateCcw, Share2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import Image from 'next/image';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { PoolFiltersPanel } from './PoolFiltersPanel';
+import { VetoPanel } from './VetoPanel';
+import { RoomCountdown } from './RoomCountdown';
+import { PickCountdown } from './PickCountdown';
+import { SpectatorView } from './SpectatorView';
+import { BracketTree } from './BracketTree';
+import type { MatchResultView } from '@/lib/services/room-state-manager';
+
+const DECISION_LABELS: Record<MatchResultView['decidedBy'], string> = {
+  majority: 'Majority',
+  plurality: 'Most votes',
+  elo: 'Tie-break: higher combined rating',
+  'coin-flip': 'Tie-break: coin flip',
+  owner: "Tie-break: host's pick",
+};
 
 interface DecidedRoomV2Props {
   roomCode: string;
+  onRoomChange?: (roomCode: string) => void; // follows a rematch into its new room
 }
 
-export function DecidedRoomV2({ roomCode }: DecidedRoomV2Props) {
+export function DecidedRoomV2({ roomCode, onRoomChange }: DecidedRoomV2Props) {
   const { state, error, loading, isConnected, sendAction } = useDecidedRoom({ roomCode });
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [excludeFinalists, setExcludeFinalists] = useState(true);
+
+  const rematchCode = state?.data.rematch?.roomCode;
+  useEffect(() => {
+    if (rematchCode && rematchCode !== roomCode) {
+      onRoomChange?.(rematchCode);
+    }
+  }, [rematchCode, roomCode, onRoomChange]);
 
   if (loading) {
     return (
@@ -51,9 +75,39 @@ export function DecidedRoomV2({ roomCode }: DecidedRoomV2Props) {
     }
   };
 
-  // Connection status indicator
+  // Take back a mis-tap until the others have settled the match
+  const UndoLastPick = () => state.availableActions.includes('undo') ? (
+    <div className="mt-6 text-center">
+      <Button variant="ghost" size="sm" onClick={() => handleAction('undo')} disabled={isSubmitting}>
+        <Undo2 className="w-4 h-4 mr-2" />
+        Undo last pick
+      </Button>
+    </div>
+  ) : null;
+
+  // Connection status indicator, with the room's countdown
   const ConnectionStatus = () => (
-    <div className="fixed top-4 right-4 z-50">
+    <div className="fixed top-4 right-4 z-50 flex items-center gap-2">
+      <RoomCountdown
+        expiresAt={state.data.room.expiresAt}
+        pausedAt={state.data.room.paused?.at}
+        extensionsRemaining={state.data.room.extensionsRemaining}
+        canExtend={state.availableActions.includes('extend')}
+        disabled={isSubmitting}
+        onExtend={() => handleAction('extend')}
+      />
+      {state.availableActions.includes('pause') && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="rounded-full"
+          onClick={() => handleAction('pause')}
+          disabled={isSubmitting}
+        >
+          <Pause className="w-4 h-4 mr-1" />
+          Pause
+        </Button>
+      )}
       <div className={cn(
         "flex items-center gap-2 px-3 py-1.5 rounded-full text-sm",
         isConnected 
@@ -66,6 +120,26 @@ export function DecidedRoomV2({ roomCode }: DecidedRoomV2Props) {
     </div>
   );
 
+  // Spectators follow the bracket without a match of their own
+  if (state.spectating && state.data.tournament && ['bracket', 'waiting', 'final'].includes(state.screen)) {
+    return (
+      <div className="min-h-screen p-4">
+        <ConnectionStatus />
+        <SpectatorView tournament={state.data.tournament} decisionLabels={DECISION_LABELS} />
+        <div className="max-w-5xl mx-auto mt-8">
+          <BracketTree roomCode={roomCode} version={state.version} />
+        </div>
+        {state.availableActions.includes('leave') && (
+          <div className="mt-6 text-center">
+            <Button variant="ghost" size="sm" onClick={() => handleAction('leave')} disabled={isSubmitting}>
+              Stop watching
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
   // Render different screens based on state
   switch (state.screen) {
     case 'lobby':
@@ -82,7 +156,7 @@ export function DecidedRoomV2({ roomCode }: DecidedRoomV2Props) {
               <div className="space-y-4 mb-8">
                 <h2 className="text-lg font-semibold flex items-center gap-2">
                   <Users className="w-5 h-5" />
-                  Participants ({state.data.room.participants.filter(p => p.isActive).length}/2)
+                  Participants ({state.data.room.participants.filter(p => p.isActive && !p.isSpectator).length}/{state.data.room.maxParticipants ?? 2})
                 </h2>
                 
                 {state.data.room.participants.map((participant) => (
@@ -114,6 +188,9 @@ export function DecidedRoomV2({ roomCode }: DecidedRoomV2Props) {
                         <p className="text-sm text-muted-foreground">Host</p>
                       )}
                     </div>
+                    {participant.isActive && participant.isSpectator && (
+                      <span className="text-sm text-muted-foreground">Watching</span>
+                    )}
                     {!participant.isActive && (
                       <span className="text-sm text-muted-foreground">Left</span>
                     )}
@@ -121,6 +198,13 @@ export function DecidedRoomV2({ roomCode }: DecidedRoomV2Props) {
                 ))}
               </div>
 
+              <PoolFiltersPanel
+                filters={state.data.room.filters}
+                canEdit={state.availableActions.includes('filters')}
+                disabled={isSubmitting}
+                onSave={(filters) => handleAction('filters', { filters })}
+              />
+
               <div className="flex gap-3">
                 {state.availableActions.includes('start') && (
                   <Button
@@ -150,6 +234,28 @@ export function DecidedRoomV2({ roomCode }: DecidedRoomV2Props) {
         </div>
       );
 
+    case 'veto':
+      if (!state.data.veto) {
+        return null;
+      }
+
+      return (
+        <div className="min-h-screen p-4">
+          <ConnectionStatus />
+          
+          <div className="max-w-5xl mx-auto mt-8">
+            <VetoPanel
+              veto={state.data.veto}
+              participants={state.data.room.participants}
+              canVeto={state.availableActions.includes('veto')}
+              disabled={isSubmitting}
+              onVeto={(movieId) => handleAction('veto', { movieId })}
+              onDone={() => handleAction('veto', { done: true })}
+            />
+          </div>
+        </div>
+      );
+
     case 'bracket':
       if (!state.data.tournament?.currentMatch) {
         return null;
@@ -168,8 +274,81 @@ export function DecidedRoomV2({ roomCode }: DecidedRoomV2Props) {
               <p className="text-muted-foreground">
                 Pick {state.data.tournament.progress.userPicks + 1} of {state.data.tournament.progress.totalPicks}
               </p>
+              {state.data.tournament.currentMatch.bracket && (
+                <p className="text-sm font-medium mt-1">
+                  {state.data.tournament.currentMatch.bracket === 'losers' ? "Losers' bracket" : "Winners' bracket"}
+                  {' '}round {state.data.tournament.currentMatch.bracketRound}
+                </p>
+              )}
+              {state.data.tournament.byes && state.data.tournament.byes.length > 0 && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  Advancing on a bye: {state.data.tournament.byes.map(movie => movie.title).join(', ')}
+                </p>
+              )}
+              <PickCountdown deadline={state.data.tournament.currentMatch.deadline} />
             </div>
 
+            {state.data.tournament.currentMatch.split && (
+              <Card className="p-4 max-w-md mx-auto mb-8 text-sm text-center">
+                <h3 className="font-semibold mb-1">Split vote, pick again</h3>
+                <p className="text-muted-foreground">
+                  {state.data.tournament.currentMatch.split.map(vote => {
+                    const name = state.data.room.participants.find(p => p.userId === vote.userId)?.name ?? 'Someone';
+                    const match = state.data.tournament!.currentMatch!;
+                    const title = vote.selectedMovieId === match.movieA.id ? match.movieA.title : match.movieB.title;
+                    return `${name} picked ${title}`;
+                  }).join(' · ')}
+                </p>
+              </Card>
+            )}
+
+            {state.data.tournament.results && state.data.tournament.results.length > 0 && (
+              <Card className="p-4 max-w-md mx-auto mb-8 text-sm">
+                <h3 className="font-semibold mb-2">Results so far</h3>
+                <ul className="space-y-1">
+                  {state.data.tournament.results.map(result => (
+                    <li key={result.matchId} className="flex justify-between gap-4">
+                      <span>{result.winner.title} over {result.loser.title}</span>
+                      <span className="text-muted-foreground text-right">
+                        {DECISION_LABELS[result.decidedBy]}{result.rematched ? ' after a rematch' : ''}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </Card>
+            )}
+
+            {state.data.tournament.standings && (
+              <Card className="p-4 max-w-md mx-auto mb-8 text-sm">
+                <h3 className="font-semibold mb-2">Standings</h3>
+                <ol className="space-y-1">
+                  {state.data.tournament.standings.map((standing, index) => (
+                    <li key={standing.movie.id} className="flex justify-between">
+                      <span>{index + 1}. {standing.movie.title}</span>
+                      <span className="text-muted-foreground">{standing.wins}–{standing.losses}</span>
+                    </li>
+                  ))}
+                </ol>
+              </Card>
+            )}
+
+            {state.data.tournament.brackets && (
+              <div className="grid md:grid-cols-2 gap-4 max-w-4xl mx-auto mb-8 text-sm">
+                <Card className="p-4">
+                  <h3 className="font-semibold mb-2">Winners&apos; bracket</h3>
+                  <p className="text-muted-foreground">
+                    {state.data.tournament.brackets.winners.map(movie => movie.title).join(', ') || 'Empty'}
+                  </p>
+                </Card>
+                <Card className="p-4">
+                  <h3 className="font-semibold mb-2">Losers&apos; bracket</h3>
+                  <p className="text-muted-foreground">
+                    {state.data.tournament.brackets.losers.map(movie => movie.title).join(', ') || 'Empty'}
+                  </p>
+                </Card>
+              </div>
+            )}
+
             {/* Match cards */}
             <div className="grid md:grid-cols-2 gap-8 max-w-4xl mx-auto">
               <MovieCard
@@ -192,6 +371,8 @@ export function DecidedRoomV2({ roomCode }: DecidedRoomV2Props) {
                 disabled={isSubmitting}
               />
             </div>
+
+            <UndoLastPick />
           </div>
         </div>
       );
@@ -215,6 +396,8 @@ export function DecidedRoomV2({ roomCode }: DecidedRoomV2Props) {
                 </p>
               </div>
             )}
+
+            <UndoLastPick />
           </Card>
         </div>
       );
@@ -230,8 +413,13 @@ export function DecidedRoomV2({ roomCode }: DecidedRoomV2Props) {
           
           <div className="max-w-6xl mx-auto">
             <div className="mb-8 text-center">
-              <h1 className="text-4xl font-bold mb-2 text-primary">Final Face-off!</h1>
+              <h1 className="text-4xl font-bold mb-2 text-primary">
+                {state.data.tournament.currentMatch.matchId === 'grand-final-reset'
+                  ? 'Grand Final Reset!'
+                  : state.data.tournament.currentMatch.bracket === 'grand-final' ? 'Grand Final!' : 'Final Face-off!'}
+              </h1>
               <p className="text-lg text-muted-foreground">Choose your winner</p>
+              <PickCountdown deadline={state.data.tournament.currentMatch.deadline} />
             </div>
 
             <div className="grid md:grid-cols-2 gap-8 max-w-4xl mx-auto">
@@ -257,6 +445,8 @@ export function DecidedRoomV2({ roomCode }: DecidedRoomV2Props) {
                 isFinal
               />
             </div>
+
+            <UndoLastPick />
           </div>
         </div>
       );
@@ -298,10 +488,87 @@ export function DecidedRoomV2({ roomCode }: DecidedRoomV2Props) {
                 )}
               </div>
             </Card>
+
+            {state.availableActions.includes('rematch') && (
+              <div className="mt-6 space-y-3">
+                <label className="flex items-center justify-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={excludeFinalists}
+                    onChange={e => setExcludeFinalists(e.target.checked)}
+                  />
+                  Leave out this winner and the finalists
+                </label>
+                <Button onClick={() => handleAction('rematch', { excludeFinalists })} disabled={isSubmitting}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Run it back
+                </Button>
+              </div>
+            )}
+
+            {state.data.rematch && (
+              <p className="mt-6 text-muted-foreground">
+                Rematch room: <span className="font-mono font-bold">{state.data.rematch.roomCode}</span>
+              </p>
+            )}
+
+            <div className="mt-6">
+              <Button variant="outline" asChild>
+                <a href={`/decide-together/${roomCode}/recap`} target="_blank" rel="noreferrer">
+                  <Share2 className="w-4 h-4 mr-2" />
+                  Share the recap
+                </a>
+              </Button>
+            </div>
+
+            <div className="mt-10 max-w-5xl mx-auto text-left">
+              <h2 className="text-xl font-semibold mb-4 text-center">How it played out</h2>
+              <BracketTree roomCode={roomCode} version={state.version} />
+            </div>
           </div>
         </div>
       );
 
+    case 'paused': {
+      const pausedBy = state.data.room.participants.find(p => p.userId === state.data.room.paused?.by);
+      const dropped = state.data.room.participants.filter(p => p.isDropped);
+      return (
+        <div className="min-h-screen p-4 flex items-center justify-center">
+          <ConnectionStatus />
+          
+          <Card className="max-w-md w-full p-8 text-center">
+            <Pause className="w-12 h-12 mx-auto mb-4 text-primary" />
+            <h2 className="text-2xl font-bold mb-2">Paused</h2>
+            <p className="text-muted-foreground">
+              {state.data.room.paused?.reason === 'disconnected' && dropped.length > 0
+                ? `Waiting for ${dropped.map(p => p.name).join(', ')} to reconnect. The clock is stopped until they are back.`
+                : `${pausedBy ? `${pausedBy.name} paused the tournament.` : 'The tournament is paused.'} The clock is stopped until someone resumes.`}
+            </p>
+            
+            {state.availableActions.includes('resume') && (
+              <Button className="mt-6" onClick={() => handleAction('resume')} disabled={isSubmitting}>
+                <Play className="w-4 h-4 mr-2" />
+                Resume
+              </Button>
+            )}
+          </Card>
+        </div>
+      );
+    }
+
+    case 'error':
+      return (
+        <div className="flex items-center justify-center min-h-screen p-4">
+          <Card className="max-w-md w-full p-6">
+            <div className="flex items-center gap-3 text-destructive">
+              <AlertCircle className="w-6 h-6" />
+              <h2 className="text-xl font-semibold">Room Closed</h2>
+            </div>
+            <p className="mt-2 text-muted-foreground">{state.error ?? 'This room is no longer available'}</p>
+          </Card>
+        </div>
+      );
+
     default:
       return null;
   }
@@ -313,6 +580,7 @@ interface MovieCardProps {
     id: number;
     title: string;
     posterPath?: string;
+    suggested?: boolean;
   };
   onClick: () => void;
   disabled?: boolean;
@@ -355,6 +623,9 @@ function MovieCard({ movie, onClick, disabled, isFinal }: MovieCardProps) {
         
         <div className="p-4">
           <h3 className="font-semibold text-lg line-clamp-2">{movie.title}</h3>
+          {movie.suggested && (
+            <p className="text-xs text-muted-foreground mt-1">Suggested · not on anyone&apos;s watchlist</p>
+          )}
         </div>
       </Card>
     </button>
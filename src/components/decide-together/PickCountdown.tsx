@@ -0,0 +1,38 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface PickCountdownProps {
+  deadline?: string;
+}
+
+// Warn when the server is about to pick
+const WARNING_SECONDS = 10;
+
+export const PickCountdown = ({ deadline }: PickCountdownProps) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!deadline) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  if (!deadline) {
+    return null;
+  }
+
+  const seconds = Math.max(0, Math.ceil((new Date(deadline).getTime() - now) / 1000));
+
+  return (
+    <p className={cn(
+      "inline-flex items-center gap-1 text-sm mt-2 text-muted-foreground",
+      seconds <= WARNING_SECONDS && "text-red-600 dark:text-red-400 font-medium"
+    )}>
+      <Timer className="w-4 h-4" />
+      {seconds > 0 ? `Picking for you in ${seconds}s` : 'Picking for you…'}
+    </p>
+  );
+};
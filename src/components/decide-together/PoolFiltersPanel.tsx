@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Filter } from 'lucide-react';
+import type { PoolFilters } from '@/lib/utils/pool-filters';
+
+interface PoolFiltersPanelProps {
+  filters?: PoolFilters;
+  canEdit: boolean;
+  disabled?: boolean;
+  onSave: (filters: PoolFilters) => void;
+}
+
+const toList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+export const describeFilters = (filters: PoolFilters = {}): string[] => {
+  const parts: string[] = [];
+  if (filters.maxRuntime) parts.push(`Up to ${filters.maxRuntime} min`);
+  if (filters.includeGenres?.length) parts.push(`Genres: ${filters.includeGenres.join(', ')}`);
+  if (filters.excludeGenres?.length) parts.push(`No ${filters.excludeGenres.join(', ')}`);
+  if (filters.yearFrom || filters.yearTo) parts.push(`Released ${filters.yearFrom ?? 'any'}–${filters.yearTo ?? 'now'}`);
+  if (filters.minVoteAverage !== undefined) parts.push(`Rated ${filters.minVoteAverage}+`);
+  if (filters.minVoteCount) parts.push(`${filters.minVoteCount}+ votes`);
+  if (filters.keywords?.length) parts.push(`About ${filters.keywords.join(', ')}`);
+  if (filters.sharedStreamingOnly) parts.push('On our streaming services');
+  return parts;
+};
+
+export const PoolFiltersPanel = ({ filters = {}, canEdit, disabled, onSave }: PoolFiltersPanelProps) => {
+  const [maxRuntime, setMaxRuntime] = useState(filters.maxRuntime?.toString() ?? '');
+  const [includeGenres, setIncludeGenres] = useState(filters.includeGenres?.join(', ') ?? '');
+  const [excludeGenres, setExcludeGenres] = useState(filters.excludeGenres?.join(', ') ?? '');
+  const [yearFrom, setYearFrom] = useState(filters.yearFrom?.toString() ?? '');
+  const [yearTo, setYearTo] = useState(filters.yearTo?.toString() ?? '');
+  const [minVoteAverage, setMinVoteAverage] = useState(filters.minVoteAverage?.toString() ?? '');
+  const [sharedStreamingOnly, setSharedStreamingOnly] = useState(filters.sharedStreamingOnly ?? false);
+
+  const summary = describeFilters(filters);
+
+  if (!canEdit) {
+    return (
+      <div className="space-y-2 mb-8">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <Filter className="w-5 h-5" />
+          Filters
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          {summary.length > 0 ? summary.join(' · ') : 'Every unwatched movie on your lists'}
+        </p>
+      </div>
+    );
+  }
+
+  const handleSave = () => {
+    // Fields without an input here, e.g. a template's keywords, carry over unchanged
+    onSave({
+      ...filters,
+      maxRuntime: toNumber(maxRuntime),
+      includeGenres: toList(includeGenres),
+      excludeGenres: toList(excludeGenres),
+      yearFrom: toNumber(yearFrom),
+      yearTo: toNumber(yearTo),
+      minVoteAverage: toNumber(minVoteAverage),
+      sharedStreamingOnly,
+    });
+  };
+
+  return (
+    <div className="space-y-3 mb-8">
+      <h2 className="text-lg font-semibold flex items-center gap-2">
+        <Filter className="w-5 h-5" />
+        Filters
+      </h2>
+
+      <div className="grid grid-cols-2 gap-3">
+        <Input type="number" placeholder="Max runtime (min)" value={maxRuntime} onChange={e => setMaxRuntime(e.target.value)} />
+        <Input type="number" step="0.5" placeholder="Min rating (0-10)" value={minVoteAverage} onChange={e => setMinVoteAverage(e.target.value)} />
+        <Input type="number" placeholder="From year" value={yearFrom} onChange={e => setYearFrom(e.target.value)} />
+        <Input type="number" placeholder="To year" value={yearTo} onChange={e => setYearTo(e.target.value)} />
+        <Input placeholder="Include genres (comma separated)" value={includeGenres} onChange={e => setIncludeGenres(e.target.value)} />
+        <Input placeholder="Exclude genres (comma separated)" value={excludeGenres} onChange={e => setExcludeGenres(e.target.value)} />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={sharedStreamingOnly}
+          onChange={e => setSharedStreamingOnly(e.target.checked)}
+        />
+        Only movies on a streaming service one of us has
+      </label>
+
+      <Button variant="outline" onClick={handleSave} disabled={disabled}>
+        Save Filters
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { ListVideo, Plus, X } from 'lucide-react';
+import { MIN_CANDIDATES } from '@/lib/utils/pool-source';
+import type { CandidateMovie, PoolRequest, PoolSource } from '@/lib/utils/pool-source';
+
+interface PoolSourcePickerProps {
+  disabled?: boolean;
+  onChange: (pool: PoolRequest) => void;
+}
+
+interface SavedList {
+  id: number;
+  name: string;
+  movies: CandidateMovie[];
+}
+
+const SOURCE_LABELS: Record<PoolSource, string> = {
+  watchlists: 'Our watchlists',
+  'hand-picked': 'Hand-pick',
+  import: 'Paste titles',
+  list: 'Saved list',
+};
+
+// Lets the owner settle the candidates before the room exists instead of merging everyone's watchlists
+export const PoolSourcePicker = ({ disabled, onChange }: PoolSourcePickerProps) => {
+  const [source, setSource] = useState<PoolSource>('watchlists');
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<CandidateMovie[]>([]);
+  const [picked, setPicked] = useState<CandidateMovie[]>([]);
+  const [titles, setTitles] = useState('');
+  const [lists, setLists] = useState<SavedList[]>([]);
+  const [listId, setListId] = useState<number | null>(null);
+  const [listName, setListName] = useState('');
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    switch (source) {
+      case 'watchlists':
+        onChange({ source });
+        break;
+      case 'hand-picked':
+        onChange({ source, movies: picked });
+        break;
+      case 'import':
+        onChange({ source, titles });
+        break;
+      case 'list':
+        if (listId !== null) {
+          onChange({ source, listId });
+        }
+        break;
+    }
+  }, [source, picked, titles, listId, onChange]);
+
+  useEffect(() => {
+    if (source !== 'list') return;
+    fetch('/api/decided/lists')
+      .then(res => res.json())
+      .then(data => setLists(data.lists ?? []))
+      .catch(() => setLists([]));
+  }, [source]);
+
+  const search = async () => {
+    if (query.trim().length < 2) return;
+    const res = await fetch(`/api/search-movies?query=${encodeURIComponent(query.trim())}`);
+    const data = await res.json();
+    setResults((data.results ?? []).slice(0, 8).map((movie: { id: number; title: string; poster_path: string | null }) => ({
+      id: movie.id,
+      title: movie.title,
+      posterPath: movie.poster_path ?? '',
+    })));
+  };
+
+  const saveList = async () => {
+    const res = await fetch('/api/decided/lists', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: listName, movies: picked }),
+    });
+    const data = await res.json();
+    setSavedMessage(res.ok ? `Saved "${data.list.name}"` : data.error);
+  };
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-lg font-semibold flex items-center gap-2">
+        <ListVideo className="w-5 h-5" />
+        Movie pool
+      </h2>
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(SOURCE_LABELS) as PoolSource[]).map(option => (
+          <Button
+            key={option}
+            size="sm"
+            variant={source === option ? 'default' : 'outline'}
+            onClick={() => setSource(option)}
+            disabled={disabled}
+          >
+            {SOURCE_LABELS[option]}
+          </Button>
+        ))}
+      </div>
+
+      {source === 'hand-picked' && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Search movies"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && search()}
+              disabled={disabled}
+            />
+            <Button variant="outline" onClick={search} disabled={disabled}>Search</Button>
+          </div>
+
+          {results.length > 0 && (
+            <ul className="text-sm space-y-1">
+              {results.map(movie => (
+                <li key={movie.id} className="flex items-center justify-between gap-2">
+                  <span>{movie.title}</span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setPicked(prev => prev.some(m => m.id === movie.id) ? prev : [...prev, movie])}
+                    disabled={disabled}
+                  >
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap gap-2 text-sm">
+            {picked.map(movie => (
+              <span key={movie.id} className="px-3 py-1 rounded-full border flex items-center gap-1">
+                {movie.title}
+                <button onClick={() => setPicked(prev => prev.filter(m => m.id !== movie.id))} disabled={disabled}>
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+          <p className={cn("text-xs", picked.length < MIN_CANDIDATES ? "text-destructive" : "text-muted-foreground")}>
+            {picked.length} picked, at least {MIN_CANDIDATES} needed
+          </p>
+
+          {picked.length >= MIN_CANDIDATES && (
+            <div className="flex gap-2">
+              <Input placeholder="Save as list…" value={listName} onChange={e => setListName(e.target.value)} disabled={disabled} />
+              <Button variant="outline" onClick={saveList} disabled={disabled || !listName.trim()}>Save</Button>
+            </div>
+          )}
+          {savedMessage && <p className="text-xs text-muted-foreground">{savedMessage}</p>}
+        </div>
+      )}
+
+      {source === 'import' && (
+        <textarea
+          className="w-full min-h-32 rounded-md border bg-background p-2 text-sm"
+          placeholder={'One title per line\n1. Heat\n2. Alien'}
+          value={titles}
+          onChange={e => setTitles(e.target.value)}
+          disabled={disabled}
+        />
+      )}
+
+      {source === 'list' && (
+        lists.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {lists.map(list => (
+              <Button
+                key={list.id}
+                size="sm"
+                variant={listId === list.id ? 'default' : 'outline'}
+                onClick={() => setListId(list.id)}
+                disabled={disabled}
+              >
+                {list.name} ({list.movies.length})
+              </Button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No saved lists yet. Hand-pick some movies and save them.</p>
+        )
+      )}
+    </div>
+  );
+};
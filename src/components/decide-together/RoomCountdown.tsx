@@ -0,0 +1,60 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Clock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface RoomCountdownProps {
+  expiresAt?: string;
+  pausedAt?: string; // the countdown holds at whatever was left when the room was paused
+  extensionsRemaining?: number;
+  canExtend: boolean;
+  disabled?: boolean;
+  onExtend: () => void;
+}
+
+// Warn when the room is about to close
+const WARNING_SECONDS = 5 * 60;
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+export const RoomCountdown = ({ expiresAt, pausedAt, extensionsRemaining, canExtend, disabled, onExtend }: RoomCountdownProps) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!expiresAt || pausedAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [expiresAt, pausedAt]);
+
+  if (!expiresAt) {
+    return null;
+  }
+
+  const clock = pausedAt ? new Date(pausedAt).getTime() : now;
+  const seconds = Math.max(0, Math.ceil((new Date(expiresAt).getTime() - clock) / 1000));
+
+  return (
+    <div className={cn(
+      "flex items-center gap-2 px-3 py-1.5 rounded-full text-sm bg-muted",
+      seconds <= WARNING_SECONDS && "bg-red-100 text-red-700 dark:bg-red-900/20 dark:text-red-400"
+    )}>
+      <Clock className="w-4 h-4" />
+      {formatTime(seconds)}
+      {canExtend && (
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6 px-2"
+          onClick={onExtend}
+          disabled={disabled}
+          title={`${extensionsRemaining ?? 0} extensions left`}
+        >
+          +30 min
+        </Button>
+      )}
+    </div>
+  );
+};
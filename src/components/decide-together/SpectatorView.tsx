@@ -0,0 +1,71 @@
+'use client';
+
+import { Card } from '@/components/ui/card';
+import { Eye } from 'lucide-react';
+import type { MatchResultView, RoomState } from '@/lib/services/room-state-manager';
+
+interface SpectatorViewProps {
+  tournament: NonNullable<RoomState['data']['tournament']>;
+  decisionLabels: Record<MatchResultView['decidedBy'], string>;
+}
+
+// Read-only bracket for spectators: the round in play and how earlier matches went, without anyone's picks
+export const SpectatorView = ({ tournament, decisionLabels }: SpectatorViewProps) => (
+  <div className="max-w-2xl mx-auto mt-16 space-y-6">
+    <div className="text-center">
+      <p className="text-sm text-muted-foreground flex items-center justify-center gap-2 mb-2">
+        <Eye className="w-4 h-4" />
+        Spectating
+      </p>
+      <h2 className="text-2xl font-bold">
+        Round {tournament.progress.currentRound} of {tournament.progress.totalRounds}
+      </h2>
+    </div>
+
+    {tournament.matches && tournament.matches.length > 0 && (
+      <Card className="p-4 text-sm">
+        <h3 className="font-semibold mb-2">In play</h3>
+        <ul className="space-y-1">
+          {tournament.matches.map(match => (
+            <li key={match.matchId}>
+              {match.movieA.title} vs {match.movieB.title}
+            </li>
+          ))}
+        </ul>
+        {tournament.byes && tournament.byes.length > 0 && (
+          <p className="text-muted-foreground mt-2">
+            Advancing on a bye: {tournament.byes.map(movie => movie.title).join(', ')}
+          </p>
+        )}
+      </Card>
+    )}
+
+    {tournament.results && tournament.results.length > 0 && (
+      <Card className="p-4 text-sm">
+        <h3 className="font-semibold mb-2">Results so far</h3>
+        <ul className="space-y-1">
+          {tournament.results.map(result => (
+            <li key={result.matchId} className="flex justify-between gap-4">
+              <span>{result.winner.title} over {result.loser.title}</span>
+              <span className="text-muted-foreground text-right">{decisionLabels[result.decidedBy]}</span>
+            </li>
+          ))}
+        </ul>
+      </Card>
+    )}
+
+    {tournament.standings && (
+      <Card className="p-4 text-sm">
+        <h3 className="font-semibold mb-2">Standings</h3>
+        <ol className="space-y-1">
+          {tournament.standings.map((standing, index) => (
+            <li key={standing.movie.id} className="flex justify-between">
+              <span>{index + 1}. {standing.movie.title}</span>
+              <span className="text-muted-foreground">{standing.wins}–{standing.losses}</span>
+            </li>
+          ))}
+        </ol>
+      </Card>
+    )}
+  </div>
+);
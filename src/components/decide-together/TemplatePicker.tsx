@@ -0,0 +1,89 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Sparkles } from 'lucide-react';
+import { describeFilters } from './PoolFiltersPanel';
+import type { TournamentTemplate } from '@/lib/utils/templates';
+
+interface TemplatePickerProps {
+  selected: string | null;
+  disabled?: boolean;
+  onSelect: (slug: string | null) => void;
+}
+
+// Built-in and saved themes, plus any template someone shared by slug
+export const TemplatePicker = ({ selected, disabled, onSelect }: TemplatePickerProps) => {
+  const [templates, setTemplates] = useState<TournamentTemplate[]>([]);
+  const [sharedSlug, setSharedSlug] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/decided/templates')
+      .then(res => res.json())
+      .then(data => setTemplates(data.templates ?? []))
+      .catch(() => setTemplates([]));
+  }, []);
+
+  const loadShared = async () => {
+    setError(null);
+    const res = await fetch(`/api/decided/templates/${encodeURIComponent(sharedSlug.trim())}`);
+    const data = await res.json();
+    if (!res.ok) {
+      setError(data.error);
+      return;
+    }
+    setTemplates(prev => prev.some(t => t.slug === data.template.slug) ? prev : [...prev, data.template]);
+    onSelect(data.template.slug);
+  };
+
+  const current = templates.find(t => t.slug === selected);
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-lg font-semibold flex items-center gap-2">
+        <Sparkles className="w-5 h-5" />
+        Theme
+      </h2>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant={selected === null ? 'default' : 'outline'} onClick={() => onSelect(null)} disabled={disabled}>
+          None
+        </Button>
+        {templates.map(template => (
+          <Button
+            key={template.slug}
+            size="sm"
+            variant={selected === template.slug ? 'default' : 'outline'}
+            onClick={() => onSelect(template.slug)}
+            disabled={disabled}
+          >
+            {template.name}
+          </Button>
+        ))}
+      </div>
+
+      {current && (
+        <div className="text-sm text-muted-foreground">
+          {current.description && <p>{current.description}</p>}
+          <p>{describeFilters(current.query).join(' · ')}</p>
+          <p>Share code: <span className="font-mono">{current.slug}</span></p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Shared template code"
+          value={sharedSlug}
+          onChange={e => setSharedSlug(e.target.value)}
+          disabled={disabled}
+        />
+        <Button variant="outline" onClick={loadShared} disabled={disabled || !sharedSlug.trim()}>
+          Load
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
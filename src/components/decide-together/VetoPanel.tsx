@@ -0,0 +1,101 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Ban, Film } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import Image from 'next/image';
+import type { Movie, Participant } from '@/lib/services/room-state-manager';
+import { getRemainingVetoes, hasFinishedVetoing, type VetoPhase } from '@/lib/utils/veto';
+
+interface VetoPanelProps {
+  veto: VetoPhase<Movie>;
+  participants: Participant[];
+  canVeto: boolean;
+  disabled?: boolean;
+  onVeto: (movieId: number) => void;
+  onDone: () => void;
+}
+
+export const VetoPanel = ({ veto, participants, canVeto, disabled, onVeto, onDone }: VetoPanelProps) => {
+  const vetoedBy = new Map(veto.vetoes.map(v => [v.movieId, v.userId]));
+  const nameOf = (userId: string) => participants.find(p => p.userId === userId)?.name ?? 'Someone';
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold mb-2">Veto Round</h2>
+        <p className="text-muted-foreground">
+          Everyone can strike up to {veto.quota} {veto.quota === 1 ? 'movie' : 'movies'} before the bracket is drawn
+        </p>
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-3 text-sm">
+        {participants.filter(p => p.isActive).map(participant => (
+          <span key={participant.userId} className="px-3 py-1 rounded-full border">
+            {participant.name}: {hasFinishedVetoing(veto, participant.userId)
+              ? 'done'
+              : `${getRemainingVetoes(veto, participant.userId)} left`}
+          </span>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+        {veto.pool.map(movie => {
+          const vetoer = vetoedBy.get(movie.id);
+          return (
+            <button
+              key={movie.id}
+              onClick={() => onVeto(movie.id)}
+              disabled={!canVeto || disabled || vetoer !== undefined}
+              className={cn(
+                "text-left rounded-lg transition-all focus:outline-none focus:ring-4",
+                canVeto && vetoer === undefined && "hover:scale-105",
+                vetoer !== undefined && "opacity-40"
+              )}
+            >
+              <Card className="overflow-hidden">
+                <div className="aspect-[2/3] relative">
+                  {movie.posterPath ? (
+                    <Image
+                      src={`https://image.tmdb.org/t/p/w300${movie.posterPath}`}
+                      alt={movie.title}
+                      fill
+                      className="object-cover"
+                      sizes="(max-width: 768px) 50vw, 25vw"
+                    />
+                  ) : (
+                    <div className="w-full h-full bg-muted flex items-center justify-center">
+                      <Film className="w-10 h-10 text-muted-foreground" />
+                    </div>
+                  )}
+                  {vetoer !== undefined && (
+                    <div className="absolute inset-0 flex items-center justify-center">
+                      <Ban className="w-16 h-16 text-destructive" />
+                    </div>
+                  )}
+                </div>
+                <div className="p-2">
+                  <h3 className={cn("font-medium text-sm line-clamp-2", vetoer !== undefined && "line-through")}>
+                    {movie.title}
+                  </h3>
+                  {vetoer !== undefined && (
+                    <p className="text-xs text-muted-foreground">Vetoed by {nameOf(vetoer)}</p>
+                  )}
+                </div>
+              </Card>
+            </button>
+          );
+        })}
+      </div>
+
+      {canVeto && (
+        <div className="text-center">
+          <Button variant="outline" onClick={onDone} disabled={disabled}>
+            I&apos;m done vetoing
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
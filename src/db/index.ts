@@ -24,9 +24,9 @@ try {
   console.error('Invalid DATABASE_URL format')
 }
 
-// For Supabase pooler connections
+// DATABASE_URL may be a Supabase pooler connection
 const client = postgres(connectionString, { 
-  prepare: false, // Required for Transaction pool mode
+  prepare: false, // Required when DATABASE_URL is a transaction-mode pooler
   max: 1, // Limit connections for serverless
   // SSL is handled automatically by the postgres driver when connecting to Supabase
   connection: {
@@ -39,5 +39,19 @@ const client = postgres(connectionString, {
 // Create the drizzle instance with schema and relations
 export const db = drizzle(client, { schema: { ...schema, ...relations } })
 
-// Export the client if needed for cleanup
-export { client } 
\ No newline at end of file
+// The room backplane's LISTEN needs a session of its own, which a transaction-mode pooler can't give:
+// notices go to whichever server connection it last handed out. DATABASE_DIRECT_URL points it past the
+// pooler; without it the listener shares DATABASE_URL, which then has to be a direct connection.
+const directConnectionString = process.env.DATABASE_DIRECT_URL
+const listenClient = directConnectionString
+  ? postgres(directConnectionString, {
+    max: 1,
+    connection: {
+      application_name: 'decided-backplane'
+    },
+    connect_timeout: 10,
+  })
+  : client
+
+// Export the clients if needed for cleanup
+export { client, listenClient } 
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { pgTable, text, uuid, timestamp, serial, integer, boolean, jsonb, check, uniqueIndex, index, varchar, unique } from 'drizzle-orm/pg-core'
+import { pgTable, text, uuid, timestamp, serial, integer, boolean, jsonb, check, uniqueIndex, index, varchar, unique, AnyPgColumn } from 'drizzle-orm/pg-core'
 import { sql } from 'drizzle-orm'
 
 // Users table
@@ -195,15 +195,21 @@ export const rooms = pgTable('rooms', {
   startedAt: timestamp('started_at', { withTimezone: true }),
   completedAt: timestamp('completed_at', { withTimezone: true }),
   closedAt: timestamp('closed_at', { withTimezone: true }),
+  expiresAt: timestamp('expires_at', { withTimezone: true }),
+  extensionCount: integer('extension_count').notNull().default(0),
+  pausedAt: timestamp('paused_at', { withTimezone: true }),
+  rematchOf: uuid('rematch_of').references((): AnyPgColumn => rooms.id, { onDelete: 'set null' }),
   winnerMovieId: integer('winner_movie_id'),
   winnerTitle: varchar('winner_title'),
   winnerPosterPath: varchar('winner_poster_path'),
   tournamentData: jsonb('tournament_data'),
+  settings: jsonb('settings').default(sql`'{}'::jsonb`),
 }, (table) => ({
   codeIdx: index('idx_rooms_code').on(table.code),
   statusIdx: index('idx_rooms_status').on(table.status),
   ownerIdx: index('idx_rooms_owner').on(table.ownerId),
   createdAtIdx: index('idx_rooms_created_at').on(table.createdAt),
+  expiresAtIdx: index('idx_rooms_expires_at').on(table.expiresAt).where(sql`${table.status} IN ('waiting', 'active')`),
 }));
 
 export const roomParticipants = pgTable('room_participants', {
@@ -216,6 +222,9 @@ export const roomParticipants = pgTable('room_participants', {
   finalPickMovieId: integer('final_pick_movie_id'),
   completedMatches: text('completed_matches').array().default(sql`'{}'::text[]`),
   currentMatchIndex: integer('current_match_index').default(0),
+  lastSeenAt: timestamp('last_seen_at', { withTimezone: true }),
+  droppedAt: timestamp('dropped_at', { withTimezone: true }), // dropped for not reconnecting; they may take the seat back
+  role: varchar('role', { length: 20 }).notNull().default('player'),
 }, (table) => ({
   roomUserUnique: unique().on(table.roomId, table.userId),
   roomIdx: index('idx_room_participants_room').on(table.roomId),
@@ -234,6 +243,8 @@ export const bracketPicks = pgTable('bracket_picks', {
   selectedMovieId: integer('selected_movie_id').notNull(),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   responseTimeMs: integer('response_time_ms'),
+  autoPicked: boolean('auto_picked').notNull().default(false),
+  eloChanges: jsonb('elo_changes'), // what the Elo batch processor applied for this pick, so an undo can revert it
 }, (table) => ({
   roomUserMatchUnique: unique().on(table.roomId, table.userId, table.matchId),
   roomUserIdx: index('idx_bracket_picks_room_user').on(table.roomId, table.userId),
@@ -282,13 +293,47 @@ export type NewRoomHistory = typeof roomHistory.$inferInsert;
 export const roomStates = pgTable('room_states', {
   roomId: uuid('room_id').primaryKey().references(() => rooms.id, { onDelete: 'cascade' }),
   stateVersion: integer('state_version').notNull().default(1),
-  currentState: jsonb('current_state').notNull(),
+  currentState: jsonb('current_state').notNull(), // cached copy of what room_events replays to at state_version
+  currentRecord: jsonb('current_record'), // the room's rows as last logged to room_events, cached the same way
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
   updatedBy: uuid('updated_by').references(() => users.id),
 }, (table) => ({
   versionIdx: index('idx_room_states_version').on(table.roomId, table.stateVersion),
 }));
 
+// Append-only log of every saved room state transition; seq is the state version the event produced
+export const roomEvents = pgTable('room_events', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  roomId: uuid('room_id').notNull().references(() => rooms.id, { onDelete: 'cascade' }),
+  seq: integer('seq').notNull(),
+  eventType: varchar('event_type', { length: 50 }).notNull(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'set null' }),
+  patch: jsonb('patch').notNull(),
+  recordPatch: jsonb('record_patch'), // the room's rows written with this event; null before they were logged
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  roomSeqUnique: unique().on(table.roomId, table.seq),
+}));
+
+export const roomSnapshots = pgTable('room_snapshots', {
+  roomId: uuid('room_id').notNull().references(() => rooms.id, { onDelete: 'cascade' }),
+  seq: integer('seq').notNull(),
+  state: jsonb('state').notNull(),
+  record: jsonb('record'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  roomSeqUnique: unique().on(table.roomId, table.seq),
+}));
+
+// One lease per room; the fencing token goes up on every acquisition so a holder whose lease ran out can't write
+export const roomLocks = pgTable('room_locks', {
+  roomId: uuid('room_id').primaryKey().references(() => rooms.id, { onDelete: 'cascade' }),
+  holder: varchar('holder', { length: 100 }),
+  fencingToken: integer('fencing_token').notNull().default(0),
+  acquiredAt: timestamp('acquired_at', { withTimezone: true }),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+});
+
 export const matchCompletions = pgTable('match_completions', {
   id: uuid('id').defaultRandom().primaryKey(),
   roomId: uuid('room_id').notNull().references(() => rooms.id, { onDelete: 'cascade' }),
@@ -319,9 +364,39 @@ export const userActions = pgTable('user_actions', {
   processedAtIdx: index('idx_user_actions_processed_at').on(table.processedAt),
 }));
 
+// Curated sets of movies a room can be started from
+export const movieLists = pgTable('movie_lists', {
+  id: serial('id').primaryKey(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 80 }).notNull(),
+  movies: jsonb('movies').notNull().default([]),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  userIdx: index('idx_movie_lists_user_id').on(table.userId),
+}));
+
+// Themed tournaments users saved; the built-in ones live in code
+export const tournamentTemplates = pgTable('tournament_templates', {
+  id: serial('id').primaryKey(),
+  slug: varchar('slug', { length: 100 }).notNull().unique(),
+  name: varchar('name', { length: 80 }).notNull(),
+  description: text('description'),
+  query: jsonb('query').notNull().default({}),
+  settings: jsonb('settings').notNull().default({}),
+  createdBy: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  createdByIdx: index('idx_tournament_templates_created_by').on(table.createdBy),
+}));
+
 export type RoomState = typeof roomStates.$inferSelect;
 export type NewRoomState = typeof roomStates.$inferInsert;
 export type MatchCompletion = typeof matchCompletions.$inferSelect;
 export type NewMatchCompletion = typeof matchCompletions.$inferInsert;
 export type UserAction = typeof userActions.$inferSelect;
-export type NewUserAction = typeof userActions.$inferInsert; 
\ No newline at end of file
+export type NewUserAction = typeof userActions.$inferInsert;
+export type MovieList = typeof movieLists.$inferSelect;
+export type NewMovieList = typeof movieLists.$inferInsert;
+export type TournamentTemplateRow = typeof tournamentTemplates.$inferSelect;
+export type NewTournamentTemplateRow = typeof tournamentTemplates.$inferInsert; 
\ No newline at end of file
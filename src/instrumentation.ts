@@ -0,0 +1,10 @@
+// Runs once when a server instance starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { RoomSweeper } = await import('@/lib/services/room-sweeper');
+    RoomSweeper.start();
+
+    const { PickTimer } = await import('@/lib/services/pick-timer');
+    PickTimer.start();
+  }
+}
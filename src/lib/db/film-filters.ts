@@ -0,0 +1,110 @@
+import { db } from '@/db';
+import { films, users, streamingServices } from '@/db/schema';
+import { and, gte, lte, inArray, sql, SQL } from 'drizzle-orm';
+import tmdbService from '@/lib/tmdb';
+import type { DbExecutor } from './room-leases';
+import { PoolFilters, collectServiceIds, getStreamingProviderNames, isOnAnyService } from '@/lib/utils/pool-filters';
+
+export class FilmFilters {
+
+  // Conditions on the `films` table; vote averages are stored * 10
+  static buildConditions(filters: PoolFilters): SQL[] {
+    const conditions: SQL[] = [];
+
+    if (filters.maxRuntime !== undefined) {
+      conditions.push(lte(films.runtime, filters.maxRuntime));
+    }
+    if (filters.includeGenres?.length) {
+      conditions.push(sql`${films.genres} && ARRAY[${sql.join(filters.includeGenres.map(g => sql`${g}`), sql`, `)}]::text[]`);
+    }
+    if (filters.excludeGenres?.length) {
+      conditions.push(sql`NOT (coalesce(${films.genres}, '{}'::text[]) && ARRAY[${sql.join(filters.excludeGenres.map(g => sql`${g}`), sql`, `)}]::text[])`);
+    }
+    if (filters.yearFrom !== undefined) {
+      conditions.push(gte(films.releaseDate, `${filters.yearFrom}-01-01`));
+    }
+    if (filters.yearTo !== undefined) {
+      conditions.push(lte(films.releaseDate, `${filters.yearTo}-12-31`));
+    }
+    if (filters.minVoteAverage !== undefined) {
+      conditions.push(gte(films.voteAverage, Math.round(filters.minVoteAverage * 10)));
+    }
+    if (filters.minVoteCount !== undefined) {
+      conditions.push(gte(films.voteCount, filters.minVoteCount));
+    }
+    if (filters.keywords?.length) {
+      conditions.push(sql`${films.keywords} && ARRAY[${sql.join(filters.keywords.map(k => sql`${k}`), sql`, `)}]::text[]`);
+    }
+
+    return conditions;
+  }
+
+  // TMDB ids from `tmdbIds` that pass the filters. Films missing from the catalog can't be
+  // checked, so they are left out whenever a catalog filter is set.
+  static async filterTmdbIds(
+    tmdbIds: number[],
+    filters: PoolFilters,
+    participantIds: string[],
+    executor: DbExecutor = db
+  ): Promise<Set<number>> {
+    if (tmdbIds.length === 0) {
+      return new Set();
+    }
+
+    let allowed = tmdbIds;
+    const conditions = this.buildConditions(filters);
+
+    if (conditions.length > 0) {
+      const rows = await executor
+        .select({ tmdbId: films.tmdbId })
+        .from(films)
+        .where(and(inArray(films.tmdbId, tmdbIds), ...conditions));
+      const matching = new Set(rows.map(r => r.tmdbId));
+      allowed = allowed.filter(id => matching.has(id));
+    }
+
+    if (filters.sharedStreamingOnly) {
+      allowed = await this.filterByStreaming(allowed, participantIds, executor);
+    }
+
+    return new Set(allowed);
+  }
+
+  private static async getParticipantServiceNames(participantIds: string[], executor: DbExecutor): Promise<string[]> {
+    if (participantIds.length === 0) {
+      return [];
+    }
+
+    const participants = await executor
+      .select({ streamingServices: users.streamingServices })
+      .from(users)
+      .where(inArray(users.id, participantIds));
+
+    const serviceIds = collectServiceIds(participants.map(p => p.streamingServices));
+    if (serviceIds.length === 0) {
+      return [];
+    }
+
+    const services = await executor
+      .select({ name: streamingServices.name })
+      .from(streamingServices)
+      .where(inArray(streamingServices.id, serviceIds));
+
+    return services.map(s => s.name);
+  }
+
+  private static async filterByStreaming(tmdbIds: number[], participantIds: string[], executor: DbExecutor): Promise<number[]> {
+    const serviceNames = await this.getParticipantServiceNames(participantIds, executor);
+    if (serviceNames.length === 0) {
+      console.log('[FILM_FILTERS] No participant has streaming services set, nothing is streamable');
+      return [];
+    }
+
+    const available = await Promise.all(tmdbIds.map(async id => {
+      const providers = await tmdbService.getStreamingProviders(id);
+      return isOnAnyService(getStreamingProviderNames(providers), serviceNames) ? id : null;
+    }));
+
+    return available.filter((id): id is number => id !== null);
+  }
+}
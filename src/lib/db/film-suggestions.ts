@@ -0,0 +1,95 @@
+import { db } from '@/db';
+import { films, users, movieRatings, watchList } from '@/db/schema';
+import { and, desc, inArray, notInArray, sql, SQL } from 'drizzle-orm';
+import { FilmFilters } from './film-filters';
+import { PoolFilters } from '@/lib/utils/pool-filters';
+import { Rng, shuffle } from '@/lib/utils/random';
+import { getSuggestionExclusions, getSuggestionGenres } from '@/lib/utils/suggestions';
+import type { DbExecutor } from './room-leases';
+
+export interface SuggestedFilm {
+  tmdbId: number;
+  title: string;
+  posterPath: string | null;
+  releaseDate: string | null;
+  voteAverage: number | null;
+  genres: string[] | null;
+}
+
+// How many of the most popular matches to draw suggestions from, so rooms don't all get the same films
+const CANDIDATE_MULTIPLIER = 5;
+
+export class FilmSuggestions {
+
+  // Real catalog films to top up a thin pool: in the participants' favourite genres, not disliked
+  // or already watched by any of them, and not already in the pool
+  static async suggest(
+    participantIds: string[],
+    count: number,
+    options: { excludeTmdbIds?: number[]; filters?: PoolFilters; rng?: Rng; executor?: DbExecutor } = {}
+  ): Promise<SuggestedFilm[]> {
+    if (count <= 0 || participantIds.length === 0) {
+      return [];
+    }
+
+    const executor = options.executor ?? db;
+
+    const [profiles, ratings, watched] = await Promise.all([
+      executor
+        .select({ selectedGenres: users.selectedGenres })
+        .from(users)
+        .where(inArray(users.id, participantIds)),
+      executor
+        .select({ tmdbId: movieRatings.tmdbMovieId, ratingType: movieRatings.ratingType })
+        .from(movieRatings)
+        .where(inArray(movieRatings.userId, participantIds)),
+      executor
+        .select({ tmdbId: watchList.tmdbMovieId, isWatched: watchList.isWatched })
+        .from(watchList)
+        .where(inArray(watchList.userId, participantIds)),
+    ]);
+
+    const genres = getSuggestionGenres(profiles);
+    const excluded = getSuggestionExclusions(options.excludeTmdbIds ?? [], ratings, watched);
+
+    const conditions: SQL[] = [
+      sql`${films.adult} = false`,
+      ...FilmFilters.buildConditions(options.filters ?? {}),
+    ];
+    if (genres.length > 0) {
+      conditions.push(sql`${films.genres} && ARRAY[${sql.join(genres.map(g => sql`${g}`), sql`, `)}]::text[]`);
+    }
+    if (excluded.length > 0) {
+      conditions.push(notInArray(films.tmdbId, excluded));
+    }
+
+    const candidates = await executor
+      .select({
+        tmdbId: films.tmdbId,
+        title: films.title,
+        posterPath: films.posterPath,
+        releaseDate: films.releaseDate,
+        voteAverage: films.voteAverage,
+        genres: films.genres,
+      })
+      .from(films)
+      .where(and(...conditions))
+      .orderBy(desc(films.popularity), films.tmdbId)
+      .limit(count * CANDIDATE_MULTIPLIER);
+
+    console.log(`[FILM_SUGGESTIONS] ${candidates.length} catalog candidates for ${count} slots (genres: ${genres.join(', ') || 'any'})`);
+
+    let available = candidates;
+    if (options.filters?.sharedStreamingOnly) {
+      const streamable = await FilmFilters.filterTmdbIds(
+        candidates.map(c => c.tmdbId),
+        { sharedStreamingOnly: true },
+        participantIds,
+        executor
+      );
+      available = candidates.filter(c => streamable.has(c.tmdbId));
+    }
+
+    return (options.rng ? shuffle(available, options.rng) : available).slice(0, count);
+  }
+}
@@ -0,0 +1,303 @@
+import { db } from '@/db';
+import { bracketPicks, matchCompletions, roomEvents, roomParticipants, rooms, roomSnapshots, roomStates } from '@/db/schema';
+import { and, asc, desc, eq, gt, lte, max } from 'drizzle-orm';
+import type { DbExecutor, DbTransaction } from './room-leases';
+import type { RoomState } from '@/lib/services/room-state-manager';
+import {
+  PatchOp,
+  RoomRecord,
+  applyPatch,
+  diffState,
+  findDivergence,
+  findGap,
+  reduceEvents,
+  reduceRecords,
+  shouldSnapshot,
+  toRoomRecord,
+} from '@/lib/utils/room-events';
+
+export interface StateCheck {
+  roomId: string;
+  storedVersion: number;
+  replayedSeq: number | null;
+  matches: boolean;
+  divergence?: string; // dotted path to the first difference, or why the log couldn't be replayed
+  recordLogged: boolean; // false while the replayed range has events from before the room's rows were logged
+}
+
+export class RoomEventLog {
+  // Called inside the transaction that saves the state, so the log and room_states never disagree.
+  // The record is the room's rows as that transaction leaves them (see readRecord).
+  static async append(
+    tx: DbTransaction,
+    roomId: string,
+    event: {
+      seq: number;
+      eventType: string;
+      userId?: string;
+      before: RoomState | null;
+      after: RoomState;
+      recordBefore: RoomRecord | null;
+      record: RoomRecord;
+    }
+  ): Promise<void> {
+    const previousSeq = event.seq - 1;
+
+    // Rooms saved before the log existed start it with a snapshot of the state they had
+    if (event.before && previousSeq > 0) {
+      const logged = await tx
+        .select({ seq: roomEvents.seq })
+        .from(roomEvents)
+        .where(and(eq(roomEvents.roomId, roomId), eq(roomEvents.seq, previousSeq)))
+        .limit(1);
+      if (logged.length === 0) {
+        await tx
+          .insert(roomSnapshots)
+          .values({ roomId, seq: previousSeq, state: event.before })
+          .onConflictDoNothing();
+      }
+    }
+
+    await tx.insert(roomEvents).values({
+      roomId,
+      seq: event.seq,
+      eventType: event.eventType,
+      userId: event.userId,
+      patch: diffState(event.before ?? undefined, event.after),
+      recordPatch: diffState(event.recordBefore ?? undefined, event.record),
+    });
+
+    if (shouldSnapshot(event.seq)) {
+      await tx
+        .insert(roomSnapshots)
+        .values({ roomId, seq: event.seq, state: event.after, record: event.record })
+        .onConflictDoNothing();
+    }
+  }
+
+  // The version the room's log has reached, or null for a room with nothing logged
+  static async latestSeq(executor: DbExecutor, roomId: string): Promise<number | null> {
+    const [latest] = await executor
+      .select({ seq: max(roomEvents.seq) })
+      .from(roomEvents)
+      .where(eq(roomEvents.roomId, roomId));
+    return latest?.seq ?? null;
+  }
+
+  // Drops the room's whole history along with its cached state, so the next save starts the log again
+  // at 1. For repairs that reset a room; clearing only room_states would leave the log in charge.
+  static async clear(tx: DbTransaction, roomId: string): Promise<void> {
+    await tx.delete(roomSnapshots).where(eq(roomSnapshots.roomId, roomId));
+    await tx.delete(roomEvents).where(eq(roomEvents.roomId, roomId));
+    await tx.delete(roomStates).where(eq(roomStates.roomId, roomId));
+  }
+
+  // What the log keeps of the room's rows: everything the room's actions write
+  static async readRecord(executor: DbExecutor, roomId: string): Promise<RoomRecord> {
+    const [room] = await executor
+      .select({
+        status: rooms.status,
+        settings: rooms.settings,
+        tournamentData: rooms.tournamentData,
+        startedAt: rooms.startedAt,
+        completedAt: rooms.completedAt,
+        closedAt: rooms.closedAt,
+        expiresAt: rooms.expiresAt,
+        extensionCount: rooms.extensionCount,
+        pausedAt: rooms.pausedAt,
+        winnerMovieId: rooms.winnerMovieId,
+      })
+      .from(rooms)
+      .where(eq(rooms.id, roomId));
+
+    const participants = await executor
+      .select({
+        userId: roomParticipants.userId,
+        role: roomParticipants.role,
+        isActive: roomParticipants.isActive,
+        leftAt: roomParticipants.leftAt,
+        droppedAt: roomParticipants.droppedAt,
+        completedMatches: roomParticipants.completedMatches,
+        currentMatchIndex: roomParticipants.currentMatchIndex,
+      })
+      .from(roomParticipants)
+      .where(eq(roomParticipants.roomId, roomId));
+
+    const picks = await executor
+      .select({
+        matchId: bracketPicks.matchId,
+        userId: bracketPicks.userId,
+        roundNumber: bracketPicks.roundNumber,
+        movieAId: bracketPicks.movieAId,
+        movieBId: bracketPicks.movieBId,
+        selectedMovieId: bracketPicks.selectedMovieId,
+        responseTimeMs: bracketPicks.responseTimeMs,
+        autoPicked: bracketPicks.autoPicked,
+      })
+      .from(bracketPicks)
+      .where(eq(bracketPicks.roomId, roomId));
+
+    const completions = await executor
+      .select({ matchId: matchCompletions.matchId, roundNumber: matchCompletions.roundNumber })
+      .from(matchCompletions)
+      .where(eq(matchCompletions.roomId, roomId));
+
+    return toRoomRecord({ room: room ?? {}, participants, picks, completions });
+  }
+
+  // The room's state and rows as of uptoSeq (or the latest event): the closest snapshot, then every
+  // patch after it. The record is null where the log can't rebuild the rows. Loading a room goes
+  // through here too, so pass the transaction when reading in the middle of one.
+  static async replay(
+    roomId: string,
+    uptoSeq?: number,
+    executor: DbExecutor = db
+  ): Promise<{ seq: number; state: RoomState; record: RoomRecord | null } | null> {
+    const [snapshot] = await executor
+      .select({ seq: roomSnapshots.seq, state: roomSnapshots.state, record: roomSnapshots.record })
+      .from(roomSnapshots)
+      .where(and(
+        eq(roomSnapshots.roomId, roomId),
+        uptoSeq === undefined ? undefined : lte(roomSnapshots.seq, uptoSeq)
+      ))
+      .orderBy(desc(roomSnapshots.seq))
+      .limit(1);
+
+    const fromSeq = snapshot?.seq ?? 0;
+    const rows = await executor
+      .select({ seq: roomEvents.seq, patch: roomEvents.patch, recordPatch: roomEvents.recordPatch })
+      .from(roomEvents)
+      .where(and(
+        eq(roomEvents.roomId, roomId),
+        gt(roomEvents.seq, fromSeq),
+        uptoSeq === undefined ? undefined : lte(roomEvents.seq, uptoSeq)
+      ))
+      .orderBy(asc(roomEvents.seq));
+
+    if (!snapshot && rows.length === 0) {
+      return null;
+    }
+
+    const events = rows.map(row => ({
+      seq: row.seq,
+      patch: row.patch as PatchOp[],
+      recordPatch: row.recordPatch as PatchOp[] | null,
+    }));
+    const gap = findGap(fromSeq, events);
+    if (gap !== null) {
+      throw new Error(`Room ${roomId} event log is missing seq ${gap}`);
+    }
+
+    return {
+      seq: events.length > 0 ? events[events.length - 1].seq : fromSeq,
+      state: reduceEvents(snapshot ? snapshot.state as RoomState : null, events),
+      record: reduceRecords(snapshot ? snapshot.record as RoomRecord | null : null, events),
+    };
+  }
+
+  // The states a room went through after fromSeq, up to and including toSeq, for clients catching up
+  static async transitions(roomId: string, fromSeq: number, toSeq: number): Promise<Array<{ seq: number; state: RoomState }>> {
+    const base = await this.replay(roomId, fromSeq);
+    if (!base || base.seq !== fromSeq) {
+      throw new Error(`Room ${roomId} event log has no state at seq ${fromSeq}`);
+    }
+
+    const rows = await db
+      .select({ seq: roomEvents.seq, patch: roomEvents.patch })
+      .from(roomEvents)
+      .where(and(
+        eq(roomEvents.roomId, roomId),
+        gt(roomEvents.seq, fromSeq),
+        lte(roomEvents.seq, toSeq)
+      ))
+      .orderBy(asc(roomEvents.seq));
+
+    const events = rows.map(row => ({ seq: row.seq, patch: row.patch as PatchOp[] }));
+    const gap = findGap(fromSeq, events);
+    if (gap !== null) {
+      throw new Error(`Room ${roomId} event log is missing seq ${gap}`);
+    }
+
+    let state = base.state;
+    return events.map(event => {
+      state = applyPatch(state, event.patch);
+      return { seq: event.seq, state };
+    });
+  }
+
+  // Flags a room whose cached state or rows aren't what its log replays to, e.g. after a hand repair.
+  // Loading goes by the log either way (see resolveHead); this is for finding caches that drifted.
+  static async check(roomId: string): Promise<StateCheck | null> {
+    const stored = await db.query.roomStates.findFirst({
+      where: eq(roomStates.roomId, roomId),
+    });
+    if (!stored) {
+      return null;
+    }
+
+    let replayed: Awaited<ReturnType<typeof RoomEventLog.replay>>;
+    try {
+      replayed = await this.replay(roomId);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Replay failed';
+      return { roomId, storedVersion: stored.stateVersion, replayedSeq: null, matches: false, divergence: reason, recordLogged: false };
+    }
+
+    if (!replayed) {
+      return {
+        roomId,
+        storedVersion: stored.stateVersion,
+        replayedSeq: null,
+        matches: false,
+        divergence: 'No events logged',
+        recordLogged: false,
+      };
+    }
+    const recordLogged = replayed.record !== null;
+    if (replayed.seq !== stored.stateVersion) {
+      return {
+        roomId,
+        storedVersion: stored.stateVersion,
+        replayedSeq: replayed.seq,
+        matches: false,
+        divergence: `Log ends at ${replayed.seq}`,
+        recordLogged,
+      };
+    }
+
+    const statePath = findDivergence(replayed.state, stored.currentState);
+    const recordPath = statePath === null && recordLogged
+      ? findDivergence(replayed.record, await this.readRecord(db, roomId))
+      : null;
+    const divergence = statePath !== null
+      ? statePath.join('.') || '(root)'
+      : recordPath !== null ? ['record', ...recordPath].join('.') : undefined;
+    return {
+      roomId,
+      storedVersion: stored.stateVersion,
+      replayedSeq: replayed.seq,
+      matches: divergence === undefined,
+      ...(divergence === undefined ? {} : { divergence }),
+      recordLogged,
+    };
+  }
+
+  // Checks the most recently saved rooms and returns only the ones that don't match
+  static async findMismatches(limit: number): Promise<{ checked: number; mismatches: StateCheck[] }> {
+    const recent = await db
+      .select({ roomId: roomStates.roomId })
+      .from(roomStates)
+      .orderBy(desc(roomStates.updatedAt))
+      .limit(limit);
+
+    const mismatches: StateCheck[] = [];
+    for (const { roomId } of recent) {
+      const result = await this.check(roomId);
+      if (result && !result.matches) {
+        mismatches.push(result);
+      }
+    }
+    console.log(`[EVENT_LOG] Checked ${recent.length} rooms, ${mismatches.length} mismatched`);
+    return { checked: recent.length, mismatches };
+  }
+}
@@ -0,0 +1,99 @@
+import { db } from '@/db';
+import { roomLocks } from '@/db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { hostname } from 'os';
+import { Lease, isLeaseHeld, renewLease, takeLease } from '@/lib/utils/lease';
+
+// Which process holds a lease, for anyone looking at room_locks while debugging
+const HOLDER = `${hostname()}:${process.pid}`.slice(0, 100);
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Either the database itself or a transaction the query should be part of
+export type DbExecutor = typeof db | DbTransaction;
+
+export class LeaseLostError extends Error {
+  constructor(roomId: string, fencingToken: number) {
+    super(`Lost the lock on room ${roomId} (token ${fencingToken})`);
+    this.name = 'LeaseLostError';
+  }
+}
+
+export class RoomLeases {
+  // Takes the room's lease if it is free or has run out. Returns the new fencing token, or null while
+  // someone else holds it.
+  static async tryAcquire(roomId: string, ttlMs: number): Promise<number | null> {
+    return db.transaction(async (tx) => {
+      // A room that has never been locked starts out with a lapsed lease at token 0
+      await tx
+        .insert(roomLocks)
+        .values({ roomId, fencingToken: 0, expiresAt: sql`now()` })
+        .onConflictDoNothing();
+
+      const { lease, now } = await this.lockRow(tx, roomId);
+      const next = takeLease(lease, now, ttlMs);
+      if (!next) {
+        return null;
+      }
+
+      await tx
+        .update(roomLocks)
+        .set({ holder: HOLDER, fencingToken: next.fencingToken, acquiredAt: now, expiresAt: next.expiresAt })
+        .where(eq(roomLocks.roomId, roomId));
+      return next.fencingToken;
+    });
+  }
+
+  // Pushes the expiry out for a holder still working; false once the lease has been taken over
+  static async renew(roomId: string, fencingToken: number, ttlMs: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const { lease, now } = await this.lockRow(tx, roomId);
+      const renewed = renewLease(lease, fencingToken, now, ttlMs);
+      if (!renewed) {
+        return false;
+      }
+
+      await tx
+        .update(roomLocks)
+        .set({ expiresAt: renewed.expiresAt })
+        .where(eq(roomLocks.roomId, roomId));
+      return true;
+    });
+  }
+
+  // Expires the lease now; the row stays so the next holder's token keeps counting up
+  static async release(roomId: string, fencingToken: number): Promise<void> {
+    await db
+      .update(roomLocks)
+      .set({ holder: null, expiresAt: sql`now()` })
+      .where(and(eq(roomLocks.roomId, roomId), eq(roomLocks.fencingToken, fencingToken)));
+  }
+
+  // Run first in the transaction that writes on the lease's behalf. Locking the row holds off a takeover
+  // until the writes commit, so a holder that stalled past its expiry can't clobber the next one.
+  static async assertHeld(tx: DbTransaction, roomId: string, fencingToken: number): Promise<void> {
+    const { lease, now } = await this.lockRow(tx, roomId);
+    if (!isLeaseHeld(lease, fencingToken, now)) {
+      throw new LeaseLostError(roomId, fencingToken);
+    }
+  }
+
+  // The room's lease, locked until the transaction ends. Leases are timed by the database clock, so
+  // instances with drifting clocks still agree on expiry.
+  private static async lockRow(tx: DbTransaction, roomId: string): Promise<{ lease: Lease | null; now: Date }> {
+    const [row] = await tx
+      .select({
+        fencingToken: roomLocks.fencingToken,
+        expiresAt: roomLocks.expiresAt,
+        now: sql`now()`.mapWith(roomLocks.expiresAt),
+      })
+      .from(roomLocks)
+      .where(eq(roomLocks.roomId, roomId))
+      .for('update');
+
+    if (!row) {
+      return { lease: null, now: new Date() };
+    }
+    return { lease: { fencingToken: row.fencingToken, expiresAt: row.expiresAt }, now: row.now };
+  }
+}
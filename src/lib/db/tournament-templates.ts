@@ -0,0 +1,75 @@
+import { db } from '@/db';
+import { tournamentTemplates } from '@/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { customAlphabet } from 'nanoid';
+import { normalizePoolFilters } from '@/lib/utils/pool-filters';
+import {
+  BUILT_IN_TEMPLATES,
+  TournamentTemplate,
+  findBuiltInTemplate,
+  pickTemplateSettings,
+  slugify,
+} from '@/lib/utils/templates';
+
+// Keeps saved slugs unique and out of the built-ins' way
+const slugSuffix = customAlphabet('0123456789abcdefghijklmnopqrstuvwxyz', 6);
+
+type TemplateRow = typeof tournamentTemplates.$inferSelect;
+
+export class TournamentTemplates {
+
+  private static toTemplate(row: TemplateRow): TournamentTemplate {
+    return {
+      slug: row.slug,
+      name: row.name,
+      ...(row.description ? { description: row.description } : {}),
+      query: normalizePoolFilters(row.query),
+      settings: pickTemplateSettings(row.settings),
+    };
+  }
+
+  // Anyone with the slug can load a template; that's how they're shared
+  static async findBySlug(slug: string): Promise<TournamentTemplate | null> {
+    const builtIn = findBuiltInTemplate(slug);
+    if (builtIn) {
+      return builtIn;
+    }
+
+    const row = await db.query.tournamentTemplates.findFirst({
+      where: eq(tournamentTemplates.slug, slug),
+    });
+    return row ? this.toTemplate(row) : null;
+  }
+
+  // The built-ins followed by the user's own, newest first
+  static async listFor(userId: string): Promise<TournamentTemplate[]> {
+    const rows = await db
+      .select()
+      .from(tournamentTemplates)
+      .where(eq(tournamentTemplates.createdBy, userId))
+      .orderBy(desc(tournamentTemplates.createdAt));
+
+    return [...BUILT_IN_TEMPLATES, ...rows.map(row => this.toTemplate(row))];
+  }
+
+  // Expects input that already passed validateTemplate
+  static async create(
+    userId: string,
+    input: { name: string; description?: string; query: unknown; settings?: unknown }
+  ): Promise<TournamentTemplate> {
+    const [row] = await db
+      .insert(tournamentTemplates)
+      .values({
+        slug: `${slugify(input.name)}-${slugSuffix()}`,
+        name: input.name.trim(),
+        description: input.description?.trim() || null,
+        query: normalizePoolFilters(input.query),
+        settings: pickTemplateSettings(input.settings),
+        createdBy: userId,
+      })
+      .returning();
+
+    console.log(`[TEMPLATES] Saved template ${row.slug}`);
+    return this.toTemplate(row);
+  }
+}
@@ -155,6 +155,23 @@ export function updateElo(
   return processEloMatch(match);
 }
 
+/**
+ * Which side of a bracket pick won, whichever of the two was movie A
+ * 
+ * @param pick The matchup and the movie the user chose
+ * @returns The selected (winner) and rejected (loser) movie IDs
+ */
+export function getPickOutcome(pick: {
+  movieAId: number;
+  movieBId: number;
+  selectedMovieId: number;
+}): { selectedMovieId: number; rejectedMovieId: number } {
+  return {
+    selectedMovieId: pick.selectedMovieId,
+    rejectedMovieId: pick.selectedMovieId === pick.movieAId ? pick.movieBId : pick.movieAId,
+  };
+}
+
 /**
  * Calculate expected win probability based on ELO difference
  * 
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { RoomState } from '@/lib/services/room-state-manager';
+import { checkVersion } from '@/lib/utils/sse-resume';
 
 interface UseDecidedRoomOptions {
   roomCode: string;
@@ -15,6 +16,23 @@ export function useDecidedRoom({ roomCode, pollInterval = 2000 }: UseDecidedRoom
   const [isConnected, setIsConnected] = useState(false);
   const eventSourceRef = useRef<EventSource | null>(null);
   const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const versionRef = useRef<number | null>(null); // last state version applied, from any source
+
+  // Applies states in version order. Snapshots and full responses replace whatever we have; a stream
+  // event that skips versions means we missed some, so returns 'gap' without applying it.
+  const applyState = useCallback((newState: RoomState, source: 'snapshot' | 'stream' | 'response') => {
+    const check = checkVersion(versionRef.current, newState.version);
+    if (source === 'stream' && check === 'gap') {
+      return check;
+    }
+    if (check === 'stale' && source !== 'snapshot') {
+      return check;
+    }
+    versionRef.current = newState.version;
+    setState(newState);
+    setError(null);
+    return check;
+  }, []);
 
   // Polling fallback
   const pollState = useCallback(async () => {
@@ -27,12 +45,11 @@ export function useDecidedRoom({ roomCode, pollInterval = 2000 }: UseDecidedRoom
       }
 
       const newState = await response.json();
-      setState(newState);
-      setError(null);
+      applyState(newState, 'response');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
     }
-  }, [roomCode]);
+  }, [roomCode, applyState]);
 
   // Set up SSE connection with polling fallback
   useEffect(() => {
@@ -41,7 +58,9 @@ export function useDecidedRoom({ roomCode, pollInterval = 2000 }: UseDecidedRoom
 
     const connectSSE = () => {
       try {
-        const eventSource = new EventSource(`/api/decided/rooms/${roomCode}/stream`);
+        // A new EventSource doesn't send Last-Event-ID, so say where we left off
+        const resumeFrom = versionRef.current === null ? '' : `?lastEventId=${versionRef.current}`;
+        const eventSource = new EventSource(`/api/decided/rooms/${roomCode}/stream${resumeFrom}`);
         eventSourceRef.current = eventSource;
 
         eventSource.onopen = () => {
@@ -57,13 +76,28 @@ export function useDecidedRoom({ roomCode, pollInterval = 2000 }: UseDecidedRoom
           }
         };
 
+        eventSource.addEventListener('snapshot', (event) => {
+          if (!mounted) return;
+
+          try {
+            applyState(JSON.parse((event as MessageEvent).data), 'snapshot');
+          } catch (err) {
+            console.error('Error parsing SSE snapshot:', err);
+          }
+        });
+
         eventSource.onmessage = (event) => {
           if (!mounted) return;
           
           try {
             const newState = JSON.parse(event.data);
-            setState(newState);
-            setError(null);
+            if (applyState(newState, 'stream') === 'gap') {
+              // Reconnect from the last version we have; the server replays what we missed
+              console.log(`[SSE] Missed versions ${versionRef.current! + 1}-${newState.version - 1}, resyncing`);
+              eventSource.close();
+              eventSourceRef.current = null;
+              connectSSE();
+            }
           } catch (err) {
             console.error('Error parsing SSE data:', err);
           }
@@ -102,6 +136,7 @@ export function useDecidedRoom({ roomCode, pollInterval = 2000 }: UseDecidedRoom
     };
 
     // Initial connection
+    versionRef.current = null;
     connectSSE();
 
     // Cleanup
@@ -122,7 +157,7 @@ export function useDecidedRoom({ roomCode, pollInterval = 2000 }: UseDecidedRoom
         clearTimeout(reconnectTimeout);
       }
     };
-  }, [roomCode, pollInterval, pollState]);
+  }, [roomCode, pollInterval, pollState, applyState]);
 
   // Send action to server
   const sendAction = useCallback(async (
@@ -152,7 +187,7 @@ export function useDecidedRoom({ roomCode, pollInterval = 2000 }: UseDecidedRoom
       
       // Update state immediately with the response
       if (result.state) {
-        setState(result.state);
+        applyState(result.state, 'response');
       }
       
       return { success: true };
@@ -161,7 +196,7 @@ export function useDecidedRoom({ roomCode, pollInterval = 2000 }: UseDecidedRoom
       setError(errorMessage);
       return { success: false, error: errorMessage };
     }
-  }, [roomCode]);
+  }, [roomCode, applyState]);
 
   return {
     state,
@@ -7,7 +7,8 @@ export enum RoomStatus {
   WAITING = 'waiting',
   ACTIVE = 'active',
   COMPLETED = 'completed',
-  ABANDONED = 'abandoned'
+  ABANDONED = 'abandoned',
+  EXPIRED = 'expired'
 }
 
 interface StateTransition {
@@ -27,6 +28,11 @@ const ALLOWED_TRANSITIONS: Record<RoomStatus, StateTransition[]> = {
       from: [RoomStatus.WAITING],
       to: RoomStatus.ABANDONED,
       description: 'Abandon empty room or timeout'
+    },
+    {
+      from: [RoomStatus.WAITING],
+      to: RoomStatus.EXPIRED,
+      description: 'Room deadline passed before the tournament started'
     }
   ],
   [RoomStatus.ACTIVE]: [
@@ -39,6 +45,11 @@ const ALLOWED_TRANSITIONS: Record<RoomStatus, StateTransition[]> = {
       from: [RoomStatus.ACTIVE],
       to: RoomStatus.ABANDONED,
       description: 'Tournament abandoned by participants'
+    },
+    {
+      from: [RoomStatus.ACTIVE],
+      to: RoomStatus.EXPIRED,
+      description: 'Room deadline passed mid-tournament'
     }
   ],
   [RoomStatus.COMPLETED]: [
@@ -46,6 +57,9 @@ const ALLOWED_TRANSITIONS: Record<RoomStatus, StateTransition[]> = {
   ],
   [RoomStatus.ABANDONED]: [
     // Final state - no transitions allowed
+  ],
+  [RoomStatus.EXPIRED]: [
+    // Final state - no transitions allowed
   ]
 };
 
@@ -4,6 +4,8 @@ import { rooms, roomParticipants, users } from '@/db/schema'
 import { eq, and } from 'drizzle-orm'
 import type { User } from '@supabase/supabase-js'
 import { getMissingProfileFields } from '@/lib/utils/profile'
+import { normalizeRoomSettings } from '@/lib/utils/room-settings'
+import type { DbExecutor } from '@/lib/db/room-leases'
 
 export class AuthMiddleware {
   
@@ -63,17 +65,32 @@ export class AuthMiddleware {
     return { complete: missing.length === 0, missing }
   }
   
-  static async validateRoomCapacity(roomId: string): Promise<{ canJoin: boolean; currentCount: number }> {
-    const participants = await db.query.roomParticipants.findMany({
-      where: and(
+  // Inside a transaction this locks the room row first, so joins count seats one at a time and the
+  // second of two concurrent joins sees the first one's seat
+  static async validateRoomCapacity(
+    roomId: string,
+    executor: DbExecutor = db
+  ): Promise<{ canJoin: boolean; currentCount: number; maxCount: number }> {
+    const [room] = await executor
+      .select({ settings: rooms.settings })
+      .from(rooms)
+      .where(eq(rooms.id, roomId))
+      .for('update')
+    // Spectators don't take a seat
+    const participants = await executor
+      .select({ id: roomParticipants.id })
+      .from(roomParticipants)
+      .where(and(
         eq(roomParticipants.roomId, roomId),
-        eq(roomParticipants.isActive, true)
-      ),
-    })
+        eq(roomParticipants.isActive, true),
+        eq(roomParticipants.role, 'player')
+      ))
+    const maxCount = normalizeRoomSettings(room?.settings).maxParticipants
     
     return {
-      canJoin: participants.length < 2,
-      currentCount: participants.length
+      canJoin: participants.length < maxCount,
+      currentCount: participants.length,
+      maxCount
     }
   }
   
@@ -1,12 +1,27 @@
 import { db } from '@/db';
-import { userActions, roomParticipants, bracketPicks, rooms, matchCompletions, watchList } from '@/db/schema';
-import { eq, and, sql } from 'drizzle-orm';
-import { RoomStateManager, RoomState } from './room-state-manager';
-import { TournamentEngine, TournamentMovie, TournamentMatch } from '../tournament-engine';
+import { userActions, roomParticipants, bracketPicks, rooms, matchCompletions, watchList, roomHistory, userMovieElo } from '@/db/schema';
+import { eq, and, inArray, isNull, lt, sql } from 'drizzle-orm';
+import { RoomStateManager, RoomState, StateConflictError, toStateMatch, toStateMovie, toBracketsView, toStandingsView, toVetoView, toResultsView } from './room-state-manager';
+import { TournamentEngine, Tournament, TournamentMovie, TournamentMatch, MIN_TOURNAMENT_POOL_SIZE } from '../tournament-engine';
+import { EloBatchProcessor } from './elo-batch-processor';
+import { RoomFactory } from './room-factory';
+import { DbTransaction, RoomLeases } from '@/lib/db/room-leases';
 import { v4 as uuidv4 } from 'uuid';
+import { MIN_PARTICIPANTS, normalizeRoomSettings, RoomSettings } from '@/lib/utils/room-settings';
+import { normalizePoolFilters, validatePoolFilters } from '@/lib/utils/pool-filters';
+import { hasAllVotes, isUndecided, MatchVote } from '@/lib/utils/voting';
+import { hasFinishedVetoing, isVetoPhaseComplete, validateVeto } from '@/lib/utils/veto';
+import { extendDeadline, getExtensionsRemaining, getSecondsRemaining, isExpired } from '@/lib/utils/room-deadline';
+import { chooseAutoPick } from '@/lib/utils/pick-timer';
+import { createRng, deriveSeed, generateSeed } from '@/lib/utils/random';
+import { resumeDeadline } from '@/lib/utils/pause';
+import { getFinalistIds, mergeExclusions } from '@/lib/utils/rematch';
+import { getPlayers, planAfterLeave } from '@/lib/utils/spectators';
+import { getAcquireAttempts } from '@/lib/utils/lease';
+import { retryOnConflict, StageEffect } from '@/lib/utils/conflict-retry';
 
 export interface Action {
-  action: 'start' | 'pick' | 'leave' | 'extend';
+  action: 'start' | 'pick' | 'leave' | 'extend' | 'filters' | 'veto' | 'undo' | 'pause' | 'resume' | 'rematch';
   payload?: any;
   idempotencyKey?: string;
 }
@@ -19,15 +34,24 @@ export interface ActionResult {
 
 interface RoomLock {
   roomId: string;
-  acquiredAt: Date;
-  timeout: NodeJS.Timeout;
+  fencingToken: number;
+  renewal: NodeJS.Timeout;
+}
+
+// What a start needs that can't be fetched under the lease transaction: the pool, whose streaming
+// filters and catalog top-up go out to TMDB
+interface StartPlan {
+  participantIds: string[];
+  settings: RoomSettings;
+  pool: TournamentMovie[];
+  rngSeed: number;
 }
 
 export class ActionProcessorV2 {
   private static instance: ActionProcessorV2;
-  private roomLocks: Map<string, RoomLock> = new Map();
-  private readonly LOCK_TIMEOUT = 5000; // 5 seconds
+  private readonly LOCK_TIMEOUT = 5000; // 5 seconds; a crashed holder's lease runs out after this
   private readonly IDEMPOTENCY_WINDOW = 5 * 60 * 1000; // 5 minutes
+  private readonly MAX_CONFLICT_RETRIES = 3; // attempts at an action whose save keeps losing the version check
 
   private constructor(
     private stateManager: RoomStateManager
@@ -53,64 +77,163 @@ export class ActionProcessorV2 {
     }
 
     // Acquire lock
-    await this.acquireLock(roomId);
+    const lock = await this.acquireLock(roomId);
 
     try {
       // Log action
       const actionId = await this.logAction(roomId, userId, action, 'processing');
 
-      // Load current state
+      let result: ActionResult;
+      try {
+        result = await retryOnConflict(async (stage): Promise<ActionResult> => {
+          // Load current state
+          const currentState = await this.stateManager.getState(roomId, userId);
+
+          // Validate action
+          const validation = this.validateAction(currentState, userId, action);
+          if (!validation.valid) {
+            return { success: false, error: validation.error };
+          }
+
+          // Build a start's pool first, so the transaction below only holds the connection for its writes
+          const startPlan = action.action === 'start' ? await this.planStart(roomId, currentState) : undefined;
+
+          // Apply action and save state together
+          const newState = await this.writeUnderLease(lock, async (tx) => {
+            const next = await this.applyAction(tx, stage, roomId, userId, currentState, action, startPlan);
+            await this.stateManager.writeState(tx, roomId, next, userId, { eventType: action.action });
+            return next;
+          });
+          stage(() => this.stateManager.publishState(roomId, newState));
+          return { success: true, state: newState };
+        }, {
+          maxAttempts: this.MAX_CONFLICT_RETRIES,
+          isConflict: error => error instanceof StateConflictError,
+          // A write from outside the lock (a join, the sweeper) landed since we loaded. The attempt was
+          // rolled back, so start over from the newer state.
+          onRetry: attempt => console.log(`[PROCESS] State conflict on room ${roomId}, retrying ${action.action} (attempt ${attempt})`),
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        await this.updateActionResult(actionId, 'error', errorMessage);
+        throw error;
+      }
+
+      // Update action result
+      await this.updateActionResult(actionId, result.success ? 'success' : 'error', result.error);
+
+      return result;
+
+    } finally {
+      // Release lock
+      await this.releaseLock(lock);
+    }
+  }
+
+  // Picks for a participant whose pick timer ran out, through the same path as a real pick
+  async processTimeout(roomId: string, userId: string): Promise<ActionResult> {
+    const lock = await this.acquireLock(roomId);
+
+    try {
       const currentState = await this.stateManager.getState(roomId, userId);
+      const match = currentState.data.tournament?.currentMatch;
 
-      // Validate action
-      const validation = this.validateAction(currentState, userId, action);
-      if (!validation.valid) {
-        await this.updateActionResult(actionId, 'error', validation.error);
-        return { success: false, error: validation.error };
+      // Re-check under the lock: the user may have picked since the timer fired
+      if (!currentState.availableActions.includes('pick') || !match?.deadline || new Date(match.deadline) > new Date()) {
+        return { success: false, error: 'Pick timer has not run out' };
       }
 
-      // Apply action
+      const selectedMovieId = await this.chooseAutoPick(roomId, userId, match);
+      const action: Action = {
+        action: 'pick',
+        payload: { matchId: match.matchId, selectedMovieId, autoPicked: true },
+      };
+      const actionId = await this.logAction(roomId, userId, action, 'processing');
+
+      // A single attempt: if it loses to another save, the next pick timer sweep tries again
       let newState: RoomState;
       try {
-        newState = await this.applyAction(roomId, userId, currentState, action);
+        newState = await retryOnConflict(async (stage) => {
+          const saved = await this.writeUnderLease(lock, async (tx) => {
+            const next = await this.handlePickAction(tx, stage, roomId, userId, currentState, action.payload);
+            await this.stateManager.writeState(tx, roomId, next, userId, { eventType: 'auto_pick' });
+            return next;
+          });
+          stage(() => this.stateManager.publishState(roomId, saved));
+          return saved;
+        }, { maxAttempts: 1, isConflict: error => error instanceof StateConflictError });
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         await this.updateActionResult(actionId, 'error', errorMessage);
         throw error;
       }
 
-      // Save state
-      await this.stateManager.saveState(roomId, newState, userId);
-
-      // Update action result
       await this.updateActionResult(actionId, 'success');
 
+      console.log(`[PICK_TIMER] Auto-picked ${selectedMovieId} for user ${userId} in match ${match.matchId}`);
       return { success: true, state: newState };
 
     } finally {
-      // Release lock
-      this.releaseLock(roomId);
+      await this.releaseLock(lock);
     }
   }
 
-  private async acquireLock(roomId: string): Promise<void> {
-    const maxAttempts = 10;
+  private async chooseAutoPick(
+    roomId: string,
+    userId: string,
+    match: { matchId: string; movieA: { id: number }; movieB: { id: number } }
+  ): Promise<number> {
+    const [room] = await db
+      .select({ settings: rooms.settings, tournamentData: rooms.tournamentData })
+      .from(rooms)
+      .where(eq(rooms.id, roomId))
+      .limit(1);
+
+    const { autoPick } = normalizeRoomSettings(room?.settings);
+    const tournament = room?.tournamentData as Tournament | null;
+    const draw = createRng(deriveSeed(tournament?.rngSeed ?? 0, `${match.matchId}:${userId}`))();
+
+    if (autoPick === 'random') {
+      return chooseAutoPick(match.movieA, match.movieB, { policy: autoPick, draw });
+    }
+
+    const ratings = await db
+      .select({ movieId: userMovieElo.movieId, eloRating: userMovieElo.eloRating })
+      .from(userMovieElo)
+      .where(and(
+        eq(userMovieElo.userId, userId),
+        inArray(userMovieElo.movieId, [match.movieA.id, match.movieB.id])
+      ));
+
+    return chooseAutoPick(match.movieA, match.movieB, {
+      policy: autoPick,
+      ratings: Object.fromEntries(ratings.filter(r => r.eloRating !== null).map(r => [r.movieId, r.eloRating!])),
+      draw,
+    });
+  }
+
+  // A lease in room_locks, so actions on a room are serialized across every server instance
+  private async acquireLock(roomId: string): Promise<RoomLock> {
     const retryDelay = 100; // 100ms
+    // Wait out a whole lease, so one left behind by a crashed holder expires before we give up
+    const maxAttempts = getAcquireAttempts(this.LOCK_TIMEOUT, retryDelay);
 
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      if (!this.roomLocks.has(roomId)) {
-        // Create lock with timeout
-        const timeout = setTimeout(() => {
-          console.error(`Lock timeout for room ${roomId}`);
-          this.releaseLock(roomId);
-        }, this.LOCK_TIMEOUT);
-
-        this.roomLocks.set(roomId, {
-          roomId,
-          acquiredAt: new Date(),
-          timeout,
-        });
-        return;
+      const fencingToken = await RoomLeases.tryAcquire(roomId, this.LOCK_TIMEOUT);
+      if (fencingToken !== null) {
+        // Keep the lease alive while a slow action runs; it lapses on its own if this process dies
+        const renewal = setInterval(() => {
+          RoomLeases.renew(roomId, fencingToken, this.LOCK_TIMEOUT)
+            .then(held => {
+              if (!held) {
+                console.error(`Lock lost for room ${roomId} (token ${fencingToken})`);
+                clearInterval(renewal);
+              }
+            })
+            .catch(error => console.error(`Failed to renew lock for room ${roomId}:`, error));
+        }, this.LOCK_TIMEOUT / 3);
+
+        return { roomId, fencingToken, renewal };
       }
 
       // Wait and retry
@@ -120,11 +243,23 @@ export class ActionProcessorV2 {
     throw new Error('Failed to acquire room lock');
   }
 
-  private releaseLock(roomId: string): void {
-    const lock = this.roomLocks.get(roomId);
-    if (lock) {
-      clearTimeout(lock.timeout);
-      this.roomLocks.delete(roomId);
+  // Every write made under the lease goes through one transaction that starts by checking the lease.
+  // That locks the lease row until the writes commit, so a holder that lost the lease writes nothing
+  // and nobody can take it over halfway through.
+  private async writeUnderLease<T>(lock: RoomLock, write: (tx: DbTransaction) => Promise<T>): Promise<T> {
+    return db.transaction(async (tx) => {
+      await RoomLeases.assertHeld(tx, lock.roomId, lock.fencingToken);
+      return write(tx);
+    });
+  }
+
+  private async releaseLock(lock: RoomLock): Promise<void> {
+    clearInterval(lock.renewal);
+    try {
+      await RoomLeases.release(lock.roomId, lock.fencingToken);
+    } catch (error) {
+      // The lease still runs out by itself
+      console.error(`Failed to release lock for room ${lock.roomId}:`, error);
     }
   }
 
@@ -184,6 +319,13 @@ export class ActionProcessorV2 {
     userId: string,
     action: Action
   ): { valid: boolean; error?: string } {
+    // The sweeper may not have closed the room yet; a paused room's clock stopped when it was paused.
+    // Finished rooms no longer count down.
+    const clock = state.data.room.paused ? new Date(state.data.room.paused.at) : new Date();
+    if (state.screen !== 'winner' && isExpired(state.data.room.expiresAt, clock)) {
+      return { valid: false, error: 'Room has expired' };
+    }
+
     // Check if action is available
     if (!state.availableActions.includes(action.action)) {
       return { valid: false, error: 'Action not available in current state' };
@@ -201,53 +343,152 @@ export class ActionProcessorV2 {
         if (!action.payload?.matchId || !action.payload?.selectedMovieId) {
           return { valid: false, error: 'Pick action requires matchId and selectedMovieId' };
         }
+        if (action.payload.autoPicked) {
+          return { valid: false, error: 'Auto picks are made by the server' };
+        }
+        const currentMatch = state.data.tournament?.currentMatch;
+        if (!currentMatch) {
+          return { valid: false, error: 'No current match to pick from' };
+        }
+        if (currentMatch.matchId !== action.payload.matchId) {
+          return { valid: false, error: 'Match ID mismatch' };
+        }
+        if (action.payload.selectedMovieId !== currentMatch.movieA.id && action.payload.selectedMovieId !== currentMatch.movieB.id) {
+          return { valid: false, error: 'Selected movie is not in this match' };
+        }
+        break;
+      case 'rematch':
+        if (action.payload?.excludeFinalists !== undefined && typeof action.payload.excludeFinalists !== 'boolean') {
+          return { valid: false, error: 'excludeFinalists must be a boolean' };
+        }
         break;
+      case 'filters': {
+        const owner = state.data.room.participants.find(p => p.userId === userId);
+        if (!owner?.isOwner) {
+          return { valid: false, error: 'Only room owner can set filters' };
+        }
+        const filters = validatePoolFilters(action.payload?.filters);
+        if (!filters.valid) {
+          return filters;
+        }
+        break;
+      }
+      case 'veto': {
+        const veto = state.data.veto;
+        if (!veto) {
+          return { valid: false, error: 'Room has no veto phase' };
+        }
+        if (action.payload?.done) {
+          if (hasFinishedVetoing(veto, userId)) {
+            return { valid: false, error: 'Already finished vetoing' };
+          }
+          break;
+        }
+        const vetoCheck = validateVeto(veto, userId, action.payload?.movieId, MIN_TOURNAMENT_POOL_SIZE);
+        if (!vetoCheck.valid) {
+          return vetoCheck;
+        }
+        break;
+      }
     }
 
     return { valid: true };
   }
 
+  // Database writes go through tx; anything else is staged to run once the action has committed
   private async applyAction(
+    tx: DbTransaction,
+    stage: StageEffect,
     roomId: string,
     userId: string,
     state: RoomState,
-    action: Action
+    action: Action,
+    startPlan?: StartPlan
   ): Promise<RoomState> {
     switch (action.action) {
       case 'start':
-        return this.handleStartAction(roomId, userId, state);
+        return this.handleStartAction(tx, roomId, state, startPlan!);
       case 'pick':
-        return this.handlePickAction(roomId, userId, state, action.payload);
+        return this.handlePickAction(tx, stage, roomId, userId, state, action.payload);
+      case 'undo':
+        return this.handleUndoAction(tx, stage, roomId, userId);
+      case 'pause':
+        return this.handlePauseAction(tx, roomId, userId);
+      case 'resume':
+        return this.handleResumeAction(tx, roomId, userId);
+      case 'rematch':
+        return this.handleRematchAction(tx, roomId, userId, action.payload);
       case 'leave':
-        return this.handleLeaveAction(roomId, userId, state);
+        return this.handleLeaveAction(tx, stage, roomId, userId, state, action.payload);
       case 'extend':
-        return this.handleExtendAction(roomId, userId, state);
+        return this.handleExtendAction(tx, roomId, userId, state);
+      case 'filters':
+        return this.handleFiltersAction(tx, roomId, state, action.payload);
+      case 'veto':
+        return this.handleVetoAction(tx, roomId, userId, state, action.payload);
       default:
         throw new Error(`Unknown action: ${action.action}`);
     }
   }
 
+  // Runs before the lease transaction opens, with the lease already held so the settings can't change
+  private async planStart(roomId: string, state: RoomState): Promise<StartPlan> {
+    const participants = getPlayers(state.data.room.participants);
+    
+    if (participants.length < MIN_PARTICIPANTS) {
+      throw new Error(`Room must have at least ${MIN_PARTICIPANTS} active participants to start`);
+    }
+
+    const [room] = await db
+      .select({ settings: rooms.settings })
+      .from(rooms)
+      .where(eq(rooms.id, roomId))
+      .limit(1);
+    const settings = normalizeRoomSettings(room?.settings);
+    const candidates = settings.poolSource === 'watchlists' ? undefined : settings.candidates;
+    const participantIds = participants.map(p => p.userId);
+    const rngSeed = generateSeed();
+
+    let pool: TournamentMovie[];
+    try {
+      pool = await TournamentEngine.buildPool(participantIds, {
+        filters: settings.filters,
+        excludeIds: settings.excludedMovieIds,
+        candidates,
+        rng: createRng(rngSeed),
+      });
+    } catch (error) {
+      // Too thin a pool starts the mock tournament, as it always has when building the pool failed
+      console.error('Error building tournament pool, falling back to mock:', error);
+      pool = [];
+    }
+
+    return { participantIds, settings, pool, rngSeed };
+  }
+
   private async handleStartAction(
+    tx: DbTransaction,
     roomId: string,
-    userId: string,
-    state: RoomState
+    state: RoomState,
+    plan: StartPlan
   ): Promise<RoomState> {
-    const participants = state.data.room.participants.filter(p => p.isActive);
-    
-    if (participants.length !== 2) {
-      throw new Error('Room must have exactly 2 active participants to start');
-    }
+    const { participantIds, pool, rngSeed } = plan;
+    const { seeding, format, vetoesPerUser } = plan.settings;
 
-    const [userA, userB] = participants;
+    // With vetoes on, fix the pool now and draw the bracket once everyone has struck their movies
+    const pending = vetoesPerUser > 0
+      ? TournamentEngine.startVetoPhase(participantIds, { seeding, format, pool, rngSeed, vetoesPerUser })
+      : null;
 
     // Generate tournament using TournamentEngine
-    const tournament = await TournamentEngine.generateTournament(
-      userA.userId,
-      userB.userId
+    const tournament = pending ?? await TournamentEngine.generateTournament(
+      participantIds,
+      { seeding, format, pool, rngSeed },
+      tx
     );
 
     // Update room status and store tournament data
-    await db
+    await tx
       .update(rooms)
       .set({
         status: 'active',
@@ -256,39 +497,68 @@ export class ActionProcessorV2 {
       })
       .where(eq(rooms.id, roomId));
 
-    // Update state
+    await this.recordEloSnapshot(tx, roomId, participantIds, tournament);
+
+    if (pending?.veto) {
+      state.screen = 'veto';
+      state.data.veto = toVetoView(pending.veto);
+      return state;
+    }
+
+    this.showFirstRound(state, tournament);
+    return state;
+  }
+
+  // Ratings as they stood before any picks, so the recap can show how the winner moved
+  private async recordEloSnapshot(tx: DbTransaction, roomId: string, participantIds: string[], tournament: Tournament): Promise<void> {
+    const movieIds = tournament.veto
+      ? tournament.veto.pool.map(movie => movie.id)
+      : [
+          ...tournament.matches.flatMap(match => [match.movieA.id, match.movieB.id]),
+          ...(tournament.byes ?? []).map(bye => bye.movie.id),
+        ];
+    if (movieIds.length === 0) {
+      return;
+    }
+
+    const rows = await tx
+      .select({ userId: userMovieElo.userId, movieId: userMovieElo.movieId, eloRating: userMovieElo.eloRating })
+      .from(userMovieElo)
+      .where(and(
+        inArray(userMovieElo.userId, participantIds),
+        inArray(userMovieElo.movieId, movieIds)
+      ));
+
+    const ratings: Record<string, Record<number, number>> = {};
+    for (const row of rows) {
+      if (row.eloRating !== null) {
+        ratings[row.userId] = { ...ratings[row.userId], [row.movieId]: row.eloRating };
+      }
+    }
+
+    await tx.insert(roomHistory).values({
+      roomId,
+      eventType: 'elo_snapshot',
+      eventData: { ratings },
+    });
+  }
+
+  private showFirstRound(state: RoomState, tournament: Tournament): void {
     state.screen = 'bracket';
     
     // Only include round 1 matches in the initial state (no placeholders for future rounds)
     const round1Matches = tournament.matches.filter((m: any) => m.roundNumber === 1);
     
     state.data.tournament = {
-      currentMatch: round1Matches[0] ? {
-        matchId: round1Matches[0].matchId,
-        movieA: {
-          id: round1Matches[0].movieA.id,
-          title: round1Matches[0].movieA.title,
-          posterPath: round1Matches[0].movieA.posterPath,
-        },
-        movieB: {
-          id: round1Matches[0].movieB.id,
-          title: round1Matches[0].movieB.title,
-          posterPath: round1Matches[0].movieB.posterPath,
-        },
-      } : undefined,
-      matches: round1Matches.map((m: any) => ({
-        matchId: m.matchId,
-        movieA: {
-          id: m.movieA.id,
-          title: m.movieA.title,
-          posterPath: m.movieA.posterPath,
-        },
-        movieB: {
-          id: m.movieB.id,
-          title: m.movieB.title,
-          posterPath: m.movieB.posterPath,
-        },
-      })),
+      currentMatch: round1Matches[0] ? toStateMatch(round1Matches[0]) : undefined,
+      matches: round1Matches.map(toStateMatch),
+      byes: (tournament.byes ?? [])
+        .filter(b => b.roundNumber === 1)
+        .map(b => toStateMovie(b.movie)),
+      format: tournament.format,
+      brackets: tournament.doubleElimination ? toBracketsView(tournament.doubleElimination) : undefined,
+      standings: tournament.swiss ? toStandingsView(tournament.swiss) : undefined,
+      roundStartedAt: tournament.roundStartedAt,
       progress: {
         userPicks: 0,
         totalPicks: round1Matches.length,
@@ -296,43 +566,138 @@ export class ActionProcessorV2 {
         totalRounds: tournament.totalRounds,
       },
     };
+  }
+
+  // Strikes a movie from the pool, or marks the user as done with vetoes left over
+  private async handleVetoAction(
+    tx: DbTransaction,
+    roomId: string,
+    userId: string,
+    state: RoomState,
+    payload?: { movieId?: number; done?: boolean }
+  ): Promise<RoomState> {
+    const [room] = await tx
+      .select({ tournamentData: rooms.tournamentData })
+      .from(rooms)
+      .where(eq(rooms.id, roomId))
+      .limit(1);
+
+    const tournament = room?.tournamentData as Tournament | null;
+    if (!tournament?.veto) {
+      throw new Error('Room has no veto phase');
+    }
+
+    if (payload?.done) {
+      tournament.veto.done.push(userId);
+      console.log(`[VETO] User ${userId} finished vetoing`);
+    } else {
+      const movie = tournament.veto.pool.find(m => m.id === payload?.movieId)!;
+      tournament.veto.vetoes.push({ userId, movieId: movie.id });
+      await tx.insert(roomHistory).values({
+        roomId,
+        eventType: 'movie_vetoed',
+        eventData: { userId, movieId: movie.id, title: movie.title },
+      });
+      console.log(`[VETO] User ${userId} vetoed ${movie.id} (${movie.title})`);
+    }
+
+    return this.finishVetoPhaseIfReady(tx, roomId, state, tournament);
+  }
+
+  // Saves the veto phase, drawing the bracket once nobody has anything left to strike
+  private async finishVetoPhaseIfReady(
+    tx: DbTransaction,
+    roomId: string,
+    state: RoomState,
+    tournament: Tournament
+  ): Promise<RoomState> {
+    const veto = tournament.veto!;
+
+    if (!isVetoPhaseComplete(veto, this.getVoterIds(state), MIN_TOURNAMENT_POOL_SIZE)) {
+      await tx
+        .update(rooms)
+        .set({ tournamentData: tournament })
+        .where(eq(rooms.id, roomId));
+      state.data.veto = toVetoView(veto);
+      return state;
+    }
+
+    const drawn = await TournamentEngine.completeVetoPhase(tournament, tx);
+    await tx
+      .update(rooms)
+      .set({ tournamentData: drawn })
+      .where(eq(rooms.id, roomId));
+
+    state.data.veto = toVetoView(drawn.veto!);
+    this.showFirstRound(state, drawn);
+    return state;
+  }
+
+  // Replaces the lobby filters; they are applied when the tournament starts
+  private async handleFiltersAction(
+    tx: DbTransaction,
+    roomId: string,
+    state: RoomState,
+    payload?: { filters?: unknown }
+  ): Promise<RoomState> {
+    const [room] = await tx
+      .select({ settings: rooms.settings })
+      .from(rooms)
+      .where(eq(rooms.id, roomId))
+      .limit(1);
+
+    const filters = normalizePoolFilters(payload?.filters);
+    const settings = { ...normalizeRoomSettings(room?.settings), filters };
+
+    await tx
+      .update(rooms)
+      .set({ settings })
+      .where(eq(rooms.id, roomId));
 
+    state.data.room.filters = filters;
     return state;
   }
 
   private async handlePickAction(
+    tx: DbTransaction,
+    stage: StageEffect,
     roomId: string,
     userId: string,
     state: RoomState,
     payload: any
   ): Promise<RoomState> {
     const { matchId, selectedMovieId } = payload;
+    const autoPicked = payload.autoPicked === true;
+    const movieAId = state.data.tournament!.currentMatch!.movieA.id;
+    const movieBId = state.data.tournament!.currentMatch!.movieB.id;
     console.log(`[PICK] User ${userId} picking ${selectedMovieId} for match ${matchId}`);
 
-    // Record pick in database (will fail if duplicate due to unique constraint)
-    try {
-      await db.insert(bracketPicks).values({
+    // Record pick in database; a failed insert would abort the action's transaction, so a duplicate
+    // is skipped by the unique constraint instead
+    const inserted = await tx
+      .insert(bracketPicks)
+      .values({
         roomId,
         userId,
         matchId,
         roundNumber: state.data.tournament!.progress.currentRound,
-        movieAId: state.data.tournament!.currentMatch!.movieA.id,
-        movieBId: state.data.tournament!.currentMatch!.movieB.id,
+        movieAId,
+        movieBId,
         selectedMovieId,
         responseTimeMs: payload.responseTimeMs,
-      });
-      console.log(`[PICK] Successfully saved pick to database`);
-    } catch (error: any) {
-      if (error.code === '23505') { // Unique constraint violation
-        // User already picked for this match - just return current state
-        console.log(`User ${userId} already picked for match ${matchId}`);
-        return state; // Return original state without changes
-      }
-      throw error;
+        autoPicked,
+      })
+      .onConflictDoNothing()
+      .returning({ id: bracketPicks.id });
+    if (inserted.length === 0) {
+      // User already picked for this match - just return current state
+      console.log(`User ${userId} already picked for match ${matchId}`);
+      return state; // Return original state without changes
     }
+    console.log(`[PICK] Successfully saved pick to database`);
 
     // Update participant's completed matches
-    await db.execute(sql`
+    await tx.execute(sql`
       UPDATE room_participants 
       SET 
         completed_matches = array_append(completed_matches, ${matchId}),
@@ -341,8 +706,8 @@ export class ActionProcessorV2 {
     `);
     console.log(`[PICK] Updated participant completed matches`);
 
-    // Check if match is complete (both users picked)
-    const picks = await db.query.bracketPicks.findMany({
+    // Check if match is complete (every active participant picked)
+    const picks = await tx.query.bracketPicks.findMany({
       where: and(
         eq(bracketPicks.roomId, roomId),
         eq(bracketPicks.matchId, matchId)
@@ -350,124 +715,28 @@ export class ActionProcessorV2 {
     });
     console.log(`[PICK] Match ${matchId} has ${picks.length} picks`);
 
-    if (picks.length === 2) {
-      console.log(`[PICK] Match complete, recording completion`);
-      // Record match completion
-      await db.insert(matchCompletions).values({
+    let roundAdvanced = false;
+    let split: MatchVote[] | null = null;
+    if (hasAllVotes(picks, this.getVoterIds(state))) {
+      ({ roundAdvanced, split } = await this.settleMatch(tx, stage, roomId, matchId, picks, state));
+    }
+
+    // The batch processor skips auto picks, they only keep the room moving. Queued once the pick
+    // has committed, so it can find the pick's row; a pick that split its match was just deleted and
+    // trains nothing, its replay does.
+    if (!split) {
+      stage(() => EloBatchProcessor.addJob({
         roomId,
+        userId,
         matchId,
-        roundNumber: state.data.tournament!.progress.currentRound,
-      });
-
-      // Check if round is complete by counting completed matches
-      const currentRound = state.data.tournament!.progress.currentRound;
-      const currentRoundMatches = state.data.tournament!.matches.filter((m: any) => 
-        m.matchId.startsWith(`r${currentRound}`) || m.matchId.startsWith(`round-${currentRound}`)
-      );
-      
-      const completedMatches = await db.query.matchCompletions.findMany({
-        where: and(
-          eq(matchCompletions.roomId, roomId),
-          eq(matchCompletions.roundNumber, currentRound)
-        ),
-      });
-      
-      const roundComplete = completedMatches.length >= currentRoundMatches.length;
-      console.log(`[PICK] Round complete: ${roundComplete} (${completedMatches.length}/${currentRoundMatches.length})`);
-
-      if (roundComplete) {
-        console.log(`[PICK] Round ${currentRound} complete, advancing...`);
-        // Advance to next round using TournamentEngine
-        const advanceResult = await TournamentEngine.advanceTournamentRound(roomId);
-        
-        if (!advanceResult.success) {
-          throw new Error(advanceResult.error || 'Failed to advance round');
-        }
-        
-        if (advanceResult.isFinalRound && advanceResult.newMatches) {
-          state.screen = 'final';
-          const finalMatch = advanceResult.newMatches[0];
-          state.data.tournament!.matches = [finalMatch];
-          state.data.tournament!.currentMatch = {
-            matchId: finalMatch.matchId,
-            movieA: {
-              id: finalMatch.movieA.id,
-              title: finalMatch.movieA.title,
-              posterPath: finalMatch.movieA.posterPath,
-            },
-            movieB: {
-              id: finalMatch.movieB.id,
-              title: finalMatch.movieB.title,
-              posterPath: finalMatch.movieB.posterPath,
-            },
-          };
-          state.data.tournament!.progress.currentRound += 1;
-          state.data.tournament!.progress.userPicks = 0;
-          state.data.tournament!.progress.totalPicks = 1;
-        } else if (advanceResult.isComplete && advanceResult.winner) {
-          state.screen = 'winner';
-          state.data.winner = {
-            movie: advanceResult.winner,
-            addedToWatchlists: true,
-          };
-          
-          // Update room status
-          await db
-            .update(rooms)
-            .set({
-              status: 'completed',
-              completedAt: new Date(),
-              winnerMovieId: advanceResult.winner.id,
-              winnerTitle: advanceResult.winner.title,
-              winnerPosterPath: advanceResult.winner.posterPath,
-            })
-            .where(eq(rooms.id, roomId));
-        } else if (advanceResult.newMatches) {
-          // Update tournament data for next round
-          state.data.tournament!.progress.currentRound += 1;
-          state.data.tournament!.progress.userPicks = 0;
-          state.data.tournament!.progress.totalPicks = advanceResult.newMatches.length;
-          
-          // Replace matches with new round matches
-          state.data.tournament!.matches = advanceResult.newMatches.map(m => ({
-            matchId: m.matchId,
-            movieA: {
-              id: m.movieA.id,
-              title: m.movieA.title,
-              posterPath: m.movieA.posterPath,
-            },
-            movieB: {
-              id: m.movieB.id,
-              title: m.movieB.title,
-              posterPath: m.movieB.posterPath,
-            },
-          }));
-          
-          // Set current match to first match of new round
-          if (advanceResult.newMatches.length > 0) {
-            const firstMatch = advanceResult.newMatches[0];
-            state.data.tournament!.currentMatch = {
-              matchId: firstMatch.matchId,
-              movieA: {
-                id: firstMatch.movieA.id,
-                title: firstMatch.movieA.title,
-                posterPath: firstMatch.movieA.posterPath,
-              },
-              movieB: {
-                id: firstMatch.movieB.id,
-                title: firstMatch.movieB.title,
-                posterPath: firstMatch.movieB.posterPath,
-              },
-            };
-          }
-          
-          console.log(`[PICK] Advanced to round ${state.data.tournament!.progress.currentRound} with ${advanceResult.newMatches.length} matches`);
-        }
-      }
+        pickId: inserted[0].id,
+        picks: [{ movieAId, movieBId, selectedMovieId, responseTimeMs: payload.responseTimeMs, autoPicked }],
+        priority: 'normal',
+      }));
     }
 
     // Rebuild state from database to ensure consistency
-    const freshState = await this.stateManager.loadFromDB(roomId);
+    const freshState = await this.stateManager.loadFromDB(roomId, tx);
     console.log(`[PICK] Loaded fresh state from DB:`, {
       screen: freshState.screen,
       hasTournament: !!freshState.data.tournament,
@@ -478,65 +747,598 @@ export class ActionProcessorV2 {
     if (state.screen === 'final' || state.screen === 'winner') {
       freshState.screen = state.screen;
       freshState.data = { ...freshState.data, ...state.data };
-    } else if (state.screen === 'bracket' && freshState.screen !== 'bracket') {
+    } else if (roundAdvanced || (state.screen === 'bracket' && freshState.screen !== 'bracket')) {
       freshState.screen = 'bracket';
       if (state.data.tournament) {
         freshState.data.tournament = state.data.tournament;
       }
     }
 
+    // Everyone picks this match again, this time seeing how the others voted
+    const replayed = freshState.data.tournament?.matches?.find(m => m.matchId === matchId);
+    if (split && replayed) {
+      replayed.split = split;
+      replayed.replayStartedAt ??= state.data.tournament?.matches?.find(m => m.matchId === matchId)?.replayStartedAt;
+    }
+
     console.log(`[PICK] Returning state with screen: ${freshState.screen}`);
     return freshState;
   }
 
+  // Every active participant votes on every match
+  private getVoterIds(state: RoomState): string[] {
+    return getPlayers(state.data.room.participants).map(p => p.userId);
+  }
+
+  // Completes a fully voted match, unless the room replays split votes and this one hasn't been replayed yet
+  private async settleMatch(
+    tx: DbTransaction,
+    stage: StageEffect,
+    roomId: string,
+    matchId: string,
+    picks: MatchVote[],
+    state: RoomState
+  ): Promise<{ roundAdvanced: boolean; split: MatchVote[] | null }> {
+    const split = await this.startRematchIfSplit(tx, stage, roomId, matchId, picks, state);
+    if (split) {
+      return { roundAdvanced: false, split };
+    }
+    return { roundAdvanced: await this.completeMatch(tx, roomId, matchId, state), split: null };
+  }
+
+  // Under the 'rematch' tie-break a split match is replayed once: the picks are cleared so everyone
+  // chooses again, and the split is kept with the tournament so it can be shown
+  private async startRematchIfSplit(
+    tx: DbTransaction,
+    stage: StageEffect,
+    roomId: string,
+    matchId: string,
+    picks: MatchVote[],
+    state: RoomState
+  ): Promise<MatchVote[] | null> {
+    const room = await tx.query.rooms.findFirst({
+      where: eq(rooms.id, roomId),
+    });
+    const settings = normalizeRoomSettings(room?.settings);
+    const tournament = room?.tournamentData as Tournament | null;
+
+    if (settings.tieBreak !== 'rematch' || !tournament || tournament.rematches?.[matchId]) {
+      return null;
+    }
+
+    const match = tournament.matches.find(m => m.matchId === matchId);
+    const voterIds = this.getVoterIds(state);
+    const votes = picks
+      .filter(p => voterIds.includes(p.userId))
+      .map(p => ({ userId: p.userId, selectedMovieId: p.selectedMovieId, ...(p.autoPicked ? { autoPicked: true } : {}) }));
+
+    if (!match || !isUndecided(match.movieA, match.movieB, votes, { rule: settings.votingRule, voterCount: voterIds.length })) {
+      return null;
+    }
+
+    console.log(`[PICK] Match ${matchId} is split, replaying it`);
+    // Everyone gets a fresh pick timer for the replay; the round's other matches keep theirs
+    const replayStartedAt = new Date().toISOString();
+    await tx
+      .update(rooms)
+      .set({
+        tournamentData: {
+          ...tournament,
+          rematches: { ...tournament.rematches, [matchId]: votes },
+          rematchStartedAt: { ...tournament.rematchStartedAt, [matchId]: replayStartedAt },
+        },
+      })
+      .where(eq(rooms.id, roomId));
+    const replayed = state.data.tournament?.matches?.find(m => m.matchId === matchId);
+    if (replayed) {
+      replayed.replayStartedAt = replayStartedAt;
+    }
+
+    // Only the replayed picks train ratings: the split ones come back out, like an undo, whether or
+    // not their jobs already ran
+    const splitPicks = await tx
+      .select({ id: bracketPicks.id, userId: bracketPicks.userId })
+      .from(bracketPicks)
+      .where(and(
+        eq(bracketPicks.roomId, roomId),
+        eq(bracketPicks.matchId, matchId)
+      ));
+    for (const pick of splitPicks) {
+      await EloBatchProcessor.revertPick(tx, pick.id, pick.userId);
+    }
+    stage(() => EloBatchProcessor.cancelJobs(roomId, matchId));
+
+    await tx
+      .delete(bracketPicks)
+      .where(and(
+        eq(bracketPicks.roomId, roomId),
+        eq(bracketPicks.matchId, matchId)
+      ));
+
+    await tx.execute(sql`
+      UPDATE room_participants 
+      SET 
+        completed_matches = array_remove(completed_matches, ${matchId}),
+        current_match_index = GREATEST(current_match_index - 1, 0)
+      WHERE room_id = ${roomId} AND ${matchId} = ANY(completed_matches)
+    `);
+
+    await tx.insert(roomHistory).values({
+      roomId,
+      eventType: 'match_rematch',
+      eventData: { matchId, picks: votes },
+    });
+
+    return votes;
+  }
+
+  private async completeMatch(
+    tx: DbTransaction,
+    roomId: string,
+    matchId: string,
+    state: RoomState
+  ): Promise<boolean> {
+    console.log(`[PICK] Match complete, recording completion`);
+    // Record match completion
+    await tx.insert(matchCompletions).values({
+      roomId,
+      matchId,
+      roundNumber: state.data.tournament!.progress.currentRound,
+    });
+    // Decided now, not when the rest of the round is
+    await TournamentEngine.resolveMatch(roomId, matchId, tx);
+
+    // Check if round is complete by counting completed matches (state only holds the current round)
+    const currentRound = state.data.tournament!.progress.currentRound;
+    const currentRoundMatches = state.data.tournament!.matches ?? [];
+    
+    const completedMatches = await tx.query.matchCompletions.findMany({
+      where: and(
+        eq(matchCompletions.roomId, roomId),
+        eq(matchCompletions.roundNumber, currentRound)
+      ),
+    });
+    
+    const roundComplete = completedMatches.length >= currentRoundMatches.length;
+    console.log(`[PICK] Round complete: ${roundComplete} (${completedMatches.length}/${currentRoundMatches.length})`);
+
+    if (roundComplete) {
+      console.log(`[PICK] Round ${currentRound} complete, advancing...`);
+      // Advance to next round using TournamentEngine
+      const advanceResult = await TournamentEngine.advanceTournamentRound(roomId, tx);
+      
+      if (!advanceResult.success) {
+        throw new Error(advanceResult.error || 'Failed to advance round');
+      }
+      
+      // Record how each match was settled before the round's matches are replaced
+      if (advanceResult.resolutions) {
+        state.data.tournament!.results = [
+          ...(state.data.tournament!.results ?? []),
+          ...toResultsView(currentRoundMatches, advanceResult.resolutions),
+        ];
+      }
+      
+      if (advanceResult.roundStartedAt) {
+        state.data.tournament!.roundStartedAt = advanceResult.roundStartedAt;
+      }
+      if (advanceResult.doubleElimination) {
+        state.data.tournament!.brackets = toBracketsView(advanceResult.doubleElimination);
+      }
+      if (advanceResult.swiss) {
+        state.data.tournament!.standings = toStandingsView(advanceResult.swiss);
+      }
+      if (advanceResult.totalRounds) {
+        state.data.tournament!.progress.totalRounds = advanceResult.totalRounds;
+      }
+
+      if (advanceResult.isFinalRound && advanceResult.newMatches) {
+        state.screen = 'final';
+        const finalMatch = toStateMatch(advanceResult.newMatches[0]);
+        state.data.tournament!.matches = [finalMatch];
+        state.data.tournament!.byes = undefined;
+        state.data.tournament!.currentMatch = finalMatch;
+        state.data.tournament!.progress.currentRound += 1;
+        state.data.tournament!.progress.userPicks = 0;
+        state.data.tournament!.progress.totalPicks = 1;
+      } else if (advanceResult.isComplete && advanceResult.winner) {
+        state.screen = 'winner';
+        state.data.winner = {
+          movie: advanceResult.winner,
+          addedToWatchlists: true,
+        };
+        
+        // Update room status
+        await tx
+          .update(rooms)
+          .set({
+            status: 'completed',
+            completedAt: new Date(),
+            winnerMovieId: advanceResult.winner.id,
+            winnerTitle: advanceResult.winner.title,
+            winnerPosterPath: advanceResult.winner.posterPath,
+          })
+          .where(eq(rooms.id, roomId));
+      } else if (advanceResult.newMatches) {
+        // Update tournament data for next round
+        state.data.tournament!.progress.currentRound += 1;
+        state.data.tournament!.progress.userPicks = 0;
+        state.data.tournament!.progress.totalPicks = advanceResult.newMatches.length;
+        
+        // Replace matches with new round matches (only Swiss has byes after round 1)
+        state.data.tournament!.byes = advanceResult.byes?.map(b => toStateMovie(b.movie));
+        state.data.tournament!.matches = advanceResult.newMatches.map(toStateMatch);
+        
+        // Set current match to first match of new round
+        if (advanceResult.newMatches.length > 0) {
+          state.data.tournament!.currentMatch = toStateMatch(advanceResult.newMatches[0]);
+        }
+        
+        console.log(`[PICK] Advanced to round ${state.data.tournament!.progress.currentRound} with ${advanceResult.newMatches.length} matches`);
+      }
+    }
+
+    return roundComplete;
+  }
+
+  // Resolve matches that were only waiting on a participant who has since left
+  private async completeReadyMatches(tx: DbTransaction, stage: StageEffect, roomId: string, state: RoomState): Promise<void> {
+    const currentRound = state.data.tournament?.progress.currentRound;
+    const pending = state.data.tournament?.matches ?? [];
+    const voterIds = this.getVoterIds(state);
+
+    const completed = await tx.query.matchCompletions.findMany({
+      where: eq(matchCompletions.roomId, roomId),
+    });
+    const completedIds = new Set(completed.map(c => c.matchId));
+
+    for (const match of pending) {
+      if (completedIds.has(match.matchId)) continue;
+
+      const picks = await tx.query.bracketPicks.findMany({
+        where: and(
+          eq(bracketPicks.roomId, roomId),
+          eq(bracketPicks.matchId, match.matchId)
+        ),
+      });
+
+      if (hasAllVotes(picks, voterIds)) {
+        const { split } = await this.settleMatch(tx, stage, roomId, match.matchId, picks, state);
+        if (split) {
+          match.split = split;
+        }
+      }
+
+      // Stop once the round has moved on; the new matches have no picks yet
+      if (state.data.tournament?.progress.currentRound !== currentRound || state.screen === 'winner') {
+        break;
+      }
+    }
+  }
+
+  // Takes back the user's latest pick; only offered while its match is still open
+  private async handleUndoAction(
+    tx: DbTransaction,
+    stage: StageEffect,
+    roomId: string,
+    userId: string
+  ): Promise<RoomState> {
+    const pick = await this.stateManager.getUndoablePick(roomId, userId, tx);
+    if (!pick) {
+      throw new Error('No pick to undo');
+    }
+
+    // If the batch processor already trained on the pick, its rating change comes out with it
+    await EloBatchProcessor.revertPick(tx, pick.id, userId);
+    await tx
+      .delete(bracketPicks)
+      .where(eq(bracketPicks.id, pick.id));
+
+    await tx.execute(sql`
+      UPDATE room_participants 
+      SET 
+        completed_matches = array_remove(completed_matches, ${pick.matchId}),
+        current_match_index = GREATEST(current_match_index - 1, 0)
+      WHERE room_id = ${roomId} AND user_id = ${userId}
+    `);
+
+    stage(() => EloBatchProcessor.cancelJobs(roomId, pick.matchId, userId));
+
+    await tx.insert(roomHistory).values({
+      roomId,
+      eventType: 'pick_undone',
+      eventData: { userId, matchId: pick.matchId },
+    });
+
+    console.log(`[UNDO] User ${userId} undid their pick for match ${pick.matchId}`);
+
+    // Picks are per user, so the shared state is unchanged; each client re-personalizes
+    return this.stateManager.loadFromDB(roomId, tx);
+  }
+
+  // Stops the room deadline and pick timers until someone resumes
+  private async handlePauseAction(tx: DbTransaction, roomId: string, userId: string): Promise<RoomState> {
+    const now = new Date();
+    const [paused] = await tx
+      .update(rooms)
+      .set({ pausedAt: now })
+      .where(and(eq(rooms.id, roomId), isNull(rooms.pausedAt)))
+      .returning({ id: rooms.id });
+
+    if (!paused) {
+      throw new Error('Room is already paused');
+    }
+
+    await tx.insert(roomHistory).values({
+      roomId,
+      eventType: 'room_paused',
+      eventData: { userId },
+    });
+
+    console.log(`[PAUSE] User ${userId} paused room ${roomId}`);
+
+    // The shared state, not this user's view of it, decides where everyone returns to
+    const state = await this.stateManager.loadFromDB(roomId, tx);
+    state.data.room.paused = { at: now.toISOString(), by: userId, screen: state.screen };
+    state.screen = 'paused';
+    return state;
+  }
+
+  private async handleResumeAction(tx: DbTransaction, roomId: string, userId: string): Promise<RoomState> {
+    const [room] = await tx
+      .select({ pausedAt: rooms.pausedAt, expiresAt: rooms.expiresAt, tournamentData: rooms.tournamentData })
+      .from(rooms)
+      .where(eq(rooms.id, roomId))
+      .limit(1);
+
+    if (!room?.pausedAt) {
+      throw new Error('Room is not paused');
+    }
+
+    // The room deadline moves back by the pause; pick timers read the pause window
+    const now = new Date();
+    const expiresAt = room.expiresAt ? resumeDeadline(room.expiresAt, room.pausedAt, now) : null;
+    const tournament = room.tournamentData as Tournament | null;
+    const pauses = [...(tournament?.pauses ?? []), { from: room.pausedAt.toISOString(), to: now.toISOString() }];
+
+    await tx
+      .update(rooms)
+      .set({
+        pausedAt: null,
+        expiresAt,
+        ...(tournament ? { tournamentData: { ...tournament, pauses } } : {}),
+      })
+      .where(eq(rooms.id, roomId));
+
+    await tx.insert(roomHistory).values({
+      roomId,
+      eventType: 'room_resumed',
+      eventData: { userId, pausedMs: now.getTime() - room.pausedAt.getTime() },
+    });
+
+    console.log(`[PAUSE] User ${userId} resumed room ${roomId}`);
+
+    const state = await this.stateManager.loadFromDB(roomId, tx);
+    state.screen = state.data.room.paused?.screen ?? 'bracket';
+    state.data.room.paused = undefined;
+    state.data.room.expiresAt = expiresAt?.toISOString();
+    if (state.data.tournament) {
+      state.data.tournament.pauses = pauses;
+    }
+    return state;
+  }
+
+  // "Run it back": a new room with the same settings and everyone still here already joined
+  private async handleRematchAction(
+    tx: DbTransaction,
+    roomId: string,
+    userId: string,
+    payload?: { excludeFinalists?: boolean }
+  ): Promise<RoomState> {
+    const [room] = await tx
+      .select({
+        status: rooms.status,
+        ownerId: rooms.ownerId,
+        settings: rooms.settings,
+        tournamentData: rooms.tournamentData,
+        winnerMovieId: rooms.winnerMovieId,
+      })
+      .from(rooms)
+      .where(eq(rooms.id, roomId))
+      .limit(1);
+
+    if (room?.status !== 'completed') {
+      throw new Error('Only finished rooms can be rematched');
+    }
+
+    const participants = await tx
+      .select({ userId: roomParticipants.userId, role: roomParticipants.role })
+      .from(roomParticipants)
+      .where(and(
+        eq(roomParticipants.roomId, roomId),
+        eq(roomParticipants.isActive, true)
+      ));
+
+    const settings = normalizeRoomSettings(room.settings);
+    if (payload?.excludeFinalists) {
+      const tournament = room.tournamentData as Tournament | null;
+      settings.excludedMovieIds = mergeExclusions(
+        settings.excludedMovieIds,
+        getFinalistIds(tournament?.matches ?? [], room.winnerMovieId)
+      );
+    }
+
+    const rematch = await RoomFactory.create({
+      ownerId: room.ownerId,
+      settings,
+      participantIds: participants.filter(p => p.role !== 'spectator').map(p => p.userId),
+      spectatorIds: participants.filter(p => p.role === 'spectator').map(p => p.userId),
+      rematchOf: roomId,
+    }, tx);
+
+    const lobby = await this.stateManager.loadFromDB(rematch.id, tx);
+    await this.stateManager.writeState(tx, rematch.id, lobby, userId, { eventType: 'room_created' });
+
+    await tx.insert(roomHistory).values({
+      roomId,
+      eventType: 'room_rematch',
+      eventData: { userId, rematchRoomId: rematch.id, excludedMovieIds: settings.excludedMovieIds },
+    });
+
+    console.log(`[REMATCH] Room ${roomId} continues in ${rematch.code}`);
+
+    // Connected clients pick this up over the stream and move to the new room
+    const state = await this.stateManager.loadFromDB(roomId, tx);
+    state.data.rematch = { roomCode: rematch.code };
+    return state;
+  }
+
+  // With disconnectedBefore (from the sweeper) the user only leaves if their stream is still quiet,
+  // and is marked as dropped so they can take their seat back
   private async handleLeaveAction(
+    tx: DbTransaction,
+    stage: StageEffect,
     roomId: string,
     userId: string,
-    state: RoomState
+    state: RoomState,
+    payload?: { disconnectedBefore?: string }
   ): Promise<RoomState> {
+    const disconnectedBefore = payload?.disconnectedBefore ? new Date(payload.disconnectedBefore) : null;
+    const isSpectator = !!state.data.room.participants.find(p => p.userId === userId)?.isSpectator;
+    const now = new Date();
+
     // Update participant status in database
-    await db
+    const [left] = await tx
       .update(roomParticipants)
       .set({
         isActive: false,
-        leftAt: new Date(),
+        leftAt: now,
+        ...(disconnectedBefore && !isSpectator ? { droppedAt: now } : {}),
       })
       .where(and(
         eq(roomParticipants.roomId, roomId),
-        eq(roomParticipants.userId, userId)
-      ));
+        eq(roomParticipants.userId, userId),
+        disconnectedBefore ? lt(roomParticipants.lastSeenAt, disconnectedBefore) : undefined
+      ))
+      .returning({ id: roomParticipants.id });
+
+    if (!left) {
+      throw new Error('Participant reconnected');
+    }
+
+    // A spectator leaving changes nothing but the participant list
+    if (isSpectator) {
+      return this.stateManager.refreshParticipants(roomId, tx);
+    }
 
     // Rebuild state from database to ensure consistency
-    const freshState = await this.stateManager.rebuildFromParticipants(roomId);
+    const freshState = await this.stateManager.rebuildFromParticipants(roomId, tx);
 
-    // Check active participant count from fresh state
-    const activeCount = freshState.data.room.participants.filter(p => p.isActive).length;
-    
-    // Check if room should be abandoned
-    if (activeCount === 0 || (freshState.screen !== 'lobby' && activeCount < 2)) {
+    // Spectators alone can't keep a room going. Players dropped for losing their connection still hold
+    // their seat, so the room waits for them rather than dying while they could come back.
+    const outcome = planAfterLeave(freshState.data.room.participants, freshState.screen !== 'lobby');
+
+    if (outcome === 'abandon') {
       freshState.screen = 'error';
       freshState.error = 'Tournament abandoned';
       
       // Update room status
-      await db
+      await tx
         .update(rooms)
         .set({
           status: 'abandoned',
           closedAt: new Date(),
         })
         .where(eq(rooms.id, roomId));
+    } else if (outcome === 'await-reconnect') {
+      return this.pauseForReconnect(tx, roomId, userId, freshState);
+    } else if (freshState.screen === 'bracket') {
+      // Enough participants remain: carry the tournament on without the leaver
+      const storedState = await this.stateManager.loadFromDB(roomId, tx);
+      freshState.screen = storedState.screen;
+      freshState.data.tournament = storedState.data.tournament;
+      freshState.data.veto = storedState.data.veto;
+
+      if (freshState.screen === 'veto') {
+        // The leaver may have been the last one still vetoing
+        const [room] = await tx
+          .select({ tournamentData: rooms.tournamentData })
+          .from(rooms)
+          .where(eq(rooms.id, roomId))
+          .limit(1);
+        return this.finishVetoPhaseIfReady(tx, roomId, freshState, room!.tournamentData as Tournament);
+      }
+
+      await this.completeReadyMatches(tx, stage, roomId, freshState);
     }
 
     return freshState;
   }
 
+  // Holds the clocks the way a pause does until a dropped player reclaims their seat (see the join route).
+  // If nobody comes back the sweeper closes the room once the pause runs past MAX_PAUSE_MS.
+  private async pauseForReconnect(
+    tx: DbTransaction,
+    roomId: string,
+    userId: string,
+    freshState: RoomState
+  ): Promise<RoomState> {
+    const now = new Date();
+    const [paused] = await tx
+      .update(rooms)
+      .set({ pausedAt: now })
+      .where(and(eq(rooms.id, roomId), isNull(rooms.pausedAt)))
+      .returning({ id: rooms.id });
+
+    const state = await this.stateManager.loadFromDB(roomId, tx);
+    state.data.room.participants = freshState.data.room.participants;
+    if (!paused) {
+      // Already paused; resuming is held back until enough players are here
+      return state;
+    }
+
+    await tx.insert(roomHistory).values({
+      roomId,
+      eventType: 'room_paused',
+      eventData: { userId, reason: 'disconnected' },
+    });
+
+    console.log(`[PAUSE] Room ${roomId} waits for ${userId} to reconnect`);
+
+    state.data.room.paused = { at: now.toISOString(), screen: state.screen, reason: 'disconnected' };
+    state.screen = 'paused';
+    return state;
+  }
+
   private async handleExtendAction(
+    tx: DbTransaction,
     roomId: string,
     userId: string,
     state: RoomState
   ): Promise<RoomState> {
-    // Just update room timeout in state
-    state.data.room.timeRemaining = 30 * 60; // Reset to 30 minutes
+    const [room] = await tx
+      .select({ expiresAt: rooms.expiresAt, extensionCount: rooms.extensionCount })
+      .from(rooms)
+      .where(eq(rooms.id, roomId))
+      .limit(1);
+
+    const now = new Date();
+    const extended = extendDeadline(room?.expiresAt, room?.extensionCount ?? 0, now);
+    if (!extended.valid) {
+      throw new Error(extended.error);
+    }
+
+    const extensionCount = (room?.extensionCount ?? 0) + 1;
+    await tx
+      .update(rooms)
+      .set({ expiresAt: extended.expiresAt, extensionCount })
+      .where(eq(rooms.id, roomId));
+
+    console.log(`[EXTEND] User ${userId} extended room ${roomId} to ${extended.expiresAt!.toISOString()}`);
+
+    state.data.room.expiresAt = extended.expiresAt!.toISOString();
+    state.data.room.timeRemaining = getSecondsRemaining(extended.expiresAt, now);
+    state.data.room.extensionsRemaining = getExtensionsRemaining(extensionCount);
 
     return state;
   }
@@ -265,10 +265,7 @@ export class ActionProcessor {
     const [userA, userB] = participants;
 
     // Generate tournament
-    const tournament = await TournamentEngine.generateTournament(
-      userA.userId,
-      userB.userId
-    );
+    const tournament = await TournamentEngine.generateTournament([userA.userId, userB.userId]);
 
     // Update room status and store tournament data
     await db
@@ -1,8 +1,11 @@
 import { db } from '@/db'
 import { userMovieElo, bracketPicks } from '@/db/schema'
 import { eq, and, sql } from 'drizzle-orm'
-import { updateElo, calculateKFactor } from '@/lib/elo'
+import { updateElo, calculateKFactor, getPickOutcome } from '@/lib/elo'
 import { TournamentMetrics } from '@/lib/monitoring/tournament-metrics'
+import type { DbExecutor, DbTransaction } from '@/lib/db/room-leases'
+import { EloChange, EloStats, getEloChanges, revertEloChange } from '@/lib/utils/elo-undo'
+import { EloJobPriority, dropMatchJobs, enqueueJob } from '@/lib/utils/elo-queue'
 
 interface EloBatchUpdate {
   userId: string;
@@ -13,17 +16,22 @@ interface EloBatchUpdate {
   losses: number;
 }
 
+interface EloPick {
+  movieAId: number;
+  movieBId: number;
+  selectedMovieId: number;
+  responseTimeMs?: number;
+  autoPicked?: boolean; // made by the server when a pick timer ran out
+}
+
 interface EloProcessingJob {
   id: string;
   roomId: string;
   userId: string;
-  picks: Array<{
-    movieAId: number;
-    movieBId: number;
-    selectedMovieId: number;
-    responseTimeMs?: number;
-  }>;
-  priority: 'low' | 'normal' | 'high';
+  matchId?: string; // set for single-pick jobs from Decided rooms, so an undone pick can be taken back
+  pickId?: string; // the pick's row; a job whose pick was undone or replayed since finds nothing to train
+  picks: EloPick[];
+  priority: EloJobPriority;
   createdAt: Date;
 }
 
@@ -60,20 +68,24 @@ export class EloBatchProcessor {
     };
 
     // Insert based on priority (high priority first)
-    const priorityOrder = { high: 0, normal: 1, low: 2 };
-    const insertIndex = this.processingQueue.findIndex(
-      queuedJob => priorityOrder[queuedJob.priority] > priorityOrder[fullJob.priority]
-    );
-
-    if (insertIndex === -1) {
-      this.processingQueue.push(fullJob);
-    } else {
-      this.processingQueue.splice(insertIndex, 0, fullJob);
-    }
+    this.processingQueue = enqueueJob(this.processingQueue, fullJob);
 
     console.log(`Added ELO job ${fullJob.id} with priority ${fullJob.priority}. Queue size: ${this.processingQueue.length}`);
   }
 
+  // Drops queued jobs for picks that were undone (the user's) or replayed (everyone's, with no user
+  // given); returns how many were dropped. Jobs that already ran are reverted with revertPick.
+  static cancelJobs(roomId: string, matchId: string, userId?: string): number {
+    const before = this.processingQueue.length;
+    this.processingQueue = dropMatchJobs(this.processingQueue, roomId, matchId, userId);
+
+    const cancelled = before - this.processingQueue.length;
+    if (cancelled > 0) {
+      console.log(`Cancelled ${cancelled} ELO jobs for match ${matchId}. Queue size: ${this.processingQueue.length}`);
+    }
+    return cancelled;
+  }
+
   static async processQueue(): Promise<void> {
     if (this.isProcessing || this.processingQueue.length === 0) {
       return;
@@ -112,21 +124,62 @@ export class EloBatchProcessor {
   }
 
   private static async processJob(job: EloProcessingJob): Promise<void> {
+    // Auto picks say nothing about the user's taste, so they never train ratings
+    const picks = job.picks.filter(pick => !pick.autoPicked);
+    if (picks.length === 0) {
+      return;
+    }
+
+    if (!job.matchId) {
+      await this.applyPicks(db, job.userId, picks);
+      return;
+    }
+
+    // A Decided pick is trained with its row locked: an undo either waits and finds the change
+    // recorded, or has already deleted the pick and the job does nothing
+    await db.transaction(async (tx) => {
+      const [pick] = await tx
+        .select({ id: bracketPicks.id })
+        .from(bracketPicks)
+        .where(job.pickId
+          ? eq(bracketPicks.id, job.pickId)
+          : and(
+            eq(bracketPicks.roomId, job.roomId),
+            eq(bracketPicks.userId, job.userId),
+            eq(bracketPicks.matchId, job.matchId!)
+          ))
+        .for('update');
+
+      if (!pick) {
+        console.log(`Skipping ELO job ${job.id}: the pick for match ${job.matchId} was undone`);
+        return;
+      }
+
+      const changes = await this.applyPicks(tx, job.userId, picks);
+      await tx
+        .update(bracketPicks)
+        .set({ eloChanges: changes })
+        .where(eq(bracketPicks.id, pick.id));
+    });
+  }
+
+  // Trains the user's ratings on the picks and returns what changed for each movie
+  private static async applyPicks(executor: DbExecutor, userId: string, picks: EloPick[]): Promise<EloChange[]> {
     const updates: EloBatchUpdate[] = [];
 
     // Get current ELO ratings for all movies involved
     const movieIds = new Set<number>();
-    job.picks.forEach(pick => {
+    picks.forEach(pick => {
       movieIds.add(pick.movieAId);
       movieIds.add(pick.movieBId);
     });
 
-    const currentRatings = await db
+    const currentRatings = await executor
       .select()
       .from(userMovieElo)
       .where(
         and(
-          eq(userMovieElo.userId, job.userId),
+          eq(userMovieElo.userId, userId),
           sql`${userMovieElo.movieId} = ANY(${Array.from(movieIds)})`
         )
       );
@@ -134,17 +187,16 @@ export class EloBatchProcessor {
     const ratingMap = new Map(
       currentRatings.map(rating => [rating.movieId, rating])
     );
+    const before = new Map(currentRatings.map(rating => [rating.movieId, this.toStats(rating)]));
 
     // Process each pick
-    for (const pick of job.picks) {
-      const movieARating = ratingMap.get(pick.movieAId);
-      const movieBRating = ratingMap.get(pick.movieBId);
+    for (const pick of picks) {
+      const { selectedMovieId, rejectedMovieId } = getPickOutcome(pick);
 
-      const ratingA = movieARating?.eloRating || 1200;
-      const ratingB = movieBRating?.eloRating || 1200;
+      const ratingSelected = ratingMap.get(selectedMovieId)?.eloRating || 1200;
+      const ratingRejected = ratingMap.get(rejectedMovieId)?.eloRating || 1200;
 
-      const result = pick.selectedMovieId === pick.movieAId ? 1 : 0;
-      const eloUpdates = updateElo(job.userId, pick.movieAId, pick.movieBId, ratingA, ratingB);
+      const eloUpdates = updateElo(userId, selectedMovieId, rejectedMovieId, ratingSelected, ratingRejected);
 
       // Convert to batch updates
       eloUpdates.forEach(update => {
@@ -175,11 +227,62 @@ export class EloBatchProcessor {
 
     // Batch update to database
     if (updates.length > 0) {
-      await this.batchUpdateEloRatings(updates);
+      await this.batchUpdateEloRatings(executor, updates);
+    }
+
+    return getEloChanges(before, Array.from(movieIds)
+      .filter(movieId => updates.some(update => update.movieId === movieId))
+      .map(movieId => ({ movieId, ...this.toStats(ratingMap.get(movieId)!) })));
+  }
+
+  private static toStats(rating: typeof userMovieElo.$inferSelect): EloStats {
+    return {
+      eloRating: rating.eloRating ?? 1200,
+      matchesPlayed: rating.matchesPlayed ?? 0,
+      wins: rating.wins ?? 0,
+      losses: rating.losses ?? 0,
+    };
+  }
+
+  // Takes an undone or replayed pick back out of the user's ratings, if its job already ran. Call it in the
+  // transaction that deletes the pick, so a job still waiting on the pick's row then finds it gone.
+  static async revertPick(tx: DbTransaction, pickId: string, userId: string): Promise<boolean> {
+    const [pick] = await tx
+      .select({ eloChanges: bracketPicks.eloChanges })
+      .from(bracketPicks)
+      .where(eq(bracketPicks.id, pickId))
+      .for('update');
+
+    const changes = pick?.eloChanges as EloChange[] | null | undefined;
+    if (!changes?.length) {
+      return false;
+    }
+
+    for (const change of changes) {
+      const [current] = await tx
+        .select()
+        .from(userMovieElo)
+        .where(and(
+          eq(userMovieElo.userId, userId),
+          eq(userMovieElo.movieId, change.movieId)
+        ))
+        .for('update');
+      if (!current) {
+        continue;
+      }
+
+      const reverted = revertEloChange(this.toStats(current), change);
+      await tx
+        .update(userMovieElo)
+        .set({ ...reverted, lastUpdated: new Date() })
+        .where(eq(userMovieElo.id, current.id));
     }
+
+    console.log(`Reverted ELO changes on ${changes.length} movies for undone pick ${pickId}`);
+    return true;
   }
 
-  private static async batchUpdateEloRatings(updates: EloBatchUpdate[]): Promise<void> {
+  private static async batchUpdateEloRatings(executor: DbExecutor, updates: EloBatchUpdate[]): Promise<void> {
     // Group updates by movie to avoid conflicts
     const updateMap = new Map<string, EloBatchUpdate>();
     
@@ -192,7 +295,7 @@ export class EloBatchProcessor {
     const finalUpdates = Array.from(updateMap.values());
 
     for (const update of finalUpdates) {
-      await db.insert(userMovieElo)
+      await executor.insert(userMovieElo)
         .values({
           userId: update.userId,
           movieId: update.movieId,
@@ -0,0 +1,95 @@
+import { db } from '@/db';
+import { rooms, roomParticipants } from '@/db/schema';
+import { and, eq, isNull, sql } from 'drizzle-orm';
+import { RoomStateManager } from './room-state-manager';
+import { ActionProcessorV2 } from './action-processor-v2';
+
+export class PickTimer {
+  private static sweepIntervalId: NodeJS.Timeout | null = null;
+  private static isSweeping = false;
+
+  static start(intervalMs: number = 5000): void {
+    if (this.sweepIntervalId) {
+      this.stop();
+    }
+
+    this.sweepIntervalId = setInterval(async () => {
+      await this.sweep();
+    }, intervalMs);
+
+    console.log('[PICK_TIMER] Started');
+  }
+
+  static stop(): void {
+    if (this.sweepIntervalId) {
+      clearInterval(this.sweepIntervalId);
+      this.sweepIntervalId = null;
+    }
+    console.log('[PICK_TIMER] Stopped');
+  }
+
+  // Auto-picks for every participant whose pick deadline has passed; returns how many picks were made
+  static async sweep(now: Date = new Date()): Promise<number> {
+    if (this.isSweeping) {
+      return 0;
+    }
+
+    this.isSweeping = true;
+    try {
+      const timed = await db
+        .select({ id: rooms.id, code: rooms.code })
+        .from(rooms)
+        .where(and(
+          eq(rooms.status, 'active'),
+          isNull(rooms.pausedAt),
+          sql`coalesce((${rooms.settings}->>'pickTimeLimit')::int, 0) > 0`
+        ));
+
+      let picked = 0;
+      for (const room of timed) {
+        try {
+          picked += await this.sweepRoom(room.id, now);
+        } catch (error) {
+          console.error(`[PICK_TIMER] Failed to auto-pick in room ${room.code}:`, error);
+        }
+      }
+
+      if (picked > 0) {
+        console.log(`[PICK_TIMER] Made ${picked} auto picks`);
+      }
+      return picked;
+    } finally {
+      this.isSweeping = false;
+    }
+  }
+
+  private static async sweepRoom(roomId: string, now: Date): Promise<number> {
+    const participants = await db
+      .select({ userId: roomParticipants.userId })
+      .from(roomParticipants)
+      .where(and(
+        eq(roomParticipants.roomId, roomId),
+        eq(roomParticipants.isActive, true),
+        eq(roomParticipants.role, 'player')
+      ));
+
+    const stateManager = RoomStateManager.getInstance();
+    const processor = ActionProcessorV2.getInstance();
+
+    let picked = 0;
+    for (const { userId } of participants) {
+      const state = await stateManager.getState(roomId, userId);
+      const deadline = state.data.tournament?.currentMatch?.deadline;
+      if (!deadline || new Date(deadline) > now) {
+        continue;
+      }
+
+      // One pick per user per sweep; the next match gets its own clock
+      const result = await processor.processTimeout(roomId, userId);
+      if (result.success) {
+        picked++;
+      }
+    }
+    return picked;
+  }
+}
@@ -0,0 +1,69 @@
+import { db } from '@/db';
+import { movieLists } from '@/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { tmdbService } from '@/lib/tmdb';
+import {
+  CandidateMovie,
+  MIN_CANDIDATES,
+  PoolRequest,
+  PoolSource,
+  normalizeCandidates,
+  parseImportedTitles,
+} from '@/lib/utils/pool-source';
+
+export interface ResolvedPool {
+  source: PoolSource;
+  candidates: CandidateMovie[]; // empty for 'watchlists'
+  unresolved: string[]; // pasted titles TMDB had no match for
+}
+
+export class PoolResolver {
+  // Turns the owner's pool choice into the movies the room will be drawn from. Expects a request that
+  // already passed validatePoolSourceRequest.
+  static async resolve(
+    ownerId: string,
+    pool: PoolRequest
+  ): Promise<{ valid: boolean; error?: string; pool?: ResolvedPool }> {
+    switch (pool.source) {
+      case 'watchlists':
+        return { valid: true, pool: { source: 'watchlists', candidates: [], unresolved: [] } };
+
+      case 'hand-picked':
+        return { valid: true, pool: { source: 'hand-picked', candidates: normalizeCandidates(pool.movies), unresolved: [] } };
+
+      case 'import': {
+        const titles = parseImportedTitles(pool.titles);
+        const results = await tmdbService.batchFindMovies(titles);
+        const candidates = normalizeCandidates(results
+          .filter(result => result.movie)
+          .map(result => ({
+            id: result.movie!.id,
+            title: result.movie!.title,
+            posterPath: result.movie!.poster_path ?? '',
+          })));
+        const unresolved = results.filter(result => !result.movie).map(result => result.title);
+
+        console.log(`[POOL] Resolved ${candidates.length} of ${titles.length} imported titles`);
+        if (candidates.length < MIN_CANDIDATES) {
+          return { valid: false, error: `Only ${candidates.length} of those titles matched a movie, need at least ${MIN_CANDIDATES}` };
+        }
+        return { valid: true, pool: { source: 'import', candidates, unresolved } };
+      }
+
+      case 'list': {
+        const list = await db.query.movieLists.findFirst({
+          where: and(eq(movieLists.id, pool.listId), eq(movieLists.userId, ownerId)),
+        });
+        if (!list) {
+          return { valid: false, error: 'List not found' };
+        }
+
+        const candidates = normalizeCandidates(list.movies);
+        if (candidates.length < MIN_CANDIDATES) {
+          return { valid: false, error: `"${list.name}" has fewer than ${MIN_CANDIDATES} movies` };
+        }
+        return { valid: true, pool: { source: 'list', candidates, unresolved: [] } };
+      }
+    }
+  }
+}
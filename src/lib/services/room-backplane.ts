@@ -0,0 +1,87 @@
+import { listenClient } from '@/db';
+import { sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import type { DbTransaction } from '@/lib/db/room-leases';
+import {
+  ListenHealth,
+  NOT_LISTENING,
+  PROBE_INTERVAL_MS,
+  ROOM_STATE_CHANNEL,
+  StateNotice,
+  encodeProbe,
+  encodeStateNotice,
+  isListenLive,
+  parseProbe,
+  parseStateNotice,
+  receiveProbe,
+  sendProbe,
+} from '@/lib/utils/backplane';
+
+// Postgres LISTEN/NOTIFY between server instances, so a save on one reaches SSE clients on all of them
+export class RoomBackplane {
+  // Identifies this process in notices, so it can skip the ones about its own saves
+  static readonly instanceId = uuidv4();
+
+  private static listening: Promise<void> | null = null;
+  private static health: ListenHealth = NOT_LISTENING;
+  private static probeTimer: ReturnType<typeof setInterval> | null = null;
+
+  // Queued with the save's transaction: Postgres only delivers it once the save commits
+  static async notify(tx: DbTransaction, roomId: string, version: number): Promise<void> {
+    const payload = encodeStateNotice({ roomId, version, origin: this.instanceId });
+    await tx.execute(sql`SELECT pg_notify(${ROOM_STATE_CHANNEL}, ${payload})`);
+  }
+
+  // Whether notices are actually arriving. Until they are, cached room states can't be trusted.
+  static isLive(): boolean {
+    return isListenLive(this.health, new Date());
+  }
+
+  // Starts listening once per process. onListen runs on every (re)connect, since notices sent while
+  // the connection was down are lost.
+  static listen(onNotice: (notice: StateNotice) => void, onListen: () => void): Promise<void> {
+    if (!this.listening) {
+      this.listening = listenClient
+        .listen(
+          ROOM_STATE_CHANNEL,
+          payload => {
+            if (parseProbe(payload) === this.instanceId) {
+              this.health = receiveProbe(new Date());
+              return;
+            }
+            const notice = parseStateNotice(payload);
+            if (notice) {
+              onNotice(notice);
+            }
+          },
+          () => {
+            console.log(`[BACKPLANE] Listening on ${ROOM_STATE_CHANNEL} as ${this.instanceId}`);
+            onListen();
+            this.probe();
+          }
+        )
+        .then(() => {
+          this.probeTimer ??= setInterval(() => this.probe(), PROBE_INTERVAL_MS);
+          this.probeTimer.unref?.();
+        })
+        .catch(error => {
+          // Try again with the next subscriber
+          console.error('[BACKPLANE] Failed to listen:', error);
+          this.listening = null;
+          this.health = NOT_LISTENING;
+        });
+    }
+    return this.listening;
+  }
+
+  // Sends this instance a notice of its own; isLive stays false until one comes back
+  private static probe(): void {
+    if (this.health.probeSentAt && !this.isLive()) {
+      console.warn('[BACKPLANE] No probe has come back; reading room states from the database');
+    }
+    this.health = sendProbe(this.health, new Date());
+    listenClient.notify(ROOM_STATE_CHANNEL, encodeProbe(this.instanceId)).catch(error => {
+      console.error('[BACKPLANE] Failed to send probe:', error);
+    });
+  }
+}
@@ -0,0 +1,47 @@
+import { db } from '@/db';
+import type { DbExecutor } from '@/lib/db/room-leases';
+import { rooms, roomParticipants } from '@/db/schema';
+import { customAlphabet } from 'nanoid';
+import { RoomSettings } from '@/lib/utils/room-settings';
+import { getInitialDeadline } from '@/lib/utils/room-deadline';
+
+const nanoid = customAlphabet('0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ', 6);
+
+type RoomRow = typeof rooms.$inferSelect;
+
+export class RoomFactory {
+  // Inserts a waiting room with its owner joined, plus anyone else who comes along (e.g. on a rematch).
+  // The caller saves the room's initial state.
+  static async create(options: {
+    ownerId: string;
+    settings: RoomSettings;
+    participantIds?: string[];
+    spectatorIds?: string[];
+    rematchOf?: string;
+    now?: Date;
+  }, executor: DbExecutor = db): Promise<RoomRow> {
+    const [room] = await executor
+      .insert(rooms)
+      .values({
+        code: nanoid(),
+        ownerId: options.ownerId,
+        status: 'waiting',
+        settings: options.settings,
+        expiresAt: getInitialDeadline(options.now ?? new Date()),
+        rematchOf: options.rematchOf,
+      })
+      .returning();
+
+    const participantIds = [options.ownerId, ...(options.participantIds ?? []).filter(id => id !== options.ownerId)];
+    const spectatorIds = (options.spectatorIds ?? []).filter(id => !participantIds.includes(id));
+    await executor
+      .insert(roomParticipants)
+      .values([
+        ...participantIds.map(userId => ({ roomId: room.id, userId, isActive: true })),
+        ...spectatorIds.map(userId => ({ roomId: room.id, userId, isActive: true, role: 'spectator' })),
+      ]);
+
+    console.log(`[ROOM_FACTORY] Created room ${room.code} with ${participantIds.length} participants${options.rematchOf ? ' (rematch)' : ''}`);
+    return room;
+  }
+}
@@ -0,0 +1,125 @@
+import { db } from '@/db';
+import { rooms, bracketPicks, matchCompletions, roomHistory, userMovieElo } from '@/db/schema';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import type { Tournament, TournamentMovie } from '../tournament-engine';
+import { Recap, buildRecap } from '@/lib/utils/recap';
+
+export interface RecapMovie {
+  id: number;
+  title: string;
+  posterPath: string;
+}
+
+export interface RoomRecapData {
+  room: {
+    id: string;
+    code: string;
+    completedAt: string | null;
+    winnerPosterPath: string | null;
+  };
+  participants: Array<{ userId: string; name: string; avatarUrl?: string; isSpectator?: boolean }>;
+  recap: Recap<RecapMovie>;
+}
+
+// Keeps the recap payload to what the page shows, not the full TMDB blob
+const toRecapMovie = (movie: TournamentMovie): RecapMovie => ({
+  id: movie.id,
+  title: movie.title,
+  posterPath: movie.posterPath,
+});
+
+export class RoomRecap {
+  // Null until the room has a winner; callers decide who gets to see it
+  static async forCode(code: string): Promise<RoomRecapData | null> {
+    const room = await db.query.rooms.findFirst({
+      where: eq(rooms.code, code),
+      with: {
+        participants: {
+          with: { user: true },
+        },
+      },
+    });
+
+    const tournament = room?.tournamentData as Tournament | null | undefined;
+    if (!room || room.status !== 'completed' || !tournament) {
+      return null;
+    }
+
+    const [picks, completions, snapshot] = await Promise.all([
+      db
+        .select({
+          matchId: bracketPicks.matchId,
+          userId: bracketPicks.userId,
+          selectedMovieId: bracketPicks.selectedMovieId,
+          responseTimeMs: bracketPicks.responseTimeMs,
+          autoPicked: bracketPicks.autoPicked,
+        })
+        .from(bracketPicks)
+        .where(eq(bracketPicks.roomId, room.id)),
+      db
+        .select({ matchId: matchCompletions.matchId, completedAt: matchCompletions.completedAt })
+        .from(matchCompletions)
+        .where(eq(matchCompletions.roomId, room.id)),
+      // Recorded when the room started; rooms from before then just show no change
+      db
+        .select({ eventData: roomHistory.eventData })
+        .from(roomHistory)
+        .where(and(eq(roomHistory.roomId, room.id), eq(roomHistory.eventType, 'elo_snapshot')))
+        .orderBy(desc(roomHistory.createdAt))
+        .limit(1),
+    ]);
+
+    const winnerId = room.winnerMovieId;
+    const voterIds = room.participants.filter(p => p.role !== 'spectator').map(p => p.userId);
+    const ratingsAfter: Record<string, Record<number, number>> = {};
+    if (winnerId !== null && voterIds.length > 0) {
+      const rows = await db
+        .select({ userId: userMovieElo.userId, eloRating: userMovieElo.eloRating })
+        .from(userMovieElo)
+        .where(and(
+          eq(userMovieElo.movieId, winnerId),
+          inArray(userMovieElo.userId, voterIds)
+        ));
+      for (const row of rows) {
+        if (row.eloRating !== null) {
+          ratingsAfter[row.userId] = { [winnerId]: row.eloRating };
+        }
+      }
+    }
+
+    const recap = buildRecap({
+      matches: tournament.matches.map(match => ({
+        matchId: match.matchId,
+        roundNumber: match.roundNumber,
+        movieA: toRecapMovie(match.movieA),
+        movieB: toRecapMovie(match.movieB),
+      })),
+      resolutions: tournament.resolutions ?? {},
+      picks,
+      completedAt: Object.fromEntries(completions
+        .filter(c => c.completedAt)
+        .map(c => [c.matchId, c.completedAt!.toISOString()])),
+      winnerId,
+      ratingsBefore: (snapshot[0]?.eventData as { ratings?: Record<string, Record<number, number>> } | null)?.ratings,
+      ratingsAfter,
+    });
+
+    console.log(`[RECAP] Built recap for room ${room.code}: ${recap.matchesPlayed} matches`);
+
+    return {
+      room: {
+        id: room.id,
+        code: room.code,
+        completedAt: room.completedAt?.toISOString() ?? null,
+        winnerPosterPath: room.winnerPosterPath,
+      },
+      participants: room.participants.map(p => ({
+        userId: p.userId,
+        name: p.user.name || p.user.username,
+        avatarUrl: p.user.avatarUrl || undefined,
+        ...(p.role === 'spectator' ? { isSpectator: true } : {}),
+      })),
+      recap,
+    };
+  }
+}
@@ -1,10 +1,28 @@
 import { db } from '@/db';
-import { rooms, roomStates, roomParticipants, users, RoomState as DBRoomState } from '@/db/schema';
-import { eq, and } from 'drizzle-orm';
+import { rooms, roomStates, roomParticipants, users, bracketPicks, matchCompletions, RoomState as DBRoomState } from '@/db/schema';
+import { eq, and, desc } from 'drizzle-orm';
 import { EventEmitter } from 'events';
+import { MIN_PARTICIPANTS, normalizeRoomSettings } from '@/lib/utils/room-settings';
+import type { TournamentBye, TournamentMatch as EngineMatch, TournamentMovie } from '@/lib/tournament-engine';
+import type { TournamentFormat } from '@/lib/utils/room-settings';
+import type { PoolFilters } from '@/lib/utils/pool-filters';
+import type { BracketSide, DoubleEliminationState } from '@/lib/utils/double-elimination';
+import { rankStandings, SwissState } from '@/lib/utils/swiss';
+import { hasFinishedVetoing, VetoPhase } from '@/lib/utils/veto';
+import type { MatchDecision, MatchResolution, MatchVote } from '@/lib/utils/voting';
+import { getExtensionsRemaining, getSecondsRemaining } from '@/lib/utils/room-deadline';
+import { getMatchClockStart, getPickDeadline } from '@/lib/utils/pick-timer';
+import type { PauseWindow } from '@/lib/utils/pause';
+import { getPlayers } from '@/lib/utils/spectators';
+import { DbExecutor, DbTransaction, RoomLeases } from '@/lib/db/room-leases';
+import { RoomEventLog } from '@/lib/db/room-event-log';
+import { RoomBackplane } from './room-backplane';
+import { needsReload, StateNotice } from '@/lib/utils/backplane';
+import { resolveHead } from '@/lib/utils/room-events';
+import type { RoomRecord } from '@/lib/utils/room-events';
 
 // Types
-export type ScreenType = 'lobby' | 'bracket' | 'waiting' | 'final' | 'winner' | 'error';
+export type ScreenType = 'lobby' | 'veto' | 'bracket' | 'waiting' | 'final' | 'paused' | 'winner' | 'error';
 
 export interface Movie {
   id: number;
@@ -12,6 +30,7 @@ export interface Movie {
   posterPath?: string;
   releaseDate?: string;
   voteAverage?: number;
+  suggested?: boolean; // filled in from the catalog, not on anyone's watchlist
 }
 
 export interface Participant {
@@ -21,12 +40,42 @@ export interface Participant {
   isActive: boolean;
   isReady: boolean;
   isOwner?: boolean;
+  isSpectator?: boolean; // watches without voting
+  isDropped?: boolean; // lost their connection mid-tournament and can still reclaim their seat
 }
 
 export interface TournamentMatch {
   matchId: string;
+  bracket?: BracketSide; // double elimination only
+  bracketRound?: number;
   movieA: Movie;
   movieB: Movie;
+  split?: MatchVote[]; // everyone's first picks, shown while the match is replayed under the 'rematch' tie-break
+  replayStartedAt?: string; // when the replay began; its pick timers count from here rather than the round start
+  deadline?: string; // when the server picks for this user, on rooms with a pick timer
+}
+
+// Both sides of a double elimination bracket, for the bracket UI
+export interface BracketsView {
+  winners: Movie[]; // unbeaten
+  losers: Movie[]; // one loss
+  eliminated: Movie[];
+}
+
+// How a finished match was settled
+export interface MatchResultView {
+  matchId: string;
+  winner: Movie;
+  loser: Movie;
+  decidedBy: MatchDecision;
+  rematched?: boolean;
+}
+
+// Swiss table, best first
+export interface StandingView {
+  movie: Movie;
+  wins: number;
+  losses: number;
 }
 
 export interface RoomState {
@@ -36,13 +85,31 @@ export interface RoomState {
   data: {
     room: {
       code: string;
-      timeRemaining?: number;
+      timeRemaining?: number; // seconds until expiresAt, worked out for each client
+      expiresAt?: string;
+      extensionsRemaining?: number;
+      maxParticipants?: number;
+      pickTimeLimit?: number; // seconds per pick, 0 or missing for no limit
+      paused?: {
+        at: string;
+        by?: string; // missing when the state was rebuilt from the rooms table
+        screen: ScreenType; // where everyone goes back to on resume
+        reason?: 'disconnected'; // paused by the server until a dropped player reclaims their seat
+      };
+      filters?: PoolFilters; // lobby filters for the candidate pool
       participants: Participant[];
     };
     
     tournament?: {
       currentMatch?: TournamentMatch;
       matches?: TournamentMatch[];
+      byes?: Movie[]; // movies advancing from this round without a match
+      format?: TournamentFormat;
+      brackets?: BracketsView;
+      standings?: StandingView[];
+      results?: MatchResultView[]; // decided matches from earlier rounds, oldest first
+      roundStartedAt?: string;
+      pauses?: PauseWindow[];
       progress: {
         userPicks: number;
         totalPicks: number;
@@ -55,17 +122,99 @@ export interface RoomState {
       };
     };
     
+    veto?: VetoPhase<Movie>; // pool and strikes from the veto phase, when the room has one
+    
     winner?: {
       movie: Movie;
       addedToWatchlists: boolean;
     };
+    
+    rematch?: {
+      roomCode: string; // everyone still here follows the finished room to its rematch
+    };
   };
   
   availableActions: string[];
+  spectating?: boolean; // only on a spectator's personalized copy
   error?: string;
   lastUpdated: string;
 }
 
+export function toStateMovie(movie: TournamentMovie): Movie {
+  return {
+    id: movie.id,
+    title: movie.title,
+    posterPath: movie.posterPath,
+    ...(movie.suggested ? { suggested: true } : {}),
+  };
+}
+
+export function toStateMatch(match: EngineMatch): TournamentMatch {
+  return {
+    matchId: match.matchId,
+    ...(match.bracket ? { bracket: match.bracket, bracketRound: match.bracketRound } : {}),
+    movieA: toStateMovie(match.movieA),
+    movieB: toStateMovie(match.movieB),
+  };
+}
+
+export function toBracketsView(state: DoubleEliminationState<TournamentMovie>): BracketsView {
+  return {
+    winners: state.winners.map(seat => toStateMovie(seat.movie)),
+    losers: state.losers.map(seat => toStateMovie(seat.movie)),
+    eliminated: state.eliminated.map(toStateMovie),
+  };
+}
+
+export function toStandingsView(state: SwissState<TournamentMovie>): StandingView[] {
+  return rankStandings(state.standings).map(s => ({
+    movie: toStateMovie(s.movie),
+    wins: s.wins,
+    losses: s.losses,
+  }));
+}
+
+export function toResultsView(
+  matches: TournamentMatch[],
+  resolutions: Record<string, MatchResolution>
+): MatchResultView[] {
+  return matches
+    .filter(match => resolutions[match.matchId])
+    .map(match => {
+      const resolution = resolutions[match.matchId];
+      const aWon = resolution.winnerId === match.movieA.id;
+      return {
+        matchId: match.matchId,
+        winner: aWon ? match.movieA : match.movieB,
+        loser: aWon ? match.movieB : match.movieA,
+        decidedBy: resolution.decidedBy,
+        ...(resolution.rematched ? { rematched: true } : {}),
+      };
+    });
+}
+
+export function toVetoView(phase: VetoPhase<TournamentMovie>): VetoPhase<Movie> {
+  return { ...phase, pool: phase.pool.map(toStateMovie) };
+}
+
+export interface SaveOptions {
+  fencingToken?: number; // from the room lock the save is made under
+  eventType?: string; // what the room_events entry is logged as
+}
+
+export class StateConflictError extends Error {
+  constructor(public readonly roomId: string, public readonly expectedVersion: number) {
+    super(`Room ${roomId} has moved on from version ${expectedVersion}`);
+    this.name = 'StateConflictError';
+  }
+}
+
+// Shown on the error screen once the sweeper has closed the room
+export const ROOM_EXPIRED_ERROR = 'Room closed: time ran out';
+
+// Screens where the bracket is being played: picks can be undone and the room paused
+const IN_PLAY_SCREENS: ScreenType[] = ['bracket', 'waiting', 'final'];
+
 export class RoomStateManager extends EventEmitter {
   private static instance: RoomStateManager;
   private stateCache: Map<string, RoomState> = new Map();
@@ -84,8 +233,11 @@ export class RoomStateManager extends EventEmitter {
 
   async getState(roomId: string, userId: string): Promise<RoomState> {
     try {
-      // Try cache first
-      const cached = this.stateCache.get(roomId);
+      // Cached states are only trusted while this instance hears about saves made elsewhere
+      this.listenForRemoteSaves();
+
+      // Try cache first, unless the backplane isn't delivering
+      const cached = RoomBackplane.isLive() ? this.stateCache.get(roomId) : undefined;
       if (cached) {
         return await this.personalizeState(cached, userId, roomId);
       }
@@ -101,59 +253,154 @@ export class RoomStateManager extends EventEmitter {
     }
   }
 
-  async saveState(roomId: string, state: RoomState, updatedBy: string): Promise<void> {
+  // Only writes over the version the state was loaded at, so a stale writer gets a StateConflictError
+  // instead of silently replacing a newer state. Pass the room lock's fencing token when saving under
+  // it: the write is then also refused if the lock has since passed to someone else. Every save is
+  // logged to room_events in the same transaction, along with the room's rows as it leaves them.
+  async saveState(roomId: string, state: RoomState, updatedBy: string, options: SaveOptions = {}): Promise<void> {
+    await db.transaction(tx => this.writeState(tx, roomId, state, updatedBy, options));
+    this.publishState(roomId, state);
+  }
+
+  // saveState inside the caller's transaction, so the state lands together with the writes it was
+  // built from. Call publishState once the transaction has committed.
+  async writeState(
+    tx: DbTransaction,
+    roomId: string,
+    state: RoomState,
+    updatedBy: string,
+    options: SaveOptions = {}
+  ): Promise<void> {
+    const expectedVersion = state.version;
     try {
-      console.log(`[SAVE_STATE] Saving state for room ${roomId}, screen: ${state.screen}`);
+      console.log(`[SAVE_STATE] Saving state for room ${roomId}, screen: ${state.screen}, version: ${expectedVersion}`);
       
       // Increment version
       state.version += 1;
       state.lastUpdated = new Date().toISOString();
 
-      // Save to database
-      await db
-        .insert(roomStates)
-        .values({
-          roomId,
-          stateVersion: state.version,
-          currentState: state as any,
-          updatedBy,
+      // Save to database; version 0 means the room has never been saved
+      if (options.fencingToken !== undefined) {
+        await RoomLeases.assertHeld(tx, roomId, options.fencingToken);
+      }
+
+      const [previous] = await tx
+        .select({
+          stateVersion: roomStates.stateVersion,
+          currentState: roomStates.currentState,
+          currentRecord: roomStates.currentRecord,
         })
-        .onConflictDoUpdate({
-          target: roomStates.roomId,
-          set: {
+        .from(roomStates)
+        .where(eq(roomStates.roomId, roomId))
+        .for('update');
+
+      // The log decides the current version; the room_states row lock above is what serializes writers
+      const before = await this.readHead(tx, roomId, previous ?? null);
+      if ((before?.version ?? 0) !== expectedVersion) {
+        throw this.conflict(roomId, expectedVersion);
+      }
+
+      // The picks, participants and tournament writes made earlier in this transaction
+      const record = await RoomEventLog.readRecord(tx, roomId);
+
+      const saved = previous
+        ? await tx
+          .update(roomStates)
+          .set({
             stateVersion: state.version,
             currentState: state as any,
+            currentRecord: record,
             updatedAt: new Date(),
             updatedBy,
-          },
-        });
-
-      // Update cache
-      this.stateCache.set(roomId, state);
-      console.log(`[SAVE_STATE] State saved to DB and cache`);
+          })
+          .where(eq(roomStates.roomId, roomId))
+          .returning({ stateVersion: roomStates.stateVersion })
+        : await tx
+          .insert(roomStates)
+          .values({
+            roomId,
+            stateVersion: state.version,
+            currentState: state as any,
+            currentRecord: record,
+            updatedBy,
+          })
+          .onConflictDoNothing({ target: roomStates.roomId })
+          .returning({ stateVersion: roomStates.stateVersion });
+      if (saved.length === 0) {
+        throw this.conflict(roomId, expectedVersion);
+      }
 
-      // Broadcast to subscribers
-      this.broadcast(roomId, state);
-      console.log(`[SAVE_STATE] State broadcast to subscribers`);
+      await RoomEventLog.append(tx, roomId, {
+        seq: state.version,
+        eventType: options.eventType ?? 'state_saved',
+        userId: updatedBy,
+        before: before?.state ?? null,
+        after: state,
+        recordBefore: before?.record ?? null,
+        record,
+      });
+      await RoomBackplane.notify(tx, roomId, state.version);
     } catch (error) {
+      state.version = expectedVersion;
       console.error('Error saving room state:', error);
       throw error;
     }
   }
 
-  async loadFromDB(roomId: string): Promise<RoomState> {
+  // The room's current state: what its log replays to. room_states only caches that, and stands in for
+  // rooms last saved before the log existed (see resolveHead); a cache that has drifted is ignored.
+  private async readHead(
+    executor: DbExecutor,
+    roomId: string,
+    cached: { stateVersion: number; currentState: unknown; currentRecord: unknown } | null
+  ): Promise<{ version: number; state: RoomState; record: RoomRecord | null } | null> {
+    const replayed = await RoomEventLog.replay(roomId, undefined, executor);
+    const head = resolveHead<RoomState>(replayed, cached);
+    if (head.drifted) {
+      console.warn(`[EVENT_LOG] Room ${roomId} cached state (version ${cached?.stateVersion}) disagrees with its log at ${head.version}; using the log`);
+    }
+    if (!head.state) {
+      return null;
+    }
+
+    // The cached rows only count where they were saved at the same version
+    const cachedRecord = cached?.stateVersion === head.version ? cached.currentRecord as RoomRecord | null : null;
+    return { version: head.version, state: head.state, record: replayed?.record ?? cachedRecord };
+  }
+
+  // Someone else saved first; drop what this instance had cached so the next read reloads
+  private conflict(roomId: string, expectedVersion: number): StateConflictError {
+    this.stateCache.delete(roomId);
+    return new StateConflictError(roomId, expectedVersion);
+  }
+
+  // Caches a committed state and hands it to this instance's subscribers
+  publishState(roomId: string, state: RoomState): void {
+    // Update cache
+    this.stateCache.set(roomId, state);
+    console.log(`[SAVE_STATE] State saved to DB and cache`);
+
+    // Broadcast to subscribers
+    this.broadcast(roomId, state);
+    console.log(`[SAVE_STATE] State broadcast to subscribers`);
+  }
+
+  // Pass the transaction when reading in the middle of one, so it sees its own writes
+  async loadFromDB(roomId: string, executor: DbExecutor = db): Promise<RoomState> {
     try {
       // Get room state
-      const dbState = await db.query.roomStates.findFirst({
+      const dbState = await executor.query.roomStates.findFirst({
         where: eq(roomStates.roomId, roomId),
       });
 
-      if (dbState?.currentState) {
-        return dbState.currentState as RoomState;
+      const head = await this.readHead(executor, roomId, dbState ?? null);
+      if (head) {
+        // The log's version is what saves are checked against
+        return { ...head.state, version: head.version };
       }
 
       // If no state exists, create initial state
-      const room = await db.query.rooms.findFirst({
+      const room = await executor.query.rooms.findFirst({
         where: eq(rooms.id, roomId),
         with: {
           participants: {
@@ -168,6 +415,8 @@ export class RoomStateManager extends EventEmitter {
         throw new Error('Room not found');
       }
 
+      const settings = normalizeRoomSettings(room.settings);
+
       // Create initial state
       const initialState: RoomState = {
         version: 0,
@@ -175,6 +424,11 @@ export class RoomStateManager extends EventEmitter {
         data: {
           room: {
             code: room.code,
+            expiresAt: room.expiresAt?.toISOString(),
+            extensionsRemaining: getExtensionsRemaining(room.extensionCount),
+            maxParticipants: settings.maxParticipants,
+            pickTimeLimit: settings.pickTimeLimit,
+            filters: settings.filters,
             participants: room.participants.map(p => ({
               userId: p.userId,
               name: p.user.name || p.user.username,
@@ -182,6 +436,8 @@ export class RoomStateManager extends EventEmitter {
               isActive: p.isActive ?? false,
               isReady: false,
               isOwner: p.userId === room.ownerId,
+              ...(p.role === 'spectator' ? { isSpectator: true } : {}),
+              ...(p.droppedAt && !p.isActive ? { isDropped: true } : {}),
             })),
           },
         },
@@ -189,56 +445,67 @@ export class RoomStateManager extends EventEmitter {
         lastUpdated: new Date().toISOString(),
       };
 
+      if (room.status === 'expired') {
+        initialState.screen = 'error';
+        initialState.error = ROOM_EXPIRED_ERROR;
+        return initialState;
+      }
+
       // Check if room has active tournament data
       if (room.status === 'active' && room.tournamentData) {
         console.log(`[LOAD_FROM_DB] Found active tournament data for room ${roomId}`);
         const tournament = room.tournamentData as any;
+        const currentRound = tournament.currentRound || 1;
+        
+        if (tournament.veto && !tournament.veto.complete) {
+          initialState.screen = 'veto';
+          initialState.data.veto = toVetoView(tournament.veto);
+          return initialState;
+        }
         
-        // Transform tournament data into room state format
-        const round1Matches = tournament.matches.filter((m: any) => m.roundNumber === 1);
+        // Transform tournament data into room state format (only the round being played)
+        const roundMatches: TournamentMatch[] = tournament.matches
+          .filter((m: EngineMatch) => m.roundNumber === currentRound)
+          .map((m: EngineMatch) => ({
+            ...toStateMatch(m),
+            ...(tournament.rematches?.[m.matchId] ? { split: tournament.rematches[m.matchId] } : {}),
+            ...(tournament.rematchStartedAt?.[m.matchId] ? { replayStartedAt: tournament.rematchStartedAt[m.matchId] } : {}),
+          }));
         
-        initialState.screen = 'bracket';
+        initialState.screen = tournament.isFinalRound ? 'final' : 'bracket';
         initialState.data.tournament = {
-          currentMatch: round1Matches[0] ? {
-            matchId: round1Matches[0].matchId,
-            movieA: {
-              id: round1Matches[0].movieA.id,
-              title: round1Matches[0].movieA.title,
-              posterPath: round1Matches[0].movieA.posterPath,
-            },
-            movieB: {
-              id: round1Matches[0].movieB.id,
-              title: round1Matches[0].movieB.title,
-              posterPath: round1Matches[0].movieB.posterPath,
-            },
-          } : undefined,
-          matches: round1Matches.map((m: any) => ({
-            matchId: m.matchId,
-            movieA: {
-              id: m.movieA.id,
-              title: m.movieA.title,
-              posterPath: m.movieA.posterPath,
-            },
-            movieB: {
-              id: m.movieB.id,
-              title: m.movieB.title,
-              posterPath: m.movieB.posterPath,
-            },
-          })),
+          currentMatch: roundMatches[0],
+          matches: roundMatches,
+          byes: (tournament.byes ?? [])
+            .filter((b: TournamentBye) => b.roundNumber === currentRound)
+            .map((b: TournamentBye) => toStateMovie(b.movie)),
+          format: tournament.format,
+          brackets: tournament.doubleElimination ? toBracketsView(tournament.doubleElimination) : undefined,
+          standings: tournament.swiss ? toStandingsView(tournament.swiss) : undefined,
+          results: tournament.resolutions
+            ? toResultsView(tournament.matches.map((m: EngineMatch) => toStateMatch(m)), tournament.resolutions)
+            : undefined,
+          roundStartedAt: tournament.roundStartedAt,
+          pauses: tournament.pauses,
           progress: {
             userPicks: 0,
-            totalPicks: round1Matches.length,
-            currentRound: tournament.currentRound || 1,
+            totalPicks: roundMatches.length,
+            currentRound,
             totalRounds: tournament.totalRounds,
           },
         };
         
-        console.log(`[LOAD_FROM_DB] Set up tournament state with ${round1Matches.length} matches`);
+        if (room.pausedAt) {
+          initialState.data.room.paused = { at: room.pausedAt.toISOString(), screen: initialState.screen };
+          initialState.screen = 'paused';
+        }
+        
+        console.log(`[LOAD_FROM_DB] Set up tournament state with ${roundMatches.length} matches in round ${currentRound}`);
       } else {
         // Determine available actions based on room status for waiting rooms
         if (room.status === 'waiting') {
-          const activeParticipants = room.participants.filter(p => p.isActive);
-          if (activeParticipants.length === 2) {
+          const players = room.participants.filter(p => p.isActive && p.role !== 'spectator');
+          if (players.length >= MIN_PARTICIPANTS) {
             initialState.availableActions.push('start');
           }
         }
@@ -258,11 +525,36 @@ export class RoomStateManager extends EventEmitter {
     // Determine available actions for this user
     personalized.availableActions = this.getAvailableActions(state, userId);
 
+    // Count down from the stored deadline rather than trusting whatever was saved last; paused rooms stand still
+    if (personalized.data.room.expiresAt) {
+      const clock = personalized.data.room.paused ? new Date(personalized.data.room.paused.at) : new Date();
+      personalized.data.room.timeRemaining = getSecondsRemaining(personalized.data.room.expiresAt, clock);
+    }
+
+    // Spectators see the shared bracket as it stands, with no match of their own
+    if (state.data.room.participants.find(p => p.userId === userId)?.isSpectator) {
+      personalized.spectating = true;
+      if (personalized.data.tournament) {
+        personalized.data.tournament.currentMatch = undefined;
+      }
+      return personalized;
+    }
+
     // Personalize tournament data if active
     if (state.data.tournament && state.screen === 'bracket' && roomId) {
       await this.personalizeTournamentData(personalized, userId, roomId);
     }
 
+    if (state.data.room.pickTimeLimit && roomId) {
+      await this.applyPickDeadline(personalized, userId, roomId);
+    }
+
+    if (roomId && IN_PLAY_SCREENS.includes(personalized.screen) && personalized.availableActions.includes('leave')) {
+      if (await this.getUndoablePick(roomId, userId)) {
+        personalized.availableActions.push('undo');
+      }
+    }
+
     // Add partner progress if in tournament
     if (state.data.tournament && state.screen === 'waiting') {
       const participants = state.data.room.participants;
@@ -303,10 +595,8 @@ export class RoomStateManager extends EventEmitter {
       console.log(`[PERSONALIZE] User completed matches:`, completedMatches);
       console.log(`[PERSONALIZE] Current round:`, currentRound);
 
-      // Find current round matches - handle both old and new match ID formats
-      const currentRoundMatches = state.data.tournament.matches.filter((m: any) => 
-        m.matchId.startsWith(`r${currentRound}`) || m.matchId.startsWith(`round-${currentRound}`)
-      );
+      // State only ever holds the matches of the round being played
+      const currentRoundMatches = state.data.tournament.matches;
       console.log(`[PERSONALIZE] Current round has ${currentRoundMatches.length} matches`);
 
       // Find first match not completed by user
@@ -344,6 +634,72 @@ export class RoomStateManager extends EventEmitter {
     }
   }
 
+  // The user's latest pick, while nobody has settled its match yet. Auto picks stay put,
+  // since their deadline has already passed.
+  async getUndoablePick(
+    roomId: string,
+    userId: string,
+    executor: DbExecutor = db
+  ): Promise<{ id: string; matchId: string } | null> {
+    const [pick] = await executor
+      .select({ id: bracketPicks.id, matchId: bracketPicks.matchId, autoPicked: bracketPicks.autoPicked })
+      .from(bracketPicks)
+      .where(and(
+        eq(bracketPicks.roomId, roomId),
+        eq(bracketPicks.userId, userId)
+      ))
+      .orderBy(desc(bracketPicks.createdAt))
+      .limit(1);
+
+    if (!pick || pick.autoPicked) {
+      return null;
+    }
+
+    const completion = await executor.query.matchCompletions.findFirst({
+      where: and(
+        eq(matchCompletions.roomId, roomId),
+        eq(matchCompletions.matchId, pick.matchId)
+      ),
+    });
+
+    return completion ? null : { id: pick.id, matchId: pick.matchId };
+  }
+
+  // Stamps the user's current match with the time the server will pick for them
+  private async applyPickDeadline(state: RoomState, userId: string, roomId: string): Promise<void> {
+    const tournament = state.data.tournament;
+    const match = tournament?.currentMatch;
+    if (!match || (state.screen !== 'bracket' && state.screen !== 'final')) {
+      return;
+    }
+
+    const [lastPick] = await db
+      .select({ matchId: bracketPicks.matchId, createdAt: bracketPicks.createdAt })
+      .from(bracketPicks)
+      .where(and(
+        eq(bracketPicks.roomId, roomId),
+        eq(bracketPicks.userId, userId),
+        eq(bracketPicks.roundNumber, tournament.progress.currentRound)
+      ))
+      .orderBy(desc(bracketPicks.createdAt))
+      .limit(1);
+
+    // Already picked this one (the final is not personalized, so it stays current)
+    if (lastPick?.matchId === match.matchId) {
+      return;
+    }
+
+    const deadline = getPickDeadline(
+      getMatchClockStart(tournament.roundStartedAt, match.replayStartedAt),
+      lastPick?.createdAt,
+      state.data.room.pickTimeLimit ?? 0,
+      tournament.pauses
+    );
+    if (deadline) {
+      match.deadline = deadline.toISOString();
+    }
+  }
+
   private getAvailableActions(state: RoomState, userId: string): string[] {
     const actions: string[] = [];
     const participant = state.data.room.participants.find(p => p.userId === userId);
@@ -352,39 +708,64 @@ export class RoomStateManager extends EventEmitter {
       return [];
     }
 
+    // Read-only: watching is all a spectator can do
+    if (participant.isSpectator) {
+      return state.screen === 'winner' || state.screen === 'error' ? [] : ['leave'];
+    }
+
     switch (state.screen) {
       case 'lobby':
         actions.push('leave');
-        if (participant.isOwner && state.data.room.participants.filter(p => p.isActive).length === 2) {
+        if (participant.isOwner) {
+          actions.push('filters');
+        }
+        if (participant.isOwner && getPlayers(state.data.room.participants).length >= MIN_PARTICIPANTS) {
           actions.push('start');
         }
         break;
         
+      case 'veto':
+        if (state.data.veto && !hasFinishedVetoing(state.data.veto, userId)) {
+          actions.push('veto');
+        }
+        actions.push('leave');
+        break;
+        
       case 'bracket':
         if (state.data.tournament?.currentMatch) {
           actions.push('pick');
         }
-        actions.push('leave');
+        actions.push('pause', 'leave');
         break;
         
       case 'waiting':
-        actions.push('leave');
+        actions.push('pause', 'leave');
         break;
         
       case 'final':
         if (state.data.tournament?.currentMatch) {
           actions.push('pick');
         }
+        actions.push('pause', 'leave');
+        break;
+        
+      case 'paused':
+        // Too few players to go on while a dropped one is still away; their return resumes the room
+        if (getPlayers(state.data.room.participants).length >= MIN_PARTICIPANTS) {
+          actions.push('resume');
+        }
         actions.push('leave');
         break;
         
       case 'winner':
-        // No actions available
+        if (participant.isOwner && !state.data.rematch) {
+          actions.push('rematch');
+        }
         break;
     }
 
-    // Always allow extend action to keep room alive
-    if (state.screen !== 'winner' && state.screen !== 'error') {
+    // Keep the room alive while it has extensions left
+    if (!['winner', 'error', 'paused'].includes(state.screen) && (state.data.room.extensionsRemaining ?? 1) > 0) {
       actions.push('extend');
     }
 
@@ -392,6 +773,8 @@ export class RoomStateManager extends EventEmitter {
   }
 
   subscribe(roomId: string, callback: (state: RoomState) => void): () => void {
+    this.listenForRemoteSaves();
+
     if (!this.subscribers.has(roomId)) {
       this.subscribers.set(roomId, new Set());
     }
@@ -410,6 +793,31 @@ export class RoomStateManager extends EventEmitter {
     };
   }
 
+  private listenForRemoteSaves(): void {
+    // Anything cached may have missed saves while the listener was down
+    RoomBackplane.listen(notice => this.onRemoteSave(notice), () => this.clearAllCache());
+  }
+
+  // Another instance saved this room: forget the cached copy and pass the new state to local subscribers
+  private async onRemoteSave(notice: StateNotice): Promise<void> {
+    if (!needsReload(notice, RoomBackplane.instanceId, this.stateCache.get(notice.roomId)?.version)) {
+      return;
+    }
+
+    this.stateCache.delete(notice.roomId);
+    if (!this.subscribers.has(notice.roomId)) {
+      return;
+    }
+
+    try {
+      const state = await this.loadFromDB(notice.roomId);
+      this.stateCache.set(notice.roomId, state);
+      this.broadcast(notice.roomId, state);
+    } catch (error) {
+      console.error(`[BACKPLANE] Failed to reload room ${notice.roomId}:`, error);
+    }
+  }
+
   private broadcast(roomId: string, state: RoomState): void {
     const subs = this.subscribers.get(roomId);
     console.log(`[BROADCAST] Broadcasting to room ${roomId}, subscribers: ${subs?.size || 0}`);
@@ -436,10 +844,19 @@ export class RoomStateManager extends EventEmitter {
     this.stateCache.clear();
   }
 
-  async rebuildFromParticipants(roomId: string): Promise<RoomState> {
+  // Swaps in the current participant list without touching the rest of the room's state, e.g. when
+  // a spectator joins a running tournament
+  async refreshParticipants(roomId: string, executor: DbExecutor = db): Promise<RoomState> {
+    const stored = await this.loadFromDB(roomId, executor);
+    const fresh = await this.rebuildFromParticipants(roomId, executor);
+    stored.data.room.participants = fresh.data.room.participants;
+    return stored;
+  }
+
+  async rebuildFromParticipants(roomId: string, executor: DbExecutor = db): Promise<RoomState> {
     try {
       // Always rebuild state from current participants, ignoring cached state
-      const room = await db.query.rooms.findFirst({
+      const room = await executor.query.rooms.findFirst({
         where: eq(rooms.id, roomId),
         with: {
           participants: {
@@ -454,23 +871,40 @@ export class RoomStateManager extends EventEmitter {
         throw new Error('Room not found');
       }
 
+      const settings = normalizeRoomSettings(room.settings);
+
       // Determine screen based on room status
       let screen: ScreenType = 'lobby';
       if (room.status === 'active') {
         screen = 'bracket'; // Tournament is active
       } else if (room.status === 'completed') {
         screen = 'winner'; // Tournament completed
-      } else if (room.status === 'abandoned') {
-        screen = 'error'; // Room abandoned
+      } else if (room.status === 'abandoned' || room.status === 'expired') {
+        screen = 'error'; // Room abandoned or timed out
       }
 
+      // Carry the current version over so saving the rebuilt state goes through the version check;
+      // it is the log's, as in resolveHead, with the cached one only for rooms that were never logged
+      const logged = await RoomEventLog.latestSeq(executor, roomId);
+      const stored = logged === null
+        ? await executor.query.roomStates.findFirst({
+          columns: { stateVersion: true },
+          where: eq(roomStates.roomId, roomId),
+        })
+        : undefined;
+
       // Create fresh state from current participants
       const freshState: RoomState = {
-        version: 0, // Will be incremented when saved
+        version: logged ?? stored?.stateVersion ?? 0, // Will be incremented when saved
         screen,
         data: {
           room: {
             code: room.code,
+            expiresAt: room.expiresAt?.toISOString(),
+            extensionsRemaining: getExtensionsRemaining(room.extensionCount),
+            maxParticipants: settings.maxParticipants,
+            pickTimeLimit: settings.pickTimeLimit,
+            filters: settings.filters,
             participants: room.participants.map(p => ({
               userId: p.userId,
               name: p.user.name || p.user.username,
@@ -478,6 +912,8 @@ export class RoomStateManager extends EventEmitter {
               isActive: p.isActive ?? false,
               isReady: false,
               isOwner: p.userId === room.ownerId,
+              ...(p.role === 'spectator' ? { isSpectator: true } : {}),
+              ...(p.droppedAt && !p.isActive ? { isDropped: true } : {}),
             })),
           },
         },
@@ -488,12 +924,14 @@ export class RoomStateManager extends EventEmitter {
       // Add error message if room was abandoned
       if (room.status === 'abandoned') {
         freshState.error = 'Tournament abandoned';
+      } else if (room.status === 'expired') {
+        freshState.error = ROOM_EXPIRED_ERROR;
       }
 
       // Determine available actions based on room status
       if (room.status === 'waiting') {
-        const activeParticipants = room.participants.filter(p => p.isActive);
-        if (activeParticipants.length === 2) {
+        const players = room.participants.filter(p => p.isActive && p.role !== 'spectator');
+        if (players.length >= MIN_PARTICIPANTS) {
           freshState.availableActions.push('start');
         }
       }
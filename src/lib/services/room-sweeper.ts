@@ -0,0 +1,158 @@
+import { db } from '@/db';
+import { rooms, roomHistory, roomParticipants } from '@/db/schema';
+import { and, eq, inArray, isNull, lt, or } from 'drizzle-orm';
+import { AnalyticsEvent } from '@/lib/analytics';
+import { MAX_PAUSE_MS, RECONNECT_GRACE_MS } from '@/lib/utils/pause';
+import { RoomStateManager, ROOM_EXPIRED_ERROR } from './room-state-manager';
+import { ActionProcessorV2 } from './action-processor-v2';
+
+// Rooms in these statuses still count down; finished rooms are left alone
+const OPEN_STATUSES = ['waiting', 'active'];
+
+// Past the deadline while running, or paused for longer than a pause may last
+const isOverdue = (now: Date) => and(
+  inArray(rooms.status, OPEN_STATUSES),
+  or(
+    and(isNull(rooms.pausedAt), lt(rooms.expiresAt, now)),
+    lt(rooms.pausedAt, new Date(now.getTime() - MAX_PAUSE_MS))
+  )
+);
+
+export class RoomSweeper {
+  private static sweepIntervalId: NodeJS.Timeout | null = null;
+  private static isSweeping = false;
+
+  static start(intervalMs: number = 60000): void {
+    if (this.sweepIntervalId) {
+      this.stop();
+    }
+
+    this.sweepIntervalId = setInterval(async () => {
+      await this.sweep();
+    }, intervalMs);
+
+    console.log('[ROOM_SWEEPER] Started');
+  }
+
+  static stop(): void {
+    if (this.sweepIntervalId) {
+      clearInterval(this.sweepIntervalId);
+      this.sweepIntervalId = null;
+    }
+    console.log('[ROOM_SWEEPER] Stopped');
+  }
+
+  // Closes every open room past its deadline and drops participants who never came back;
+  // returns how many rooms were closed
+  static async sweep(now: Date = new Date()): Promise<number> {
+    if (this.isSweeping) {
+      return 0;
+    }
+
+    this.isSweeping = true;
+    try {
+      await this.dropDisconnected(now);
+
+      const expired = await db
+        .select({ id: rooms.id, code: rooms.code, ownerId: rooms.ownerId })
+        .from(rooms)
+        .where(isOverdue(now));
+
+      let closed = 0;
+      for (const room of expired) {
+        try {
+          if (await this.closeRoom(room, now)) {
+            closed++;
+          }
+        } catch (error) {
+          console.error(`[ROOM_SWEEPER] Failed to close room ${room.code}:`, error);
+        }
+      }
+
+      if (closed > 0) {
+        console.log(`[ROOM_SWEEPER] Closed ${closed} expired rooms`);
+      }
+      return closed;
+    } finally {
+      this.isSweeping = false;
+    }
+  }
+
+  // Participants whose stream went quiet past the grace period leave the tournament, the same as
+  // pressing leave, except that they keep a claim on their seat: a room left short of players pauses
+  // until they rejoin. Paused rooms wait for everyone.
+  private static async dropDisconnected(now: Date): Promise<void> {
+    const cutoff = new Date(now.getTime() - RECONNECT_GRACE_MS);
+    const gone = await db
+      .select({ roomId: roomParticipants.roomId, userId: roomParticipants.userId })
+      .from(roomParticipants)
+      .innerJoin(rooms, eq(rooms.id, roomParticipants.roomId))
+      .where(and(
+        eq(rooms.status, 'active'),
+        isNull(rooms.pausedAt),
+        eq(roomParticipants.isActive, true),
+        eq(roomParticipants.role, 'player'), // spectators hold no seat, so there is nothing to free or reclaim
+        lt(roomParticipants.lastSeenAt, cutoff)
+      ));
+
+    const processor = ActionProcessorV2.getInstance();
+    for (const { roomId, userId } of gone) {
+      try {
+        // Only if they are still gone once the room's lock is held; they may have reconnected since
+        const result = await processor.process(roomId, userId, {
+          action: 'leave',
+          payload: { disconnectedBefore: cutoff.toISOString() },
+        });
+        if (result.success) {
+          console.log(`[ROOM_SWEEPER] User ${userId} did not reconnect to room ${roomId}`);
+        }
+      } catch (error) {
+        console.error(`[ROOM_SWEEPER] Failed to drop user ${userId} from room ${roomId}:`, error);
+      }
+    }
+  }
+
+  private static async closeRoom(
+    room: { id: string; code: string; ownerId: string },
+    now: Date
+  ): Promise<boolean> {
+    // The close and the closed screen land together, so the room's event log has both. A save that
+    // loses to a concurrent one rolls the close back and the next sweep tries again.
+    const stateManager = RoomStateManager.getInstance();
+    const state = await db.transaction(async (tx) => {
+      // Re-check the deadline in the update: the room may have been extended, resumed or finished since the select
+      const [updated] = await tx
+        .update(rooms)
+        .set({ status: 'expired', closedAt: now })
+        .where(and(eq(rooms.id, room.id), isOverdue(now)))
+        .returning({ id: rooms.id });
+
+      if (!updated) {
+        return null;
+      }
+
+      await tx.insert(roomHistory).values({
+        roomId: room.id,
+        eventType: AnalyticsEvent.ROOM_AUTO_CLOSED,
+        eventData: { closedAt: now.toISOString() },
+      });
+
+      const closed = await stateManager.loadFromDB(room.id, tx);
+      closed.screen = 'error';
+      closed.error = ROOM_EXPIRED_ERROR;
+      closed.data.room.timeRemaining = 0;
+      await stateManager.writeState(tx, room.id, closed, room.ownerId, { eventType: 'room_expired' });
+      return closed;
+    });
+
+    if (!state) {
+      return false;
+    }
+
+    // Push the closed screen to everyone still connected
+    stateManager.publishState(room.id, state);
+
+    console.log(`[ROOM_SWEEPER] Room ${room.code} expired`);
+    return true;
+  }
+}
@@ -1,11 +1,14 @@
 import { db } from '@/db';
 import { watchList, bracketPicks, matchCompletions, roomParticipants, roomStates } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { createRng, generateSeed, shuffle, Rng } from '@/lib/utils/random';
+import { FilmSuggestions } from '@/lib/db/film-suggestions';
 
 export interface TournamentMovie {
   id: number;
   title: string;
   posterPath?: string;
+  suggested?: boolean; // filled in from the catalog, not on either watchlist
   movieData?: any;
 }
 
@@ -20,6 +23,7 @@ export interface Tournament {
   id: string;
   totalRounds: number;
   matches: TournamentMatch[];
+  rngSeed: number; // regenerates the same bracket from the same watchlists
 }
 
 export interface RoundAdvanceData {
@@ -44,7 +48,7 @@ export class SimplifiedTournamentManager {
     return SimplifiedTournamentManager.instance;
   }
 
-  async generateTournament(userAId: string, userBId: string): Promise<Tournament> {
+  async generateTournament(userAId: string, userBId: string, rngSeed: number = generateSeed()): Promise<Tournament> {
     // Fetch movies from both users
     const [userAMovies, userBMovies] = await Promise.all([
       this.getUserMovies(userAId),
@@ -61,10 +65,15 @@ export class SimplifiedTournamentManager {
     });
 
     let movies = Array.from(movieMap.values());
+    const rng = createRng(rngSeed);
 
     // Ensure we have at least 8 movies
     if (movies.length < 8) {
-      movies = this.padWithDefaultMovies(movies);
+      movies = await this.padWithSuggestedFilms(movies, [userAId, userBId], rng);
+    }
+
+    if (movies.length < 2) {
+      throw new Error('Not enough movies for a tournament');
     }
 
     // Limit to power of 2
@@ -72,13 +81,14 @@ export class SimplifiedTournamentManager {
     movies = movies.slice(0, targetSize);
 
     // Shuffle movies
-    movies = this.shuffle(movies);
+    movies = this.shuffle(movies, rng);
 
     // Generate bracket
     const tournament: Tournament = {
       id: `tournament-${Date.now()}`,
       totalRounds: Math.log2(movies.length),
-      matches: this.generateMatches(movies)
+      matches: this.generateMatches(movies),
+      rngSeed
     };
 
     return tournament;
@@ -90,6 +100,7 @@ export class SimplifiedTournamentManager {
         eq(watchList.userId, userId),
         eq(watchList.isWatched, false)
       ),
+      orderBy: (watchList, { asc }) => [asc(watchList.id)], // stable input so a seed reproduces the bracket
     });
 
     return watchListItems.map(item => ({
@@ -102,39 +113,30 @@ export class SimplifiedTournamentManager {
     }));
   }
 
-  private padWithDefaultMovies(movies: TournamentMovie[]): TournamentMovie[] {
-    const defaultMovies: TournamentMovie[] = [
-      { id: 1001, title: 'The Shawshank Redemption', posterPath: '/q6y0Go1tsGEsmtFryDOJo3dEmqu.jpg' },
-      { id: 1002, title: 'The Godfather', posterPath: '/3bhkrj58Vtu7enYsRolD1fZdja1.jpg' },
-      { id: 1003, title: 'The Dark Knight', posterPath: '/qJ2tW6WMUDux911r6m7haRef0WH.jpg' },
-      { id: 1004, title: 'Pulp Fiction', posterPath: '/d5iIlFn5s0ImszYzBPb8JPIfbXD.jpg' },
-      { id: 1005, title: 'Forrest Gump', posterPath: '/arw2vcBveWOVZr6pxd9XTd1TdQa.jpg' },
-      { id: 1006, title: 'Inception', posterPath: '/9gk7adHYeDvHkCSEqAvQNLV5Uge.jpg' },
-      { id: 1007, title: 'The Matrix', posterPath: '/f89U3ADr1oiB1s9GkdPOEpXUk5H.jpg' },
-      { id: 1008, title: 'Goodfellas', posterPath: '/aKuFiU82s5ISJpGZp7YkIr3kCUd.jpg' },
-    ];
-
-    const combined = [...movies];
-    let index = 0;
-
-    while (combined.length < 8 && index < defaultMovies.length) {
-      const defaultMovie = defaultMovies[index];
-      if (!combined.some(m => m.id === defaultMovie.id)) {
-        combined.push(defaultMovie);
-      }
-      index++;
-    }
+  // Tops up from the films catalog rather than hard-coded titles
+  private async padWithSuggestedFilms(
+    movies: TournamentMovie[],
+    participantIds: string[],
+    rng: Rng
+  ): Promise<TournamentMovie[]> {
+    const suggestions = await FilmSuggestions.suggest(participantIds, 8 - movies.length, {
+      excludeTmdbIds: movies.map(m => m.id),
+      rng,
+    });
 
-    return combined;
+    return [
+      ...movies,
+      ...suggestions.map(film => ({
+        id: film.tmdbId,
+        title: film.title,
+        posterPath: film.posterPath ?? undefined,
+        suggested: true,
+      })),
+    ];
   }
 
-  private shuffle<T>(array: T[]): T[] {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
+  private shuffle<T>(array: T[], rng: Rng): T[] {
+    return shuffle(array, rng);
   }
 
   private generateMatches(movies: TournamentMovie[]): TournamentMatch[] {
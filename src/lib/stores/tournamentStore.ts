@@ -42,7 +42,7 @@ export interface Room {
   id: string;
   code: string;
   ownerId: string;
-  status: 'waiting' | 'active' | 'completed' | 'abandoned';
+  status: 'waiting' | 'active' | 'completed' | 'abandoned' | 'expired';
   createdAt: string;
   startedAt?: string;
   completedAt?: string;
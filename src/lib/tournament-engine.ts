@@ -1,89 +1,279 @@
 import { db } from '@/db'
-import { watchList, users, rooms, bracketPicks, roomParticipants } from '@/db/schema'
-import { eq, and, or, isNull } from 'drizzle-orm'
+import { watchList, users, rooms, bracketPicks, roomParticipants, userMovieElo } from '@/db/schema'
+import { eq, and, or, isNull, inArray } from 'drizzle-orm'
+import { normalizeRoomSettings, RoomSettings, SeedingMode, TieBreakPolicy, TournamentFormat } from '@/lib/utils/room-settings'
+import { computeJointRatings, orderBySeed } from '@/lib/utils/seeding'
+import { createRng, deriveSeed, generateSeed, shuffle, Rng } from '@/lib/utils/random'
+import { PoolFilters, hasActiveFilters } from '@/lib/utils/pool-filters'
+import { FilmFilters } from '@/lib/db/film-filters'
+import { FilmSuggestions, SuggestedFilm } from '@/lib/db/film-suggestions'
+import { hasAllVotes, resolveMatchVotes, MatchResolution, MatchVote, TieBreak } from '@/lib/utils/voting'
+import { MIN_POOL_SIZE, MAX_POOL_SIZE, buildFirstRound, buildNextRound, getTotalRounds } from '@/lib/utils/bracket'
+import {
+  BracketSide,
+  DoubleEliminationMatch,
+  DoubleEliminationState,
+  applyDoubleEliminationResults,
+  buildDoubleEliminationStart,
+  countDoubleEliminationRounds,
+  scheduleDoubleEliminationRound,
+} from '@/lib/utils/double-elimination'
+import {
+  SWISS_MAX_POOL_SIZE,
+  SwissState,
+  applySwissResults,
+  createSwissState,
+  getSwissWinner,
+  pairSwissRound,
+} from '@/lib/utils/swiss'
+import { VetoPhase, createVetoPhase, getVetoedPool } from '@/lib/utils/veto'
+import type { PauseWindow } from '@/lib/utils/pause'
+import type { CandidateMovie } from '@/lib/utils/pool-source'
+import type { DbExecutor } from '@/lib/db/room-leases'
 
 export interface TournamentMovie {
   id: number;
   title: string;
   posterPath: string;
   fromUsers: string[]; // which users had this movie
+  seed?: number; // 1 is the top seed
+  jointElo?: number; // participants' average rating, only set for Elo seeding
+  suggested?: boolean; // picked from the films catalog to fill a thin pool, not from anyone's watchlist
   movieData?: any;
 }
 
 export interface TournamentMatch {
   matchId: string;
   roundNumber: number;
+  slot?: number; // position in the round, used to pair winners for the next round
+  bracket?: BracketSide; // double elimination only
+  bracketRound?: number; // round within `bracket`, which can lag the overall round
   movieA: TournamentMovie;
   movieB: TournamentMovie;
 }
 
+// A movie that advances without playing because the pool is not a power of two
+export interface TournamentBye {
+  roundNumber: number;
+  slot: number;
+  movie: TournamentMovie;
+}
+
 export interface Tournament {
   id: string;
   totalRounds: number;
   matches: TournamentMatch[];
+  byes?: TournamentBye[];
+  seeding?: SeedingMode;
+  format?: TournamentFormat; // missing on tournaments created before formats existed
+  doubleElimination?: DoubleEliminationState<TournamentMovie>;
+  swiss?: SwissState<TournamentMovie>;
+  rngSeed?: number; // with participantIds, regenerates the same round 1 from the same watchlists and ratings
+  participantIds?: string[];
+  veto?: VetoPhase<TournamentMovie>; // strikes made before the bracket was drawn; no matches until it is complete
+  resolutions?: Record<string, MatchResolution>; // every decided match so far, by match id
+  rematches?: Record<string, MatchVote[]>; // the split picks of matches replayed under the 'rematch' tie-break
+  rematchStartedAt?: Record<string, string>; // when each replayed match reopened, the start of its own pick timers
+  roundStartedAt?: string; // when the current round's matches were drawn, the start of every pick timer
+  pauses?: PauseWindow[]; // pick timers stand still through these
   currentRound: number;
   isFinalRound?: boolean;
   finalMovies?: TournamentMovie[];
 }
 
+// Minimum for a meaningful tournament; smaller pools fall back to the mock tournament
+export const MIN_TOURNAMENT_POOL_SIZE = 4;
+
+// Thin pools are filled up to a full eight-movie bracket
+const THIN_POOL_TARGET_SIZE = 8;
+
 export class TournamentEngine {
   
   static async generateTournament(
-    userAId: string, 
-    userBId: string,
-    options: { testMode?: boolean } = {}
+    participantIds: string[],
+    options: {
+      testMode?: boolean;
+      seeding?: SeedingMode;
+      format?: TournamentFormat;
+      rngSeed?: number;
+      filters?: PoolFilters;
+      excludeIds?: number[];
+      candidates?: CandidateMovie[];
+      pool?: TournamentMovie[];
+    } = {},
+    executor: DbExecutor = db
   ): Promise<Tournament> {
+    const seeding = options.seeding ?? 'random';
+    const format = options.format ?? 'single-elimination';
+    const rngSeed = options.rngSeed ?? generateSeed();
+    const rng = createRng(rngSeed);
+    
     try {
       // If test mode is enabled, skip database queries and use mock tournament
       if (options.testMode) {
         console.log('Test mode enabled - using mock tournament directly');
-        return this.generateMockTournament(userAId, userBId);
+        return this.generateMockTournament(participantIds, format, rngSeed);
       }
       
-      // 1. Fetch both users' unwatched movies
-      const userAMovies = await this.getUserWatchlist(userAId, { unwatchedOnly: true });
-      const userBMovies = await this.getUserWatchlist(userBId, { unwatchedOnly: true });
-      
-      console.log(`User A has ${userAMovies.length} movies, User B has ${userBMovies.length} movies`);
+      // 1-4. Build the candidate pool, unless the caller already settled on one (e.g. after the veto phase)
+      const pool = options.pool ?? await this.buildPool(participantIds, {
+        filters: options.filters,
+        excludeIds: options.excludeIds,
+        candidates: options.candidates,
+        rng,
+      }, executor);
       
-      // 2. Merge and deduplicate
-      const mergedMovies = this.mergeDeduplicate(userAMovies, userBMovies, userAId, userBId);
-      
-      console.log(`Merged to ${mergedMovies.length} unique movies`);
-      
-      // 3. Check if we have sufficient movies
-      const minMoviesRequired = 4; // Minimum for a meaningful tournament
-      
-      if (mergedMovies.length < minMoviesRequired) {
-        console.log(`Using mock tournament - insufficient movies (${mergedMovies.length} < ${minMoviesRequired})`);
-        return this.generateMockTournament(userAId, userBId);
+      if (pool.length < MIN_TOURNAMENT_POOL_SIZE) {
+        console.log(`Using mock tournament - insufficient movies (${pool.length} < ${MIN_TOURNAMENT_POOL_SIZE})`);
+        return this.generateMockTournament(participantIds, format, rngSeed);
       }
       
-      // 4. Ensure minimum tournament size (16-32 movies ideal)
-      const tournamentMovies = await this.ensureMinimumSize(mergedMovies, userAId, userBId);
+      const tournamentMovies = this.limitPoolSize(pool);
       
-      // 5. Generate bracket structure
-      const matches = this.generateBracketMatches(tournamentMovies);
+      // 5. Order the pool best seed first (Swiss breaks ties on Elo, so it needs ratings even for a random draw)
+      const jointRatings = seeding === 'elo' || format === 'swiss'
+        ? await this.getJointRatings(tournamentMovies, participantIds, executor)
+        : undefined;
+      const seededMovies = seeding === 'elo'
+        ? this.seedByElo(tournamentMovies, jointRatings!, rng)
+        : this.seedByDraw(tournamentMovies, rng, jointRatings);
       
-      console.log(`Generated tournament with ${tournamentMovies.length} movies and ${matches.length} matches`);
+      // 6. Generate bracket structure (1 vs N pairings, top seeds get byes when the pool is not a power of two)
+      const tournament = this.generateBracket(seededMovies, format);
       
-      // 6. Assign match IDs and round numbers
-      return {
-        id: this.generateTournamentId(),
-        totalRounds: Math.ceil(Math.log2(tournamentMovies.length)),
-        matches,
-        currentRound: 1
-      };
+      console.log(`Generated ${seeding}-seeded ${format} tournament with ${tournamentMovies.length} movies, ${tournament.matches.length} matches and ${tournament.byes?.length ?? 0} byes`);
+      
+      return { ...tournament, seeding, rngSeed, participantIds, roundStartedAt: new Date().toISOString() };
     } catch (error) {
+      // Inside the caller's transaction the failed query has aborted it, so a mock would only fail
+      // later on the caller's next write
+      if (executor !== db) {
+        throw error;
+      }
       console.error('Error generating tournament, falling back to mock:', error);
       // Fallback to mock tournament on any error
-      return this.generateMockTournament(userAId, userBId);
+      return this.generateMockTournament(participantIds, format, rngSeed);
+    }
+  }
+  
+  // A tournament waiting on the veto phase: the pool (from buildPool) is fixed but no bracket is drawn
+  // yet. Returns null when the pool is too thin to give anything up, so the room starts straight away.
+  static startVetoPhase(
+    participantIds: string[],
+    options: {
+      seeding: SeedingMode;
+      format: TournamentFormat;
+      pool: TournamentMovie[];
+      rngSeed: number;
+      vetoesPerUser: number;
+    }
+  ): Tournament | null {
+    const { pool, rngSeed } = options;
+    
+    if (pool.length <= MIN_TOURNAMENT_POOL_SIZE) {
+      console.log(`[VETO] Skipping veto phase, pool has only ${pool.length} movies`);
+      return null;
+    }
+    
+    console.log(`[VETO] Starting veto phase on ${pool.length} movies, ${options.vetoesPerUser} vetoes each`);
+    return {
+      id: this.generateTournamentId(),
+      totalRounds: 0,
+      matches: [],
+      seeding: options.seeding,
+      format: options.format,
+      rngSeed,
+      participantIds,
+      veto: createVetoPhase(pool, options.vetoesPerUser),
+      currentRound: 0
+    };
+  }
+    
+  // Draws the bracket from whatever survived the vetoes, with the seed stored at the start of the phase
+  static async completeVetoPhase(pending: Tournament, executor: DbExecutor = db): Promise<Tournament> {
+    const veto = pending.veto!;
+    const pool = getVetoedPool(veto);
+    
+    const tournament = await this.generateTournament(pending.participantIds ?? [], {
+      seeding: pending.seeding,
+      format: pending.format,
+      rngSeed: pending.rngSeed,
+      pool,
+    }, executor);
+    
+    console.log(`[VETO] Veto phase complete, ${veto.vetoes.length} vetoed, drawing bracket from ${pool.length} movies`);
+    return { ...tournament, veto: { ...veto, complete: true } };
+  }
+  
+  // The merged, filtered and topped-up pool, capped at the largest bracket. Can come back with
+  // fewer than MIN_TOURNAMENT_POOL_SIZE movies when the watchlists and catalog run dry.
+  static async buildPool(
+    participantIds: string[],
+    options: { filters?: PoolFilters; excludeIds?: number[]; candidates?: CandidateMovie[]; rng: Rng },
+    executor: DbExecutor = db
+  ): Promise<TournamentMovie[]> {
+    const excluded = new Set(options.excludeIds ?? []);
+    
+    // 1-2. The owner's curated list stands in for the watchlists. Lobby filters are for narrowing
+    // watchlists down, so they don't apply to a hand-chosen pool.
+    let mergedMovies = options.candidates
+      ? options.candidates.filter(m => !excluded.has(m.id)).map(m => this.toCandidateMovie(m))
+      : await this.mergeWatchlists(participantIds, excluded, options.filters, executor);
+    
+    // 3. Top up thin pools from the films catalog
+    if (mergedMovies.length < MIN_TOURNAMENT_POOL_SIZE) {
+      const suggestions = await FilmSuggestions.suggest(
+        participantIds,
+        THIN_POOL_TARGET_SIZE - mergedMovies.length,
+        { excludeTmdbIds: [...mergedMovies.map(m => m.id), ...excluded], filters: options.filters, rng: options.rng, executor }
+      );
+      console.log(`Topped up ${mergedMovies.length} movies with ${suggestions.length} catalog suggestions`);
+      mergedMovies = [...mergedMovies, ...suggestions.map(film => this.toSuggestedMovie(film))];
+    }
+    
+    // 4. Cap the pool at the largest bracket we support
+    return this.limitPoolSize(mergedMovies);
+  }
+  
+  // Every participant's unwatched movies, deduplicated, without the room's exclusions and narrowed by its filters
+  private static async mergeWatchlists(
+    participantIds: string[],
+    excluded: Set<number>,
+    filters: PoolFilters | undefined,
+    executor: DbExecutor
+  ): Promise<TournamentMovie[]> {
+    const watchlists = await Promise.all(
+      participantIds.map(async userId => ({
+        userId,
+        movies: await this.getUserWatchlist(userId, { unwatchedOnly: true }, executor),
+      }))
+    );
+    
+    console.log(`Watchlist sizes: ${watchlists.map(w => w.movies.length).join(', ')}`);
+    
+    const unfilteredMovies = this.mergeDeduplicate(watchlists).filter(m => !excluded.has(m.id));
+    
+    console.log(`Merged to ${unfilteredMovies.length} unique movies`);
+    
+    if (!filters || !hasActiveFilters(filters)) {
+      return unfilteredMovies;
     }
+    
+    const allowed = await FilmFilters.filterTmdbIds(
+      unfilteredMovies.map(m => m.id),
+      filters,
+      participantIds,
+      executor
+    );
+    const filtered = unfilteredMovies.filter(m => allowed.has(m.id));
+    console.log(`Filters kept ${filtered.length} of ${unfilteredMovies.length} movies`);
+    return filtered;
   }
   
   private static async getUserWatchlist(
     userId: string, 
-    options: { unwatchedOnly?: boolean } = {}
+    options: { unwatchedOnly?: boolean } = {},
+    executor: DbExecutor = db
   ) {
     const conditions = [eq(watchList.userId, userId)];
     
@@ -91,103 +281,163 @@ export class TournamentEngine {
       conditions.push(eq(watchList.isWatched, false));
     }
     
-    return await db
+    return await executor
       .select()
       .from(watchList)
-      .where(and(...conditions));
+      .where(and(...conditions))
+      .orderBy(watchList.id); // stable input so a seed reproduces the bracket
   }
   
   private static mergeDeduplicate(
-    userAMovies: any[], 
-    userBMovies: any[],
-    userAId: string,
-    userBId: string
+    watchlists: Array<{ userId: string; movies: any[] }>
   ): TournamentMovie[] {
     // Create map to track which users have each movie
     const movieMap = new Map<number, TournamentMovie>();
     
-    // Add user A movies
-    userAMovies.forEach(movie => {
-      movieMap.set(movie.tmdbMovieId, {
-        id: movie.tmdbMovieId,
-        title: movie.movieTitle,
-        posterPath: movie.movieData?.poster_path || '',
-        fromUsers: [userAId],
-        movieData: movie.movieData
+    // Add each participant's movies in join order (merge if duplicate)
+    watchlists.forEach(({ userId, movies }) => {
+      movies.forEach(movie => {
+        const existing = movieMap.get(movie.tmdbMovieId);
+        if (existing) {
+          if (!existing.fromUsers.includes(userId)) {
+            existing.fromUsers.push(userId);
+          }
+        } else {
+          movieMap.set(movie.tmdbMovieId, {
+            id: movie.tmdbMovieId,
+            title: movie.movieTitle,
+            posterPath: movie.movieData?.poster_path || '',
+            fromUsers: [userId],
+            movieData: movie.movieData
+          });
+        }
       });
     });
     
-    // Add user B movies (merge if duplicate)
-    userBMovies.forEach(movie => {
-      const existing = movieMap.get(movie.tmdbMovieId);
-      if (existing) {
-        existing.fromUsers.push(userBId);
-      } else {
-        movieMap.set(movie.tmdbMovieId, {
-          id: movie.tmdbMovieId,
-          title: movie.movieTitle, 
-          posterPath: movie.movieData?.poster_path || '',
-          fromUsers: [userBId],
-          movieData: movie.movieData
-        });
-      }
-    });
-    
     return Array.from(movieMap.values());
   }
   
-  private static async ensureMinimumSize(
-    mergedMovies: TournamentMovie[],
-    userAId: string,
-    userBId: string
-  ): Promise<TournamentMovie[]> {
-    const minSize = 16;
-    
-    if (mergedMovies.length >= minSize) {
-      // Limit to power of 2 for clean bracket
-      const maxSize = Math.pow(2, Math.floor(Math.log2(mergedMovies.length)));
-      return mergedMovies.slice(0, maxSize);
+  private static toCandidateMovie(movie: CandidateMovie): TournamentMovie {
+    return {
+      id: movie.id,
+      title: movie.title,
+      posterPath: movie.posterPath,
+      fromUsers: [],
+    };
+  }
+  
+  private static toSuggestedMovie(film: SuggestedFilm): TournamentMovie {
+    return {
+      id: film.tmdbId,
+      title: film.title,
+      posterPath: film.posterPath || '',
+      fromUsers: [],
+      suggested: true,
+      movieData: {
+        poster_path: film.posterPath,
+        release_date: film.releaseDate,
+        vote_average: film.voteAverage !== null ? film.voteAverage / 10 : null,
+        genres: film.genres,
+      },
+    };
+  }
+  
+  private static limitPoolSize(mergedMovies: TournamentMovie[]): TournamentMovie[] {
+    if (mergedMovies.length <= MAX_POOL_SIZE) {
+      return mergedMovies;
     }
     
-    // If too few movies, add popular movies from both users' genres
-    // For MVP, just use what we have and pad to next power of 2
-    const targetSize = Math.max(8, Math.pow(2, Math.ceil(Math.log2(mergedMovies.length))));
+    // Keep the movies most participants want to see
+    return [...mergedMovies]
+      .sort((a, b) => b.fromUsers.length - a.fromUsers.length)
+      .slice(0, MAX_POOL_SIZE);
+  }
+  
+  private static async getJointRatings(
+    movies: TournamentMovie[],
+    participantIds: string[],
+    executor: DbExecutor = db
+  ): Promise<Map<number, number>> {
+    const movieIds = movies.map(m => m.id);
+    const ratings = participantIds.length > 0
+      ? await executor
+          .select({
+            userId: userMovieElo.userId,
+            movieId: userMovieElo.movieId,
+            eloRating: userMovieElo.eloRating,
+          })
+          .from(userMovieElo)
+          .where(and(
+            inArray(userMovieElo.userId, participantIds),
+            inArray(userMovieElo.movieId, movieIds)
+          ))
+      : [];
     
-    // For now, duplicate movies to reach target size (MVP approach)
-    while (mergedMovies.length < targetSize && mergedMovies.length > 0) {
-      const randomMovie = mergedMovies[Math.floor(Math.random() * mergedMovies.length)];
-      mergedMovies.push({
-        ...randomMovie,
-        id: randomMovie.id + 100000 + mergedMovies.length, // Temporary ID offset
-      });
-    }
+    return computeJointRatings(movieIds, participantIds, ratings);
+  }
+  
+  // Seeds by the participants' combined Elo ratings; the shuffle only decides between equal ratings
+  private static seedByElo(movies: TournamentMovie[], jointRatings: Map<number, number>, rng: Rng): TournamentMovie[] {
+    const shuffled = shuffle(movies, rng);
     
-    return mergedMovies.slice(0, targetSize);
+    return orderBySeed(shuffled, jointRatings).map((movie, index) => ({
+      ...movie,
+      seed: index + 1,
+      jointElo: jointRatings.get(movie.id),
+    }));
+  }
+  
+  // A plain draw: the shuffled order is the seeding
+  private static seedByDraw(movies: TournamentMovie[], rng: Rng, jointRatings?: Map<number, number>): TournamentMovie[] {
+    return shuffle(movies, rng)
+      .map((movie, index) => ({ ...movie, seed: index + 1, jointElo: jointRatings?.get(movie.id) }));
   }
   
-  private static generateBracketMatches(movies: TournamentMovie[]): TournamentMatch[] {
-    if (movies.length < 2) {
-      throw new Error('Need at least 2 movies for tournament');
+  // `seededMovies` must already be ordered best seed first
+  private static generateBracket(seededMovies: TournamentMovie[], format: TournamentFormat): Tournament {
+    if (seededMovies.length < MIN_POOL_SIZE) {
+      throw new Error(`Need at least ${MIN_POOL_SIZE} movies for tournament`);
     }
     
-    const matches: TournamentMatch[] = [];
-    const shuffledMovies = [...movies].sort(() => Math.random() - 0.5); // Shuffle for fairness
-    
     // Only generate matches for round 1
     // Future rounds will be generated dynamically as the tournament progresses
-    for (let i = 0; i < shuffledMovies.length; i += 2) {
-      if (i + 1 < shuffledMovies.length) {
-        const matchId = `round-1-match-${Math.floor(i / 2) + 1}`;
-        matches.push({
-          matchId,
-          roundNumber: 1,
-          movieA: shuffledMovies[i],
-          movieB: shuffledMovies[i + 1],
-        });
-      }
+    if (format === 'swiss') {
+      // Keep the top seeds when the pool is too big to rank quickly
+      const swiss = createSwissState(seededMovies.slice(0, SWISS_MAX_POOL_SIZE));
+      const { matches, bye } = pairSwissRound(swiss, 1);
+      return {
+        id: this.generateTournamentId(),
+        totalRounds: swiss.totalRounds,
+        matches,
+        byes: bye ? [{ roundNumber: 1, slot: matches.length, movie: bye }] : [],
+        format,
+        swiss,
+        currentRound: 1
+      };
     }
     
-    return matches;
+    if (format === 'double-elimination') {
+      const { state, matches, byes } = buildDoubleEliminationStart(seededMovies);
+      return {
+        id: this.generateTournamentId(),
+        totalRounds: countDoubleEliminationRounds(seededMovies.length),
+        matches,
+        byes,
+        format,
+        doubleElimination: state,
+        currentRound: 1
+      };
+    }
+    
+    const { matches, byes } = buildFirstRound(seededMovies);
+    return {
+      id: this.generateTournamentId(),
+      totalRounds: getTotalRounds(seededMovies.length),
+      matches,
+      byes,
+      format,
+      currentRound: 1
+    };
   }
   
   private static generateTournamentId(): string {
@@ -195,82 +445,94 @@ export class TournamentEngine {
   }
   
   // Test function for health checks
-  static async generateMockTournament(userAId?: string, userBId?: string): Promise<Tournament> {
+  static async generateMockTournament(
+    participantIds: string[] = [],
+    format: TournamentFormat = 'single-elimination',
+    rngSeed: number = generateSeed()
+  ): Promise<Tournament> {
+    // Spread the mock movies across participants as if each had added some
+    const owners = participantIds.length > 0 ? participantIds : ['user1', 'user2'];
+    const ownerOf = (index: number) => owners[index % owners.length];
+    
     const mockMovies: TournamentMovie[] = [
       { 
         id: 1, 
         title: 'The Shawshank Redemption', 
         posterPath: '/q6y0Go1tsGEsmtFryDOJo3dEmqu.jpg', 
-        fromUsers: [userAId || 'user1'] 
+        fromUsers: [ownerOf(0)] 
       },
       { 
         id: 2, 
         title: 'The Godfather', 
         posterPath: '/3bhkrj58Vtu7enYsRolD1fZdja1.jpg', 
-        fromUsers: [userBId || 'user2'] 
+        fromUsers: [ownerOf(1)] 
       },
       { 
         id: 3, 
         title: 'The Dark Knight', 
         posterPath: '/qJ2tW6WMUDux911r6m7haRef0WH.jpg', 
-        fromUsers: [userAId || 'user1'] 
+        fromUsers: [ownerOf(2)] 
       },
       { 
         id: 4, 
         title: 'Pulp Fiction', 
         posterPath: '/d5iIlFn5s0ImszYzBPb8JPIfbXD.jpg', 
-        fromUsers: [userBId || 'user2'] 
+        fromUsers: [ownerOf(3)] 
       },
       { 
         id: 5, 
         title: 'Forrest Gump', 
         posterPath: '/arw2vcBveWOVZr6pxd9XTd1TdQa.jpg', 
-        fromUsers: [userAId || 'user1'] 
+        fromUsers: [ownerOf(4)] 
       },
       { 
         id: 6, 
         title: 'Inception', 
         posterPath: '/9gk7adHYeDvHkCSEqAvQNLV5Uge.jpg', 
-        fromUsers: [userBId || 'user2'] 
+        fromUsers: [ownerOf(5)] 
       },
       { 
         id: 7, 
         title: 'The Matrix', 
         posterPath: '/f89U3ADr1oiB1s9GkdPOEpXUk5H.jpg', 
-        fromUsers: [userAId || 'user1'] 
+        fromUsers: [ownerOf(6)] 
       },
       { 
         id: 8, 
         title: 'Goodfellas', 
         posterPath: '/aKuFiU82s5ISJpGZp7YkIr3kCUd.jpg', 
-        fromUsers: [userBId || 'user2'] 
+        fromUsers: [ownerOf(7)] 
       },
     ];
     
-    const matches = this.generateBracketMatches(mockMovies);
-    
     return {
-      id: this.generateTournamentId(),
-      totalRounds: Math.ceil(Math.log2(mockMovies.length)),
-      matches,
-      currentRound: 1
+      ...this.generateBracket(this.seedByDraw(mockMovies, createRng(rngSeed)), format),
+      rngSeed,
+      participantIds,
+      roundStartedAt: new Date().toISOString(),
     };
   }
 
   // NEW: Handle round advancement within TournamentEngine
-  static async advanceTournamentRound(roomId: string): Promise<{
+  static async advanceTournamentRound(roomId: string, executor: DbExecutor = db): Promise<{
     success: boolean;
     newMatches?: TournamentMatch[];
     isFinalRound?: boolean;
     isComplete?: boolean;
     winner?: TournamentMovie;
+    resolutions?: Record<string, MatchResolution>;
+    roundStartedAt?: string;
+    doubleElimination?: DoubleEliminationState<TournamentMovie>;
+    swiss?: SwissState<TournamentMovie>;
+    byes?: TournamentBye[];
+    totalRounds?: number;
     error?: string;
   }> {
     try {
       console.log(`[TOURNAMENT_ENGINE] Advancing round for room ${roomId}`);
       
       // Get room and tournament data
-      const room = await db.query.rooms.findFirst({
+      const room = await executor.query.rooms.findFirst({
         where: eq(rooms.id, roomId),
       });
       
@@ -280,9 +542,20 @@ export class TournamentEngine {
       
       const tournament = room.tournamentData as Tournament;
       const currentRound = tournament.currentRound;
+      const settings = normalizeRoomSettings(room.settings);
+      
+      // Every active participant votes on every match
+      const activeParticipants = await executor.query.roomParticipants.findMany({
+        where: and(
+          eq(roomParticipants.roomId, roomId),
+          eq(roomParticipants.isActive, true),
+          eq(roomParticipants.role, 'player')
+        ),
+      });
+      const voterIds = activeParticipants.map(p => p.userId);
       
       // Get all picks for the current round
-      const roundPicks = await db.query.bracketPicks.findMany({
+      const roundPicks = await executor.query.bracketPicks.findMany({
         where: and(
           eq(bracketPicks.roomId, roomId),
           eq(bracketPicks.roundNumber, currentRound)
@@ -292,45 +565,38 @@ export class TournamentEngine {
       // Get current round matches
       const currentRoundMatches = tournament.matches.filter(m => m.roundNumber === currentRound);
       
+      // Byes advance without a match; winners join them in slot order
+      const results: Array<{ slot: number; movie: TournamentMovie }> = (tournament.byes ?? [])
+        .filter(bye => bye.roundNumber === currentRound)
+        .map(bye => ({ slot: bye.slot, movie: bye.movie }));
+      
+      const tieBreaks = await this.getTieBreaks(tournament, currentRoundMatches, voterIds, {
+        policy: settings.tieBreak,
+        ownerId: room.ownerId,
+      }, executor);
+      
       // Determine winners for each match
       const winners: TournamentMovie[] = [];
+      const decided: Array<{ match: TournamentMatch; winner: TournamentMovie }> = [];
+      const resolutions: Record<string, MatchResolution> = {};
       
       for (const match of currentRoundMatches) {
-        const matchPicks = roundPicks.filter(pick => pick.matchId === match.matchId);
+        // Settled when its last pick came in (see resolveMatch); a later leaver doesn't reopen it
+        const settled = tournament.resolutions?.[match.matchId];
+        
+        // Picks from participants who have since left no longer count
+        const matchPicks = roundPicks.filter(pick => 
+          pick.matchId === match.matchId && voterIds.includes(pick.userId)
+        );
         
-        if (matchPicks.length < 2) {
+        if (!settled && !hasAllVotes(matchPicks, voterIds)) {
           continue; // Skip incomplete matches
         }
         
-        // Count votes for each movie
-        const voteCounts = new Map<number, number>();
-        matchPicks.forEach(pick => {
-          voteCounts.set(pick.selectedMovieId, (voteCounts.get(pick.selectedMovieId) || 0) + 1);
-        });
-        
-        // Determine winner (majority wins, random if tied)
-        let winnerId = matchPicks[0].selectedMovieId;
-        let maxVotes = 0;
-        
-        voteCounts.forEach((votes, movieId) => {
-          if (votes > maxVotes) {
-            maxVotes = votes;
-            winnerId = movieId;
-          }
-        });
+        const resolution = settled ?? this.toResolution(tournament, match, matchPicks, voterIds.length, settings, tieBreaks);
         
         // Find winner movie from match data (ONLY from existing match data)
-        let winnerMovie: TournamentMovie | null = null;
-        if (winnerId === match.movieA.id) {
-          winnerMovie = match.movieA;
-        } else if (winnerId === match.movieB.id) {
-          winnerMovie = match.movieB;
-        }
-        
-        if (!winnerMovie) {
-          console.error(`[TOURNAMENT_ENGINE] Winner movie ${winnerId} not found in match ${match.matchId}`);
-          return { success: false, error: `Winner movie ${winnerId} not found` };
-        }
+        const winnerMovie = resolution.winnerId === match.movieA.id ? match.movieA : match.movieB;
         
         // Validate winner movie has proper data
         if (!winnerMovie.title || winnerMovie.title.startsWith('Winner of Round')) {
@@ -339,62 +605,78 @@ export class TournamentEngine {
         }
         
         winners.push(winnerMovie);
-        console.log(`[TOURNAMENT_ENGINE] Match ${match.matchId} winner: ${winnerMovie.title} (ID: ${winnerMovie.id})`);
+        decided.push({ match, winner: winnerMovie });
+        results.push({ slot: match.slot ?? currentRoundMatches.indexOf(match), movie: winnerMovie });
+        resolutions[match.matchId] = resolution;
+        console.log(`[TOURNAMENT_ENGINE] Match ${match.matchId} winner: ${winnerMovie.title} (ID: ${winnerMovie.id}) by ${resolution.decidedBy}`, resolution.votes);
       }
       
       if (winners.length === 0) {
         return { success: false, error: 'No winners found' };
       }
       
-      // Check if tournament is complete
-      if (winners.length === 1) {
-        console.log(`[TOURNAMENT_ENGINE] Tournament complete! Winner: ${winners[0].title}`);
-        return {
-          success: true,
-          isComplete: true,
-          winner: winners[0]
-        };
+      // Kept with the tournament so clients can see how every match was settled
+      tournament.resolutions = { ...tournament.resolutions, ...resolutions };
+      const roundStartedAt = new Date().toISOString();
+      tournament.roundStartedAt = roundStartedAt;
+      
+      if (tournament.format === 'swiss' && tournament.swiss) {
+        const advanced = await this.advanceSwiss(roomId, tournament, decided, executor);
+        return { ...advanced, resolutions, roundStartedAt };
       }
       
-      // Check if this is the final round (2 winners)
-      if (winners.length === 2) {
-        const finalMatch: TournamentMatch = {
-          matchId: `final-round-${currentRound + 1}`,
-          roundNumber: currentRound + 1,
-          movieA: winners[0],
-          movieB: winners[1]
-        };
-        
-        console.log(`[TOURNAMENT_ENGINE] Final round! ${winners[0].title} vs ${winners[1].title}`);
-        
+      if (tournament.format === 'double-elimination' && tournament.doubleElimination) {
+        const advanced = await this.advanceDoubleElimination(roomId, tournament, decided, settings.grandFinalReset, executor);
+        return { ...advanced, resolutions, roundStartedAt };
+      }
+      
+      // Check if tournament is complete
+      if (results.length === 1) {
+        console.log(`[TOURNAMENT_ENGINE] Tournament complete! Winner: ${results[0].movie.title}`);
+        await executor
+          .update(rooms)
+          .set({ tournamentData: tournament })
+          .where(eq(rooms.id, roomId));
         return {
           success: true,
-          isFinalRound: true,
-          newMatches: [finalMatch]
+          isComplete: true,
+          winner: results[0].movie,
+          resolutions
         };
       }
       
       // Generate matches for next round
       const nextRound = currentRound + 1;
-      const newMatches: TournamentMatch[] = [];
-      
-      for (let i = 0; i < winners.length; i += 2) {
-        if (i + 1 < winners.length) {
-          const matchId = `round-${nextRound}-match-${Math.floor(i / 2) + 1}`;
-          newMatches.push({
-            matchId,
-            roundNumber: nextRound,
-            movieA: winners[i],
-            movieB: winners[i + 1]
-          });
-        }
+      const newMatches = buildNextRound(results, nextRound);
+      const isFinalRound = newMatches.length === 1;
+      
+      if (isFinalRound) {
+        newMatches[0].matchId = `final-round-${nextRound}`;
+        console.log(`[TOURNAMENT_ENGINE] Final round! ${newMatches[0].movieA.title} vs ${newMatches[0].movieB.title}`);
+      } else {
+        console.log(`[TOURNAMENT_ENGINE] Generated ${newMatches.length} matches for round ${nextRound}`);
       }
       
-      console.log(`[TOURNAMENT_ENGINE] Generated ${newMatches.length} matches for round ${nextRound}`);
+      // Persist the new round so the next advancement reads the right picks
+      const updatedTournament: Tournament = {
+        ...tournament,
+        currentRound: nextRound,
+        matches: [...tournament.matches, ...newMatches],
+        isFinalRound,
+        finalMovies: isFinalRound ? [newMatches[0].movieA, newMatches[0].movieB] : undefined
+      };
+      
+      await executor
+        .update(rooms)
+        .set({ tournamentData: updatedTournament })
+        .where(eq(rooms.id, roomId));
       
       return {
         success: true,
-        newMatches
+        isFinalRound,
+        newMatches,
+        resolutions,
+        roundStartedAt
       };
       
     } catch (error) {
@@ -405,6 +687,235 @@ export class TournamentEngine {
       };
     }
   }
+  
+  // Settles one match as soon as everyone has picked, so it shows as decided while the rest of its
+  // round is still being played. Stored with the tournament; the round's advance keeps it.
+  static async resolveMatch(
+    roomId: string,
+    matchId: string,
+    executor: DbExecutor = db
+  ): Promise<MatchResolution | null> {
+    const room = await executor.query.rooms.findFirst({
+      where: eq(rooms.id, roomId),
+    });
+    const tournament = room?.tournamentData as Tournament | null;
+    const match = tournament?.matches.find(m => m.matchId === matchId);
+    if (!room || !tournament || !match) {
+      return null;
+    }
+    if (tournament.resolutions?.[matchId]) {
+      return tournament.resolutions[matchId];
+    }
+    
+    const settings = normalizeRoomSettings(room.settings);
+    const voters = await executor.query.roomParticipants.findMany({
+      where: and(
+        eq(roomParticipants.roomId, roomId),
+        eq(roomParticipants.isActive, true),
+        eq(roomParticipants.role, 'player')
+      ),
+    });
+    const voterIds = voters.map(p => p.userId);
+    const picks = (await executor.query.bracketPicks.findMany({
+      where: and(
+        eq(bracketPicks.roomId, roomId),
+        eq(bracketPicks.matchId, matchId)
+      ),
+    })).filter(pick => voterIds.includes(pick.userId));
+    
+    if (!hasAllVotes(picks, voterIds)) {
+      return null;
+    }
+    
+    const tieBreaks = await this.getTieBreaks(tournament, [match], voterIds, {
+      policy: settings.tieBreak,
+      ownerId: room.ownerId,
+    }, executor);
+    const resolution = this.toResolution(tournament, match, picks, voterIds.length, settings, tieBreaks);
+    
+    await executor
+      .update(rooms)
+      .set({ tournamentData: { ...tournament, resolutions: { ...tournament.resolutions, [matchId]: resolution } } })
+      .where(eq(rooms.id, roomId));
+    return resolution;
+  }
+  
+  private static toResolution(
+    tournament: Tournament,
+    match: TournamentMatch,
+    picks: MatchVote[],
+    voterCount: number,
+    settings: RoomSettings,
+    tieBreaks: Map<string, TieBreak>
+  ): MatchResolution {
+    const resolution = resolveMatchVotes(match.movieA, match.movieB, picks, {
+      rule: settings.votingRule,
+      voterCount,
+      tieBreak: tieBreaks.get(match.matchId),
+    });
+    if (tournament.rematches?.[match.matchId]) {
+      resolution.rematched = true;
+    }
+    return resolution;
+  }
+  
+  // What the room's tie-break policy needs for each match; only read when the votes are split
+  static async getTieBreaks(
+    tournament: Tournament,
+    matches: TournamentMatch[],
+    voterIds: string[],
+    options: { policy: TieBreakPolicy; ownerId: string },
+    executor: DbExecutor = db
+  ): Promise<Map<string, TieBreak>> {
+    // Every policy falls back to Elo when it can't decide, so ratings are needed for all but the coin flip
+    const jointRatings = options.policy === 'coin-flip'
+      ? undefined
+      : await this.getJointRatings(matches.flatMap(m => [m.movieA, m.movieB]), voterIds, executor);
+    
+    return new Map(matches.map(match => [match.matchId, {
+      policy: options.policy,
+      jointElo: jointRatings && {
+        [match.movieA.id]: jointRatings.get(match.movieA.id)!,
+        [match.movieB.id]: jointRatings.get(match.movieB.id)!,
+      },
+      // Each match gets its own draw from the room seed, so replaying the room flips the same way
+      coinFlip: tournament.rngSeed === undefined
+        ? undefined
+        : createRng(deriveSeed(tournament.rngSeed, match.matchId))(),
+      ownerId: options.ownerId,
+    }]));
+  }
+  
+  // Nobody is knocked out; after the last round the movie with the most wins takes it
+  private static async advanceSwiss(
+    roomId: string,
+    tournament: Tournament,
+    decided: Array<{ match: TournamentMatch; winner: TournamentMovie }>,
+    executor: DbExecutor
+  ) {
+    const currentRound = tournament.currentRound;
+    const bye = (tournament.byes ?? []).find(b => b.roundNumber === currentRound);
+    const applied = applySwissResults(
+      tournament.swiss!,
+      decided.map(({ match, winner }) => ({ match: { ...match, slot: match.slot ?? 0 }, winner })),
+      bye?.movie
+    );
+    
+    if (currentRound >= applied.totalRounds) {
+      const winner = getSwissWinner(applied);
+      console.log(`[TOURNAMENT_ENGINE] Swiss complete! Winner: ${winner.title}`);
+      await executor
+        .update(rooms)
+        .set({ tournamentData: { ...tournament, swiss: applied } })
+        .where(eq(rooms.id, roomId));
+      
+      return {
+        success: true,
+        isComplete: true,
+        winner,
+        swiss: applied,
+      };
+    }
+    
+    const nextRound = currentRound + 1;
+    const { matches: newMatches, bye: nextBye } = pairSwissRound(applied, nextRound);
+    const byes: TournamentBye[] = nextBye ? [{ roundNumber: nextRound, slot: newMatches.length, movie: nextBye }] : [];
+    
+    console.log(`[TOURNAMENT_ENGINE] Generated ${newMatches.length} Swiss matches for round ${nextRound}`);
+    
+    await executor
+      .update(rooms)
+      .set({
+        tournamentData: {
+          ...tournament,
+          currentRound: nextRound,
+          matches: [...tournament.matches, ...newMatches],
+          byes: [...(tournament.byes ?? []), ...byes],
+          swiss: applied,
+        },
+      })
+      .where(eq(rooms.id, roomId));
+    
+    return {
+      success: true,
+      isFinalRound: false,
+      newMatches,
+      byes,
+      swiss: applied,
+    };
+  }
+  
+  // Losers of winners' bracket matches drop into the losers' bracket instead of going out
+  private static async advanceDoubleElimination(
+    roomId: string,
+    tournament: Tournament,
+    decided: Array<{ match: TournamentMatch; winner: TournamentMovie }>,
+    grandFinalReset: boolean,
+    executor: DbExecutor
+  ) {
+    const currentRound = tournament.currentRound;
+    const applied = applyDoubleEliminationResults(
+      tournament.doubleElimination!,
+      decided.map(({ match, winner }) => ({
+        match: {
+          ...match,
+          slot: match.slot ?? 0,
+          bracket: match.bracket ?? 'winners',
+          bracketRound: match.bracketRound ?? currentRound,
+        } as DoubleEliminationMatch<TournamentMovie>,
+        winner,
+      })),
+      currentRound,
+      { grandFinalReset }
+    );
+    
+    if (applied.stage === 'complete' && applied.champion) {
+      console.log(`[TOURNAMENT_ENGINE] Double elimination complete! Winner: ${applied.champion.title}`);
+      await executor
+        .update(rooms)
+        .set({ tournamentData: { ...tournament, doubleElimination: applied } })
+        .where(eq(rooms.id, roomId));
+      
+      return {
+        success: true,
+        isComplete: true,
+        winner: applied.champion,
+        doubleElimination: applied,
+      };
+    }
+    
+    const nextRound = currentRound + 1;
+    const scheduled = scheduleDoubleEliminationRound(applied, nextRound);
+    const newMatches: TournamentMatch[] = scheduled.matches;
+    const isFinalRound = newMatches.length === 1 && newMatches[0].bracket === 'grand-final';
+    // A grand final reset is one round more than planned
+    const totalRounds = Math.max(tournament.totalRounds, nextRound);
+    
+    console.log(`[TOURNAMENT_ENGINE] Generated ${newMatches.length} matches for round ${nextRound} (${scheduled.state.winners.length} unbeaten, ${scheduled.state.losers.length} with one loss)`);
+    
+    const updatedTournament: Tournament = {
+      ...tournament,
+      totalRounds,
+      currentRound: nextRound,
+      matches: [...tournament.matches, ...newMatches],
+      doubleElimination: scheduled.state,
+      isFinalRound,
+      finalMovies: isFinalRound ? [newMatches[0].movieA, newMatches[0].movieB] : undefined
+    };
+    
+    await executor
+      .update(rooms)
+      .set({ tournamentData: updatedTournament })
+      .where(eq(rooms.id, roomId));
+    
+    return {
+      success: true,
+      isFinalRound,
+      newMatches,
+      doubleElimination: scheduled.state,
+      totalRounds,
+    };
+  }
 }
 
 // Tournament progress tracking
@@ -469,11 +980,12 @@ export class TournamentProgress {
         return false;
       }
 
-      // Get all active participants to check if we're in test mode
+      // Get all active players to check if we're in test mode; spectators don't pick
       const activeParticipants = await db.query.roomParticipants.findMany({
         where: and(
           eq(roomParticipants.roomId, room.id),
-          eq(roomParticipants.isActive, true)
+          eq(roomParticipants.isActive, true),
+          eq(roomParticipants.role, 'player')
         ),
       });
 
@@ -512,8 +1024,8 @@ export class TournamentProgress {
           picks: matchPicks.map(p => ({ userId: p.userId, selectedMovieId: p.selectedMovieId }))
         });
         
-        // If this match doesn't have picks from both users, round cannot advance
-        if (uniqueUsers.size < 2) {
+        // If this match doesn't have picks from every active participant, round cannot advance
+        if (!hasAllVotes(matchPicks, activeParticipants.map(p => p.userId))) {
           console.log(`❌ Match ${match.matchId} incomplete: only ${uniqueUsers.size} user(s) have picked`);
           return false;
         }
@@ -556,10 +1068,21 @@ export class TournamentProgress {
 
       // 3. Determine round winners based on user selections
       const currentRoundMatches = tournament.matches.filter(m => m.roundNumber === currentRound);
-      const winners: TournamentMovie[] = [];
+      const results: Array<{ slot: number; movie: TournamentMovie }> = (tournament.byes ?? [])
+        .filter(bye => bye.roundNumber === currentRound)
+        .map(bye => ({ slot: bye.slot, movie: bye.movie }));
 
       console.log(`🔍 Processing ${currentRoundMatches.length} matches from round ${currentRound}:`);
 
+      // This older flow has no way to replay a match, so a 'rematch' policy settles split votes on Elo
+      const settings = normalizeRoomSettings(room.settings);
+      const tieBreaks = await TournamentEngine.getTieBreaks(
+        tournament,
+        currentRoundMatches,
+        Array.from(new Set(roundPicks.map(p => p.userId))),
+        { policy: settings.tieBreak, ownerId: room.ownerId }
+      );
+
       for (const match of currentRoundMatches) {
         // Get picks for this match
         const matchPicks = roundPicks.filter(pick => pick.matchId === match.matchId);
@@ -573,29 +1096,30 @@ export class TournamentProgress {
           picks: matchPicks.map(p => ({ userId: p.userId, selectedMovieId: p.selectedMovieId }))
         });
 
-        // Determine winner (majority wins, or random if tied)
-        const movieVotes = matchPicks.reduce((acc, pick) => {
-          acc[pick.selectedMovieId] = (acc[pick.selectedMovieId] || 0) + 1;
-          return acc;
-        }, {} as Record<number, number>);
-
-        const winnerMovieId = Object.keys(movieVotes).reduce((a, b) => 
-          movieVotes[parseInt(a)] > movieVotes[parseInt(b)] ? a : b
-        );
+        // Determine winner: the votes, or the room's tie-break policy when they are split
+        const resolution = resolveMatchVotes(match.movieA, match.movieB, matchPicks, {
+          rule: settings.votingRule,
+          voterCount: new Set(matchPicks.map(p => p.userId)).size,
+          tieBreak: tieBreaks.get(match.matchId),
+        });
 
         // Find winner movie from match
-        const winnerMovie = parseInt(winnerMovieId) === match.movieA.id ? match.movieA : match.movieB;
+        const winnerMovie = resolution.winnerId === match.movieA.id ? match.movieA : match.movieB;
         
         console.log(`🏆 Winner of ${match.matchId}:`, {
           id: winnerMovie.id,
           title: winnerMovie.title,
           posterPath: winnerMovie.posterPath,
-          votes: movieVotes[winnerMovie.id]
+          votes: resolution.votes[winnerMovie.id],
+          decidedBy: resolution.decidedBy
         });
         
-        winners.push(winnerMovie);
+        results.push({ slot: match.slot ?? currentRoundMatches.indexOf(match), movie: winnerMovie });
       }
 
+      // Winners and byes advance in bracket order
+      const winners = results.sort((a, b) => a.slot - b.slot).map(r => r.movie);
+
       console.log(`✅ Round ${currentRound} complete. Winners advancing to next round:`, 
         winners.map(w => ({ id: w.id, title: w.title }))
       );
@@ -717,11 +1241,12 @@ export class TournamentProgress {
         return { isComplete: false };
       }
 
-      // Get participants
+      // Get participants; spectators don't pick
       const participants = await db.query.roomParticipants.findMany({
         where: and(
           eq(roomParticipants.roomId, room.id),
-          eq(roomParticipants.isActive, true)
+          eq(roomParticipants.isActive, true),
+          eq(roomParticipants.role, 'player')
         ),
       });
 
@@ -763,4 +1288,4 @@ export class TournamentProgress {
       return { isComplete: false };
     }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,76 @@
+// What instances tell each other when a room's state is saved: enough to drop a stale cache entry and
+// reload, never the state itself (NOTIFY payloads are capped at 8000 bytes)
+
+export const ROOM_STATE_CHANNEL = 'decided_room_state'
+
+export interface StateNotice {
+  roomId: string
+  version: number
+  origin: string // the instance that saved it, which has already broadcast locally
+}
+
+export function encodeStateNotice(notice: StateNotice): string {
+  return JSON.stringify({ roomId: notice.roomId, version: notice.version, origin: notice.origin })
+}
+
+export function parseStateNotice(payload: string): StateNotice | null {
+  try {
+    const parsed = JSON.parse(payload)
+    if (
+      typeof parsed?.roomId !== 'string' ||
+      !Number.isInteger(parsed.version) ||
+      typeof parsed.origin !== 'string'
+    ) {
+      return null
+    }
+    return { roomId: parsed.roomId, version: parsed.version, origin: parsed.origin }
+  } catch {
+    return null
+  }
+}
+
+// Whether a notice tells this instance anything: not its own save, and newer than what it holds
+export function needsReload(notice: StateNotice, self: string, cachedVersion?: number): boolean {
+  return notice.origin !== self && (cachedVersion === undefined || cachedVersion < notice.version)
+}
+
+// A listener behind a transaction-mode pooler, or one whose connection dropped, hears nothing and gets no
+// error. Each instance sends itself a probe every PROBE_INTERVAL_MS and only trusts the channel while its
+// probes come back within PROBE_TIMEOUT_MS.
+export const PROBE_INTERVAL_MS = 10_000
+export const PROBE_TIMEOUT_MS = 3_000
+
+export function encodeProbe(origin: string): string {
+  return JSON.stringify({ probe: true, origin })
+}
+
+// The instance that sent a probe, or null for anything else
+export function parseProbe(payload: string): string | null {
+  try {
+    const parsed = JSON.parse(payload)
+    return parsed?.probe === true && typeof parsed.origin === 'string' ? parsed.origin : null
+  } catch {
+    return null
+  }
+}
+
+export interface ListenHealth {
+  echoedAt: Date | null // when a probe last came back
+  probeSentAt: Date | null // the oldest probe still unanswered
+}
+
+export const NOT_LISTENING: ListenHealth = { echoedAt: null, probeSentAt: null }
+
+export function sendProbe(health: ListenHealth, now: Date): ListenHealth {
+  return { ...health, probeSentAt: health.probeSentAt ?? now }
+}
+
+export function receiveProbe(now: Date): ListenHealth {
+  return { echoedAt: now, probeSentAt: null }
+}
+
+// Heard back at least once, and the probe out now (if any) isn't overdue
+export function isListenLive(health: ListenHealth, now: Date, timeoutMs = PROBE_TIMEOUT_MS): boolean {
+  if (!health.echoedAt) return false
+  return !health.probeSentAt || now.getTime() - health.probeSentAt.getTime() < timeoutMs
+}
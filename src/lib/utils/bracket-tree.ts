@@ -0,0 +1,140 @@
+import type { MatchResolution } from './voting.ts'
+
+// Every round of a tournament at once, for a full bracket view or a post-game recap. Rounds that
+// haven't been drawn yet show up as pending slots on single elimination, where the shape is fixed.
+// A match is resolved once it has its own resolution, which the room stores as soon as the match's
+// last pick is in rather than when its round ends.
+
+export interface TreeMatchInput<T> {
+  matchId: string
+  roundNumber: number
+  slot?: number
+  bracket?: string
+  movieA: T
+  movieB: T
+}
+
+export interface TreeByeInput<T> {
+  roundNumber: number
+  slot: number
+  movie: T
+}
+
+export interface TreePick {
+  matchId: string
+  userId: string
+  selectedMovieId: number
+  autoPicked?: boolean
+}
+
+export type TreeMatchStatus = 'resolved' | 'open' | 'pending'
+
+export interface TreeMatch<T> {
+  matchId: string | null // null until the slot is drawn
+  roundNumber: number
+  slot: number
+  bracket?: string
+  movieA: T | null // null while the feeding match is undecided
+  movieB: T | null
+  status: TreeMatchStatus
+  winnerId?: number
+  decidedBy?: MatchResolution['decidedBy']
+  votes?: Record<number, number>
+  rematched?: boolean
+  picks?: Array<{ userId: string; selectedMovieId: number; autoPicked: boolean }> // only once resolved
+  picksIn?: number // open matches: how many picks are in, without saying which way
+}
+
+export interface TreeRound<T> {
+  roundNumber: number
+  matches: TreeMatch<T>[]
+  byes: T[]
+}
+
+export function buildBracketTree<T extends { id: number }>(input: {
+  format?: string
+  totalRounds: number
+  matches: TreeMatchInput<T>[]
+  byes?: TreeByeInput<T>[]
+  resolutions?: Record<string, MatchResolution>
+  picks: TreePick[]
+}): TreeRound<T>[] {
+  const resolutions = input.resolutions ?? {}
+  const byes = input.byes ?? []
+
+  const toTreeMatch = (match: TreeMatchInput<T>, index: number): TreeMatch<T> => {
+    const resolution = resolutions[match.matchId]
+    const picks = input.picks.filter((pick) => pick.matchId === match.matchId)
+    const base = {
+      matchId: match.matchId,
+      roundNumber: match.roundNumber,
+      slot: match.slot ?? index,
+      ...(match.bracket ? { bracket: match.bracket } : {}),
+      movieA: match.movieA,
+      movieB: match.movieB,
+    }
+
+    if (!resolution) {
+      return { ...base, status: 'open', picksIn: picks.length }
+    }
+    return {
+      ...base,
+      status: 'resolved',
+      winnerId: resolution.winnerId,
+      decidedBy: resolution.decidedBy,
+      votes: resolution.votes,
+      ...(resolution.rematched ? { rematched: true } : {}),
+      picks: picks.map((pick) => ({ userId: pick.userId, selectedMovieId: pick.selectedMovieId, autoPicked: pick.autoPicked ?? false })),
+    }
+  }
+
+  const roundNumbers = new Set(input.matches.map((match) => match.roundNumber))
+  const rounds: TreeRound<T>[] = [...roundNumbers].sort((a, b) => a - b).map((roundNumber) => ({
+    roundNumber,
+    matches: input.matches
+      .filter((match) => match.roundNumber === roundNumber)
+      .map((match, index) => toTreeMatch(match, index)),
+    byes: byes.filter((bye) => bye.roundNumber === roundNumber).map((bye) => bye.movie),
+  }))
+
+  // Other formats pair each round from the last one's results, so there's nothing to sketch ahead
+  if ((input.format ?? 'single-elimination') !== 'single-elimination' || rounds.length === 0) {
+    return rounds
+  }
+
+  // Single elimination: slot s in a round is fed by slots 2s and 2s + 1 of the round before
+  const firstRound = rounds[0]
+  let slotCount = firstRound.matches.length + firstRound.byes.length
+  for (let roundNumber = 2; roundNumber <= input.totalRounds; roundNumber++) {
+    slotCount = Math.max(1, Math.floor(slotCount / 2))
+    if (roundNumbers.has(roundNumber)) {
+      continue
+    }
+
+    const previous = rounds[rounds.length - 1]
+    const advancing = (slot: number): T | null => {
+      const match = previous.matches.find((m) => m.slot === slot)
+      if (match) {
+        if (match.status !== 'resolved') return null
+        return match.winnerId === match.movieA?.id ? match.movieA : match.movieB
+      }
+      const bye = byes.find((b) => b.roundNumber === previous.roundNumber && b.slot === slot)
+      return bye?.movie ?? null
+    }
+
+    rounds.push({
+      roundNumber,
+      matches: Array.from({ length: slotCount }, (_, slot) => ({
+        matchId: null,
+        roundNumber,
+        slot,
+        movieA: advancing(slot * 2),
+        movieB: advancing(slot * 2 + 1),
+        status: 'pending' as const,
+      })),
+      byes: [],
+    })
+  }
+
+  return rounds
+}
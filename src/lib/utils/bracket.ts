@@ -0,0 +1,87 @@
+export const MIN_POOL_SIZE = 2
+export const MAX_POOL_SIZE = 64
+
+export interface BracketMatch<T> {
+  matchId: string
+  roundNumber: number
+  slot: number
+  movieA: T
+  movieB: T
+}
+
+export interface BracketBye<T> {
+  roundNumber: number
+  slot: number
+  movie: T
+}
+
+// Smallest power of two that fits every entrant
+export function getBracketSize(count: number): number {
+  if (count < MIN_POOL_SIZE || count > MAX_POOL_SIZE) {
+    throw new Error(`Bracket needs between ${MIN_POOL_SIZE} and ${MAX_POOL_SIZE} entrants, got ${count}`)
+  }
+  return Math.pow(2, Math.ceil(Math.log2(count)))
+}
+
+export function getTotalRounds(count: number): number {
+  return Math.log2(getBracketSize(count))
+}
+
+// Standard seed positions, e.g. size 8 -> [1, 8, 4, 5, 2, 7, 3, 6], so seed 1 can only meet seed 2 in the final
+export function getSeedOrder(size: number): number[] {
+  let order = [1]
+  while (order.length < size) {
+    const next = order.length * 2
+    order = order.flatMap((seed) => [seed, next + 1 - seed])
+  }
+  return order
+}
+
+// `seeded` is ordered best seed first. Seeds without an opponent get a bye into round 2,
+// so byes always go to the top seeds and only ever happen in round 1.
+export function buildFirstRound<T>(seeded: T[]): { matches: BracketMatch<T>[]; byes: BracketBye<T>[] } {
+  const order = getSeedOrder(getBracketSize(seeded.length))
+  const matches: BracketMatch<T>[] = []
+  const byes: BracketBye<T>[] = []
+
+  for (let i = 0; i < order.length; i += 2) {
+    const slot = i / 2
+    const movieA = seeded[order[i] - 1]
+    const movieB = seeded[order[i + 1] - 1]
+
+    if (movieA !== undefined && movieB !== undefined) {
+      matches.push({
+        matchId: `round-1-match-${matches.length + 1}`,
+        roundNumber: 1,
+        slot,
+        movieA,
+        movieB,
+      })
+    } else {
+      byes.push({ roundNumber: 1, slot, movie: (movieA ?? movieB) as T })
+    }
+  }
+
+  return { matches, byes }
+}
+
+// Pairs the previous round's results (match winners and byes, in slot order) for the next round
+export function buildNextRound<T>(
+  results: Array<{ slot: number; movie: T }>,
+  roundNumber: number
+): BracketMatch<T>[] {
+  const entrants = [...results].sort((a, b) => a.slot - b.slot).map((r) => r.movie)
+  const matches: BracketMatch<T>[] = []
+
+  for (let i = 0; i + 1 < entrants.length; i += 2) {
+    matches.push({
+      matchId: `round-${roundNumber}-match-${i / 2 + 1}`,
+      roundNumber,
+      slot: i / 2,
+      movieA: entrants[i],
+      movieB: entrants[i + 1],
+    })
+  }
+
+  return matches
+}
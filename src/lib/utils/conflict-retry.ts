@@ -0,0 +1,24 @@
+// Retrying work whose save lost the room's version check. Each attempt writes in its own transaction,
+// so a lost attempt leaves nothing in the database; anything outside it (queued Elo jobs, cache and
+// broadcasts) is staged with the attempt and only runs once that attempt has gone through.
+
+export type StageEffect = (effect: () => void) => void
+
+export async function retryOnConflict<T>(
+  attempt: (stage: StageEffect) => Promise<T>,
+  options: { maxAttempts: number; isConflict: (error: unknown) => boolean; onRetry?: (attempt: number) => void }
+): Promise<T> {
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    const staged: Array<() => void> = []
+    try {
+      const result = await attempt(effect => staged.push(effect))
+      staged.forEach(effect => effect())
+      return result
+    } catch (error) {
+      if (!options.isConflict(error) || attemptNumber >= options.maxAttempts) {
+        throw error
+      }
+      options.onRetry?.(attemptNumber)
+    }
+  }
+}
@@ -0,0 +1,248 @@
+import { buildFirstRound, buildNextRound } from './bracket.ts'
+import type { BracketBye, BracketMatch } from './bracket.ts'
+
+export type BracketSide = 'winners' | 'losers' | 'grand-final'
+
+// 'grand-final' and 'reset' are the last one or two matches; 'reset' only happens when the
+// losers' bracket champion wins the first grand final and resets are enabled
+export type DoubleEliminationStage = 'brackets' | 'grand-final' | 'reset' | 'complete'
+
+export interface Seat<T> {
+  slot: number
+  movie: T
+  droppedIn?: number // round in which the movie lost its first match
+}
+
+export interface DoubleEliminationMatch<T> extends BracketMatch<T> {
+  bracket: BracketSide
+  bracketRound: number
+}
+
+export interface DoubleEliminationState<T> {
+  stage: DoubleEliminationStage
+  winners: Seat<T>[] // unbeaten
+  losers: Seat<T>[] // one loss
+  eliminated: T[]
+  winnersRound: number
+  losersRound: number
+  champion?: T
+}
+
+export interface DoubleEliminationResult<T> {
+  match: DoubleEliminationMatch<T>
+  winner: T
+}
+
+type Movie = { id: number }
+
+// winners-round-2-match-1, losers-round-3-match-2, grand-final, grand-final-reset
+export function getDoubleEliminationMatchId(bracket: BracketSide, bracketRound: number, matchNumber: number): string {
+  if (bracket === 'grand-final') {
+    return bracketRound > 1 ? 'grand-final-reset' : 'grand-final'
+  }
+  return `${bracket}-round-${bracketRound}-match-${matchNumber}`
+}
+
+export function parseDoubleEliminationMatchId(
+  matchId: string
+): { bracket: BracketSide; bracketRound: number; matchNumber: number } | null {
+  if (matchId === 'grand-final') return { bracket: 'grand-final', bracketRound: 1, matchNumber: 1 }
+  if (matchId === 'grand-final-reset') return { bracket: 'grand-final', bracketRound: 2, matchNumber: 1 }
+
+  const parsed = /^(winners|losers)-round-(\d+)-match-(\d+)$/.exec(matchId)
+  if (!parsed) return null
+  return {
+    bracket: parsed[1] as BracketSide,
+    bracketRound: Number(parsed[2]),
+    matchNumber: Number(parsed[3]),
+  }
+}
+
+// Round 1 is a regular seeded first round played entirely in the winners' bracket
+export function buildDoubleEliminationStart<T extends Movie>(seeded: T[]): {
+  state: DoubleEliminationState<T>
+  matches: DoubleEliminationMatch<T>[]
+  byes: BracketBye<T>[]
+} {
+  const { matches, byes } = buildFirstRound(seeded)
+
+  return {
+    state: {
+      stage: 'brackets',
+      winners: [
+        ...byes.map((bye) => ({ slot: bye.slot, movie: bye.movie })),
+        ...matches.flatMap((m) => [{ slot: m.slot, movie: m.movieA }, { slot: m.slot, movie: m.movieB }]),
+      ],
+      losers: [],
+      eliminated: [],
+      winnersRound: 1,
+      losersRound: 0,
+    },
+    matches: matches.map((m, index) => ({
+      ...m,
+      matchId: getDoubleEliminationMatchId('winners', 1, index + 1),
+      bracket: 'winners',
+      bracketRound: 1,
+    })),
+    byes,
+  }
+}
+
+// Moves winners on, drops winners' bracket losers into the losers' bracket and
+// eliminates losers' bracket losers
+export function applyDoubleEliminationResults<T extends Movie>(
+  state: DoubleEliminationState<T>,
+  results: DoubleEliminationResult<T>[],
+  roundNumber: number,
+  options: { grandFinalReset: boolean }
+): DoubleEliminationState<T> {
+  const next: DoubleEliminationState<T> = {
+    ...state,
+    winners: [...state.winners],
+    losers: [...state.losers],
+    eliminated: [...state.eliminated],
+  }
+
+  for (const { match, winner } of results) {
+    const loser = winner.id === match.movieA.id ? match.movieB : match.movieA
+
+    if (match.bracket === 'grand-final') {
+      const unbeatenWon = next.winners.some((seat) => seat.movie.id === winner.id)
+      if (!unbeatenWon && options.grandFinalReset && state.stage === 'grand-final') {
+        next.stage = 'reset'
+      } else {
+        next.stage = 'complete'
+        next.champion = winner
+        next.eliminated.push(loser)
+      }
+      continue
+    }
+
+    const side = match.bracket === 'winners' ? next.winners : next.losers
+    const remaining = side.filter((seat) => seat.movie.id !== match.movieA.id && seat.movie.id !== match.movieB.id)
+    remaining.push({ slot: match.slot, movie: winner })
+
+    if (match.bracket === 'winners') {
+      next.winners = remaining
+      next.losers.push({ slot: match.slot, movie: loser, droppedIn: roundNumber })
+    } else {
+      next.losers = remaining
+      next.eliminated.push(loser)
+    }
+  }
+
+  next.winners.sort((a, b) => a.slot - b.slot)
+  return next
+}
+
+// Schedules every match that can be played next. Both brackets play in the same round;
+// an odd movie out in the losers' bracket sits the round out.
+export function scheduleDoubleEliminationRound<T extends Movie>(
+  state: DoubleEliminationState<T>,
+  roundNumber: number
+): { state: DoubleEliminationState<T>; matches: DoubleEliminationMatch<T>[]; waiting: T[] } {
+  if (state.stage === 'complete') {
+    return { state, matches: [], waiting: [] }
+  }
+
+  const finalReady = state.winners.length === 1 && state.losers.length === 1
+  if (state.stage === 'reset' || finalReady) {
+    const gfRound = state.stage === 'reset' ? 2 : 1
+    return {
+      state: { ...state, stage: state.stage === 'reset' ? 'reset' : 'grand-final' },
+      matches: [{
+        matchId: getDoubleEliminationMatchId('grand-final', gfRound, 1),
+        roundNumber,
+        slot: 0,
+        movieA: state.winners[0].movie,
+        movieB: state.losers[0].movie,
+        bracket: 'grand-final',
+        bracketRound: gfRound,
+      }],
+      waiting: [],
+    }
+  }
+
+  const next = { ...state }
+  const matches: DoubleEliminationMatch<T>[] = []
+  const waiting: T[] = []
+
+  if (state.winners.length >= 2) {
+    next.winnersRound = state.winnersRound + 1
+    buildNextRound(state.winners, roundNumber).forEach((m, index) => {
+      matches.push({
+        ...m,
+        matchId: getDoubleEliminationMatchId('winners', next.winnersRound, index + 1),
+        bracket: 'winners',
+        bracketRound: next.winnersRound,
+      })
+    })
+  } else if (state.winners.length === 1) {
+    waiting.push(state.winners[0].movie)
+  }
+
+  if (state.losers.length >= 2) {
+    next.losersRound = state.losersRound + 1
+    const { pairs, sittingOut } = pairLosers(state.losers, roundNumber - 1)
+    pairs.forEach(([a, b], index) => {
+      matches.push({
+        matchId: getDoubleEliminationMatchId('losers', next.losersRound, index + 1),
+        roundNumber,
+        slot: index,
+        movieA: a.movie,
+        movieB: b.movie,
+        bracket: 'losers',
+        bracketRound: next.losersRound,
+      })
+    })
+    if (sittingOut) waiting.push(sittingOut.movie)
+  } else if (state.losers.length === 1) {
+    waiting.push(state.losers[0].movie)
+  }
+
+  return { state: next, matches, waiting }
+}
+
+// Movies that just dropped from the winners' bracket face losers' bracket survivors first,
+// in reverse order so they don't immediately replay the same half of the bracket
+function pairLosers<T>(seats: Seat<T>[], lastRound: number): { pairs: Array<[Seat<T>, Seat<T>]>; sittingOut?: Seat<T> } {
+  const survivors = seats.filter((seat) => seat.droppedIn !== lastRound).sort((a, b) => a.slot - b.slot)
+  const newcomers = seats.filter((seat) => seat.droppedIn === lastRound).sort((a, b) => b.slot - a.slot)
+  const pairs: Array<[Seat<T>, Seat<T>]> = []
+
+  while (survivors.length > 0 && newcomers.length > 0) {
+    pairs.push([survivors.shift() as Seat<T>, newcomers.shift() as Seat<T>])
+  }
+
+  const rest = [...survivors, ...newcomers]
+  while (rest.length >= 2) {
+    pairs.push([rest.shift() as Seat<T>, rest.shift() as Seat<T>])
+  }
+
+  return { pairs, sittingOut: rest[0] }
+}
+
+// Rounds needed when the unbeaten movie wins the grand final; a reset adds one more
+export function countDoubleEliminationRounds(count: number): number {
+  const seeded = Array.from({ length: count }, (_, index) => ({ id: index + 1 }))
+  const start = buildDoubleEliminationStart(seeded)
+  let state = start.state
+  let matches = start.matches
+  let round = 1
+
+  while (matches.length > 0) {
+    state = applyDoubleEliminationResults(
+      state,
+      matches.map((match) => ({ match, winner: match.movieA })),
+      round,
+      { grandFinalReset: false }
+    )
+    if (state.stage === 'complete') break
+    round += 1
+    const scheduled = scheduleDoubleEliminationRound(state, round)
+    state = scheduled.state
+    matches = scheduled.matches
+  }
+
+  return round
+}
@@ -0,0 +1,26 @@
+// The Elo batch processor's queue. Jobs run by priority, oldest first within a priority. A Decided
+// pick's job is taken back out when the pick is undone, and every pick's job for a match when the
+// match is replayed, so each comparison a user finally makes trains their ratings once.
+
+export type EloJobPriority = 'low' | 'normal' | 'high'
+
+export interface QueuedEloJob {
+  roomId: string
+  userId: string
+  matchId?: string
+  priority: EloJobPriority
+}
+
+const PRIORITY_ORDER: Record<EloJobPriority, number> = { high: 0, normal: 1, low: 2 }
+
+export function enqueueJob<T extends QueuedEloJob>(queue: T[], job: T): T[] {
+  const index = queue.findIndex((queued) => PRIORITY_ORDER[queued.priority] > PRIORITY_ORDER[job.priority])
+  return index === -1 ? [...queue, job] : [...queue.slice(0, index), job, ...queue.slice(index)]
+}
+
+// Without the match's jobs: one user's after an undo, everyone's when no user is given
+export function dropMatchJobs<T extends QueuedEloJob>(queue: T[], roomId: string, matchId: string, userId?: string): T[] {
+  return queue.filter(
+    (job) => !(job.roomId === roomId && job.matchId === matchId && (userId === undefined || job.userId === userId))
+  )
+}
@@ -0,0 +1,45 @@
+// Taking a Decided pick back out of the picker's Elo ratings. The batch processor records the change
+// it applied for each pick; an undo subtracts it again, even if other picks have moved the rating since.
+
+export interface EloStats {
+  eloRating: number
+  matchesPlayed: number
+  wins: number
+  losses: number
+}
+
+export interface EloChange {
+  movieId: number
+  ratingDelta: number
+  matchesPlayed: number
+  wins: number
+  losses: number
+}
+
+const UNRATED: EloStats = { eloRating: 1200, matchesPlayed: 0, wins: 0, losses: 0 }
+
+// The difference between each movie's stats before a job and what it wrote
+export function getEloChanges(
+  before: Map<number, EloStats>,
+  after: Array<EloStats & { movieId: number }>
+): EloChange[] {
+  return after.map((stats) => {
+    const previous = before.get(stats.movieId) ?? UNRATED
+    return {
+      movieId: stats.movieId,
+      ratingDelta: stats.eloRating - previous.eloRating,
+      matchesPlayed: stats.matchesPlayed - previous.matchesPlayed,
+      wins: stats.wins - previous.wins,
+      losses: stats.losses - previous.losses,
+    }
+  })
+}
+
+export function revertEloChange(current: EloStats, change: EloChange): EloStats {
+  return {
+    eloRating: current.eloRating - change.ratingDelta,
+    matchesPlayed: Math.max(current.matchesPlayed - change.matchesPlayed, 0),
+    wins: Math.max(current.wins - change.wins, 0),
+    losses: Math.max(current.losses - change.losses, 0),
+  }
+}
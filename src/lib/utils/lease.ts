@@ -0,0 +1,33 @@
+// Room leases (room_locks): one holder at a time, handed over once the lease runs out. Every hand-over
+// bumps the fencing token, so writes made under an older token can be told apart and refused.
+
+export interface Lease {
+  fencingToken: number
+  expiresAt: Date
+}
+
+// The lease a new holder gets, or null while the current one is still running
+export function takeLease(current: Lease | null, now: Date, ttlMs: number): Lease | null {
+  if (current && current.expiresAt > now) {
+    return null
+  }
+  return { fencingToken: (current?.fencingToken ?? 0) + 1, expiresAt: new Date(now.getTime() + ttlMs) }
+}
+
+// Only the holder of the latest token, and only until the lease runs out
+export function isLeaseHeld(current: Lease | null, fencingToken: number, now: Date): boolean {
+  return !!current && current.fencingToken === fencingToken && current.expiresAt > now
+}
+
+// A holder still working pushes the expiry out; null once the lease has lapsed or passed on
+export function renewLease(current: Lease | null, fencingToken: number, now: Date, ttlMs: number): Lease | null {
+  if (!isLeaseHeld(current, fencingToken, now)) {
+    return null
+  }
+  return { fencingToken, expiresAt: new Date(now.getTime() + ttlMs) }
+}
+
+// How many times to try for a busy lease: long enough for one left behind by a crashed holder to run out
+export function getAcquireAttempts(ttlMs: number, retryDelayMs: number): number {
+  return Math.ceil(ttlMs / retryDelayMs) + 1
+}
@@ -0,0 +1,43 @@
+// A paused room stops its clocks; a pause left running this long is treated as abandoned
+export const MAX_PAUSE_MS = 60 * 60 * 1000
+
+// How long a participant can be gone (no stream heartbeat) before they are taken out of the room
+export const RECONNECT_GRACE_MS = 2 * 60 * 1000
+
+export interface PauseWindow {
+  from: string
+  to: string
+}
+
+// The room deadline moves back by however long the pause lasted
+export function resumeDeadline(expiresAt: Date | string, pausedAt: Date | string, now: Date): Date {
+  const paused = Math.max(0, now.getTime() - new Date(pausedAt).getTime())
+  return new Date(new Date(expiresAt).getTime() + paused)
+}
+
+export function isPauseExpired(pausedAt: Date | string, now: Date): boolean {
+  return now.getTime() - new Date(pausedAt).getTime() >= MAX_PAUSE_MS
+}
+
+// Participants who never opened a stream have nothing to go on, so they never count as gone
+export function isDisconnected(lastSeenAt: Date | string | null | undefined, now: Date): boolean {
+  if (!lastSeenAt) {
+    return false
+  }
+  return now.getTime() - new Date(lastSeenAt).getTime() > RECONNECT_GRACE_MS
+}
+
+// Pushes a deadline back by every pause that began before it and ended after `start`
+export function addPausedTime(start: Date, deadline: Date, pauses: PauseWindow[]): Date {
+  let end = deadline.getTime()
+  const sorted = [...pauses].sort((a, b) => new Date(a.from).getTime() - new Date(b.from).getTime())
+
+  for (const pause of sorted) {
+    const from = Math.max(new Date(pause.from).getTime(), start.getTime())
+    const to = new Date(pause.to).getTime()
+    if (from < end && to > from) {
+      end += to - from
+    }
+  }
+  return new Date(end)
+}
@@ -0,0 +1,49 @@
+import type { AutoPickPolicy } from '@/lib/utils/room-settings'
+import { DEFAULT_ELO_RATING } from './seeding.ts'
+import type { PauseWindow } from './pause.ts'
+import { addPausedTime } from './pause.ts'
+
+export const MIN_PICK_TIME_LIMIT = 10
+export const MAX_PICK_TIME_LIMIT = 600
+
+// The clock for a participant's current match starts when the round does, or at their previous pick,
+// and stands still while the room is paused
+export function getPickDeadline(
+  roundStartedAt: Date | string | null | undefined,
+  lastPickAt: Date | string | null | undefined,
+  limitSeconds: number,
+  pauses: PauseWindow[] = []
+): Date | undefined {
+  if (limitSeconds <= 0 || !roundStartedAt) {
+    return undefined
+  }
+
+  const start = Math.max(
+    new Date(roundStartedAt).getTime(),
+    lastPickAt ? new Date(lastPickAt).getTime() : 0
+  )
+  return addPausedTime(new Date(start), new Date(start + limitSeconds * 1000), pauses)
+}
+
+// A match replayed after a split vote runs its own clock from the replay; the round's other matches keep the round's
+export function getMatchClockStart(
+  roundStartedAt: Date | string | null | undefined,
+  replayStartedAt: Date | string | null | undefined
+): Date | string | null | undefined {
+  return replayStartedAt ?? roundStartedAt
+}
+
+// `ratings` are the idle participant's own, `draw` is in [0, 1) from the room seed; ties go to the first slot
+export function chooseAutoPick(
+  movieA: { id: number },
+  movieB: { id: number },
+  options: { policy: AutoPickPolicy; ratings?: Record<number, number>; draw: number }
+): number {
+  if (options.policy === 'random') {
+    return options.draw < 0.5 ? movieA.id : movieB.id
+  }
+
+  const ratingA = options.ratings?.[movieA.id] ?? DEFAULT_ELO_RATING
+  const ratingB = options.ratings?.[movieB.id] ?? DEFAULT_ELO_RATING
+  return ratingB > ratingA ? movieB.id : movieA.id
+}
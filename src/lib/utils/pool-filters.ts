@@ -0,0 +1,133 @@
+// Narrows the candidate pool before a tournament starts; every field is optional
+export interface PoolFilters {
+  maxRuntime?: number // minutes
+  includeGenres?: string[] // at least one of these
+  excludeGenres?: string[] // none of these
+  yearFrom?: number
+  yearTo?: number
+  minVoteAverage?: number // TMDB scale, 0-10
+  minVoteCount?: number // leaves out obscure films whose average rests on a handful of votes
+  keywords?: string[] // TMDB keywords, at least one of these
+  sharedStreamingOnly?: boolean // only films on a service at least one participant has
+}
+
+// TMDB provider categories that don't need a rental or purchase
+const STREAMING_CATEGORIES = ['flatrate', 'free', 'ads']
+
+const MIN_YEAR = 1870
+const MAX_YEAR = 2100
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+function isNumberInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+}
+
+export function validatePoolFilters(input: unknown): { valid: boolean; error?: string } {
+  if (input === undefined || input === null) {
+    return { valid: true }
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, error: 'Filters must be an object' }
+  }
+
+  const filters = input as Partial<Record<keyof PoolFilters, unknown>>
+
+  if (filters.maxRuntime !== undefined && !isNumberInRange(filters.maxRuntime, 1, 1000)) {
+    return { valid: false, error: 'maxRuntime must be a number of minutes between 1 and 1000' }
+  }
+  if (filters.includeGenres !== undefined && !isStringArray(filters.includeGenres)) {
+    return { valid: false, error: 'includeGenres must be a list of genre names' }
+  }
+  if (filters.excludeGenres !== undefined && !isStringArray(filters.excludeGenres)) {
+    return { valid: false, error: 'excludeGenres must be a list of genre names' }
+  }
+  if (filters.yearFrom !== undefined && !isNumberInRange(filters.yearFrom, MIN_YEAR, MAX_YEAR)) {
+    return { valid: false, error: `yearFrom must be a year between ${MIN_YEAR} and ${MAX_YEAR}` }
+  }
+  if (filters.yearTo !== undefined && !isNumberInRange(filters.yearTo, MIN_YEAR, MAX_YEAR)) {
+    return { valid: false, error: `yearTo must be a year between ${MIN_YEAR} and ${MAX_YEAR}` }
+  }
+  if (typeof filters.yearFrom === 'number' && typeof filters.yearTo === 'number' && filters.yearFrom > filters.yearTo) {
+    return { valid: false, error: 'yearFrom must not be after yearTo' }
+  }
+  if (filters.minVoteAverage !== undefined && !isNumberInRange(filters.minVoteAverage, 0, 10)) {
+    return { valid: false, error: 'minVoteAverage must be between 0 and 10' }
+  }
+  if (filters.minVoteCount !== undefined && !isNumberInRange(filters.minVoteCount, 0, 1000000)) {
+    return { valid: false, error: 'minVoteCount must be a number of votes' }
+  }
+  if (filters.keywords !== undefined && !isStringArray(filters.keywords)) {
+    return { valid: false, error: 'keywords must be a list of keywords' }
+  }
+  if (filters.sharedStreamingOnly !== undefined && typeof filters.sharedStreamingOnly !== 'boolean') {
+    return { valid: false, error: 'sharedStreamingOnly must be a boolean' }
+  }
+
+  return { valid: true }
+}
+
+// Drops anything invalid or empty so stored filters only contain what is actually applied
+export function normalizePoolFilters(input: unknown): PoolFilters {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return {}
+  }
+
+  const filters = input as Partial<Record<keyof PoolFilters, unknown>>
+  const normalized: PoolFilters = {}
+
+  if (isNumberInRange(filters.maxRuntime, 1, 1000)) normalized.maxRuntime = Math.round(filters.maxRuntime)
+  if (isStringArray(filters.includeGenres) && filters.includeGenres.length > 0) normalized.includeGenres = filters.includeGenres
+  if (isStringArray(filters.excludeGenres) && filters.excludeGenres.length > 0) normalized.excludeGenres = filters.excludeGenres
+  if (isNumberInRange(filters.yearFrom, MIN_YEAR, MAX_YEAR)) normalized.yearFrom = Math.floor(filters.yearFrom)
+  if (isNumberInRange(filters.yearTo, MIN_YEAR, MAX_YEAR)) normalized.yearTo = Math.floor(filters.yearTo)
+  if (isNumberInRange(filters.minVoteAverage, 0, 10)) normalized.minVoteAverage = filters.minVoteAverage
+  if (isNumberInRange(filters.minVoteCount, 0, 1000000)) normalized.minVoteCount = Math.floor(filters.minVoteCount)
+  if (isStringArray(filters.keywords)) {
+    // TMDB keywords are lowercase
+    const keywords = filters.keywords.map((keyword) => keyword.trim().toLowerCase()).filter(Boolean)
+    if (keywords.length > 0) normalized.keywords = keywords
+  }
+  if (filters.sharedStreamingOnly === true) normalized.sharedStreamingOnly = true
+
+  return normalized
+}
+
+export function hasActiveFilters(filters: PoolFilters): boolean {
+  return Object.keys(filters).length > 0
+}
+
+// "Disney+" and "Disney Plus", "HBO Max" and "Max" etc. should still match
+function normalizeServiceName(name: string): string {
+  return name.toLowerCase().replace(/\+/g, 'plus').replace(/[^a-z0-9]/g, '')
+}
+
+export function isOnAnyService(providerNames: string[], serviceNames: string[]): boolean {
+  const services = serviceNames.map(normalizeServiceName).filter(Boolean)
+  return providerNames.some((provider) => {
+    const normalized = normalizeServiceName(provider)
+    return normalized.length > 0 && services.some((service) => normalized.includes(service) || service.includes(normalized))
+  })
+}
+
+// Provider names from TMDB's watch/providers result for one region, leaving out rentals and purchases
+export function getStreamingProviderNames(providers: unknown): string[] {
+  if (!providers || typeof providers !== 'object') {
+    return []
+  }
+  const categories = providers as Record<string, unknown>
+  return STREAMING_CATEGORIES.flatMap((category) => {
+    const entries = categories[category]
+    return Array.isArray(entries)
+      ? entries.map((entry) => entry?.provider_name).filter((name): name is string => typeof name === 'string')
+      : []
+  })
+}
+
+// Streaming service ids across the participants' profiles, which store them as strings
+export function collectServiceIds(serviceLists: Array<string[] | null | undefined>): number[] {
+  const ids = serviceLists.flatMap((list) => list ?? []).map(Number).filter((id) => Number.isInteger(id) && id > 0)
+  return Array.from(new Set(ids))
+}
@@ -0,0 +1,115 @@
+import { MAX_POOL_SIZE } from './bracket.ts'
+
+// Where the room's candidates come from: everyone's merged watchlists, or a list the owner settles on
+// at creation by hand-picking search results, pasting titles, or loading one of their saved lists
+export type PoolSource = 'watchlists' | 'hand-picked' | 'import' | 'list'
+
+export const POOL_SOURCES: PoolSource[] = ['watchlists', 'hand-picked', 'import', 'list']
+
+// The smallest curated pool that still makes a real bracket
+export const MIN_CANDIDATES = 4
+export const MAX_CANDIDATES = MAX_POOL_SIZE
+export const MAX_LIST_NAME_LENGTH = 80
+
+export interface CandidateMovie {
+  id: number // TMDB id
+  title: string
+  posterPath: string
+}
+
+// The pool as requested at creation, before titles and saved lists are resolved into movies
+export type PoolRequest =
+  | { source: 'watchlists' }
+  | { source: 'hand-picked'; movies: CandidateMovie[] }
+  | { source: 'import'; titles: string }
+  | { source: 'list'; listId: number }
+
+function isCandidate(value: unknown): value is CandidateMovie {
+  const movie = value as Partial<CandidateMovie> | null
+  return typeof movie === 'object' && movie !== null &&
+    Number.isInteger(movie.id) && (movie.id as number) > 0 &&
+    typeof movie.title === 'string' && movie.title.trim().length > 0 &&
+    (movie.posterPath === undefined || typeof movie.posterPath === 'string')
+}
+
+export function validateCandidates(input: unknown): { valid: boolean; error?: string } {
+  if (!Array.isArray(input) || !input.every(isCandidate)) {
+    return { valid: false, error: 'movies must be a list of { id, title, posterPath }' }
+  }
+  const count = new Set(input.map((movie) => movie.id)).size
+  if (count < MIN_CANDIDATES || count > MAX_CANDIDATES) {
+    return { valid: false, error: `Pick between ${MIN_CANDIDATES} and ${MAX_CANDIDATES} movies` }
+  }
+  return { valid: true }
+}
+
+// Drops anything malformed and repeated ids, keeping the first of each, capped at the largest bracket
+export function normalizeCandidates(input: unknown): CandidateMovie[] {
+  if (!Array.isArray(input)) {
+    return []
+  }
+  const seen = new Set<number>()
+  const candidates: CandidateMovie[] = []
+  for (const movie of input.filter(isCandidate)) {
+    if (!seen.has(movie.id)) {
+      seen.add(movie.id)
+      candidates.push({ id: movie.id, title: movie.title.trim(), posterPath: movie.posterPath ?? '' })
+    }
+  }
+  return candidates.slice(0, MAX_CANDIDATES)
+}
+
+// One title per line, with list numbering and bullets stripped; repeats are dropped case-insensitively
+export function parseImportedTitles(text: string): string[] {
+  const seen = new Set<string>()
+  const titles: string[] = []
+  for (const line of text.split(/\r?\n/)) {
+    const title = line.replace(/^\s*(?:\d+[.)]|[-*•])\s*/, '').trim()
+    const key = title.toLowerCase()
+    if (title && !seen.has(key)) {
+      seen.add(key)
+      titles.push(title)
+    }
+  }
+  return titles.slice(0, MAX_CANDIDATES)
+}
+
+export function validateListName(input: unknown): { valid: boolean; error?: string } {
+  if (typeof input !== 'string' || input.trim().length === 0 || input.trim().length > MAX_LIST_NAME_LENGTH) {
+    return { valid: false, error: `name must be between 1 and ${MAX_LIST_NAME_LENGTH} characters` }
+  }
+  return { valid: true }
+}
+
+// Checks the shape of the pool a room is created with; resolving it into movies happens on the server
+export function validatePoolSourceRequest(input: unknown): { valid: boolean; error?: string } {
+  if (input === undefined || input === null) {
+    return { valid: true }
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, error: 'pool must be an object' }
+  }
+
+  const pool = input as { source?: unknown; movies?: unknown; titles?: unknown; listId?: unknown }
+
+  switch (pool.source) {
+    case 'watchlists':
+      return { valid: true }
+    case 'hand-picked':
+      return validateCandidates(pool.movies)
+    case 'import': {
+      const count = typeof pool.titles === 'string' ? parseImportedTitles(pool.titles).length : 0
+      if (count < MIN_CANDIDATES) {
+        return { valid: false, error: `Paste at least ${MIN_CANDIDATES} titles, one per line` }
+      }
+      return { valid: true }
+    }
+    case 'list':
+      if (!Number.isInteger(pool.listId) || (pool.listId as number) <= 0) {
+        return { valid: false, error: 'listId must be the id of one of your saved lists' }
+      }
+      return { valid: true }
+    default:
+      return { valid: false, error: `pool.source must be one of: ${POOL_SOURCES.join(', ')}` }
+  }
+}
@@ -0,0 +1,38 @@
+export type Rng = () => number
+
+// 32-bit seed that fits in jsonb without losing precision
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000)
+}
+
+// mulberry32: tiny, fast and plenty random enough for shuffling a bracket
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+  }
+}
+
+// Fisher-Yates; unlike sort(() => Math.random() - 0.5) every order is equally likely
+export function shuffle<T>(items: T[], rng: Rng): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+// Mixes a key into a seed (FNV-1a), so e.g. each match gets its own stream from the room seed
+export function deriveSeed(seed: number, key: string): number {
+  let hash = 0x811c9dc5 ^ (seed >>> 0)
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
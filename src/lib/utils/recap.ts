@@ -0,0 +1,157 @@
+import { DEFAULT_ELO_RATING } from './seeding.ts'
+import { getFinalistIds } from './rematch.ts'
+import type { MatchResolution } from './voting.ts'
+
+// How many closest matches and fastest/slowest picks the recap lists
+export const RECAP_HIGHLIGHTS = 3
+
+export interface RecapMatchInput<T> {
+  matchId: string
+  roundNumber: number
+  movieA: T
+  movieB: T
+}
+
+export interface RecapPickInput {
+  matchId: string
+  userId: string
+  selectedMovieId: number
+  responseTimeMs: number | null
+  autoPicked: boolean
+}
+
+export interface RecapPick<T> {
+  userId: string
+  matchId: string
+  movie: T
+  responseTimeMs: number
+}
+
+export interface RecapPathStep<T> {
+  matchId: string
+  roundNumber: number
+  opponent: T
+  won: boolean
+  decidedBy: MatchResolution['decidedBy']
+  decidedAt?: string
+}
+
+export interface Recap<T> {
+  winner: T | null
+  matchesPlayed: number
+  agreementRate: number | null // share of matches where everyone picked the same movie
+  pairAgreement: Array<{ userIds: [string, string]; rate: number; matches: number }>
+  closestMatches: Array<{ matchId: string; roundNumber: number; movieA: T; movieB: T; winnerId: number; votes: Record<number, number>; decidedBy: MatchResolution['decidedBy'] }>
+  fastestPicks: RecapPick<T>[]
+  slowestPicks: RecapPick<T>[]
+  finalistPaths: Array<{ movie: T; path: RecapPathStep<T>[] }>
+  winnerElo: Array<{ userId: string; before: number; after: number; change: number }>
+}
+
+// Votes for the loser over votes cast: 0.5 is a dead heat, 0 a clean sweep
+function closeness(resolution: MatchResolution): number {
+  const total = Object.values(resolution.votes).reduce((sum, votes) => sum + votes, 0)
+  return total === 0 ? 0.5 : (resolution.votes[resolution.loserId] ?? 0) / total
+}
+
+export function buildRecap<T extends { id: number }>(input: {
+  matches: RecapMatchInput<T>[]
+  resolutions: Record<string, MatchResolution>
+  picks: RecapPickInput[]
+  completedAt?: Record<string, string> // match id -> when it was settled, from match_completions
+  winnerId: number | null
+  ratingsBefore?: Record<string, Record<number, number>> // user -> movie -> rating when the tournament started
+  ratingsAfter?: Record<string, Record<number, number>>
+}): Recap<T> {
+  const resolved = input.matches.filter((match) => input.resolutions[match.matchId])
+  const movieIn = (match: RecapMatchInput<T>, id: number) => (match.movieA.id === id ? match.movieA : match.movieB)
+
+  // Agreement only counts picks people made themselves
+  const chosen = input.picks.filter((pick) => !pick.autoPicked)
+  const voted = resolved
+    .map((match) => chosen.filter((pick) => pick.matchId === match.matchId))
+    .filter((picks) => picks.length >= 2)
+  const agreementRate = voted.length === 0
+    ? null
+    : voted.filter((picks) => new Set(picks.map((pick) => pick.selectedMovieId)).size === 1).length / voted.length
+
+  const userIds = [...new Set(chosen.map((pick) => pick.userId))].sort()
+  const pairAgreement: Recap<T>['pairAgreement'] = []
+  for (let i = 0; i < userIds.length; i++) {
+    for (let j = i + 1; j < userIds.length; j++) {
+      const shared = voted
+        .map((picks) => [picks.find((p) => p.userId === userIds[i]), picks.find((p) => p.userId === userIds[j])])
+        .filter(([a, b]) => a && b)
+      if (shared.length > 0) {
+        const agreed = shared.filter(([a, b]) => a!.selectedMovieId === b!.selectedMovieId).length
+        pairAgreement.push({ userIds: [userIds[i], userIds[j]], rate: agreed / shared.length, matches: shared.length })
+      }
+    }
+  }
+
+  const closestMatches = [...resolved]
+    .sort((a, b) => closeness(input.resolutions[b.matchId]) - closeness(input.resolutions[a.matchId]))
+    .slice(0, RECAP_HIGHLIGHTS)
+    .map((match) => {
+      const resolution = input.resolutions[match.matchId]
+      return {
+        matchId: match.matchId,
+        roundNumber: match.roundNumber,
+        movieA: match.movieA,
+        movieB: match.movieB,
+        winnerId: resolution.winnerId,
+        votes: resolution.votes,
+        decidedBy: resolution.decidedBy,
+      }
+    })
+
+  const timed: RecapPick<T>[] = chosen.flatMap((pick) => {
+    const match = input.matches.find((m) => m.matchId === pick.matchId)
+    return match && pick.responseTimeMs !== null
+      ? [{ userId: pick.userId, matchId: pick.matchId, movie: movieIn(match, pick.selectedMovieId), responseTimeMs: pick.responseTimeMs }]
+      : []
+  })
+  const byTime = [...timed].sort((a, b) => a.responseTimeMs - b.responseTimeMs)
+
+  const finalistPaths = getFinalistIds(resolved, input.winnerId).map((movieId) => {
+    const played = resolved.filter((match) => match.movieA.id === movieId || match.movieB.id === movieId)
+    const movie = played[0] ? movieIn(played[0], movieId) : null
+    const path = played
+      .sort((a, b) => a.roundNumber - b.roundNumber ||
+        (input.completedAt?.[a.matchId] ?? '').localeCompare(input.completedAt?.[b.matchId] ?? ''))
+      .map((match) => {
+        const resolution = input.resolutions[match.matchId]
+        return {
+          matchId: match.matchId,
+          roundNumber: match.roundNumber,
+          opponent: match.movieA.id === movieId ? match.movieB : match.movieA,
+          won: resolution.winnerId === movieId,
+          decidedBy: resolution.decidedBy,
+          ...(input.completedAt?.[match.matchId] ? { decidedAt: input.completedAt[match.matchId] } : {}),
+        }
+      })
+    return movie ? { movie, path } : null
+  }).filter((entry): entry is { movie: T; path: RecapPathStep<T>[] } => entry !== null)
+
+  const winner = finalistPaths.find((entry) => entry.movie.id === input.winnerId)?.movie ?? null
+
+  const winnerElo = input.winnerId === null
+    ? []
+    : userIds.map((userId) => {
+      const before = input.ratingsBefore?.[userId]?.[input.winnerId!] ?? DEFAULT_ELO_RATING
+      const after = input.ratingsAfter?.[userId]?.[input.winnerId!] ?? before
+      return { userId, before, after, change: after - before }
+    })
+
+  return {
+    winner,
+    matchesPlayed: resolved.length,
+    agreementRate,
+    pairAgreement,
+    closestMatches,
+    fastestPicks: byTime.slice(0, RECAP_HIGHLIGHTS),
+    slowestPicks: byTime.slice(-RECAP_HIGHLIGHTS).reverse(),
+    finalistPaths,
+    winnerElo,
+  }
+}
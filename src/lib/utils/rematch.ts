@@ -0,0 +1,24 @@
+// Exclusions pile up over repeated rematches; only the most recent ones are kept
+export const MAX_EXCLUDED_MOVIES = 50
+
+interface FinalRoundMatch {
+  roundNumber: number
+  movieA: { id: number }
+  movieB: { id: number }
+}
+
+// Every movie that reached the last round played, plus the winner (which may have come through on a bye)
+export function getFinalistIds(matches: FinalRoundMatch[], winnerId?: number | null): number[] {
+  const lastRound = Math.max(0, ...matches.map((match) => match.roundNumber))
+  const finalists = matches
+    .filter((match) => match.roundNumber === lastRound)
+    .flatMap((match) => [match.movieA.id, match.movieB.id])
+
+  return [...new Set(winnerId ? [winnerId, ...finalists] : finalists)]
+}
+
+// Carries the room's earlier exclusions over, newest last so trimming drops the oldest
+export function mergeExclusions(previous: number[], added: number[]): number[] {
+  const merged = [...previous.filter((id) => !added.includes(id)), ...added]
+  return merged.slice(-MAX_EXCLUDED_MOVIES)
+}
@@ -0,0 +1,41 @@
+// Open rooms close on their own once their deadline passes; `extend` pushes it back a limited number of times
+export const ROOM_LIFETIME_MS = 30 * 60 * 1000
+export const ROOM_EXTENSION_MS = 30 * 60 * 1000
+export const MAX_ROOM_EXTENSIONS = 3
+
+export function getInitialDeadline(now: Date): Date {
+  return new Date(now.getTime() + ROOM_LIFETIME_MS)
+}
+
+// Whole seconds left, or undefined for rooms created before deadlines existed
+export function getSecondsRemaining(expiresAt: Date | string | null | undefined, now: Date): number | undefined {
+  if (!expiresAt) {
+    return undefined
+  }
+  return Math.max(0, Math.ceil((new Date(expiresAt).getTime() - now.getTime()) / 1000))
+}
+
+export function isExpired(expiresAt: Date | string | null | undefined, now: Date): boolean {
+  return getSecondsRemaining(expiresAt, now) === 0
+}
+
+export function getExtensionsRemaining(extensionCount: number): number {
+  return Math.max(0, MAX_ROOM_EXTENSIONS - extensionCount)
+}
+
+// Extensions stack onto whatever time is left, so extending early doesn't waste anything
+export function extendDeadline(
+  expiresAt: Date | string | null | undefined,
+  extensionCount: number,
+  now: Date
+): { valid: boolean; error?: string; expiresAt?: Date } {
+  if (getExtensionsRemaining(extensionCount) === 0) {
+    return { valid: false, error: `Rooms can only be extended ${MAX_ROOM_EXTENSIONS} times` }
+  }
+  if (isExpired(expiresAt, now)) {
+    return { valid: false, error: 'Room has already expired' }
+  }
+
+  const from = expiresAt ? Math.max(new Date(expiresAt).getTime(), now.getTime()) : now.getTime()
+  return { valid: true, expiresAt: new Date(from + ROOM_EXTENSION_MS) }
+}
@@ -0,0 +1,180 @@
+// Room state as a reduction over its event log. Each saved transition is logged as the patch that
+// takes the previous state to the new one, numbered by the state version it produced, so replaying a
+// snapshot plus every later patch in order lands on the stored state. The rows the same transaction
+// wrote are logged the same way as the room's record, so a replay rebuilds those as well.
+
+// Full copies of the state are kept every this many events, so a replay never walks the whole log
+export const SNAPSHOT_INTERVAL = 25
+
+export type PatchOp =
+  | { op: 'set'; path: string[]; value: unknown } // an empty path replaces the whole state
+  | { op: 'remove'; path: string[] }
+
+export interface RoomEvent {
+  seq: number
+  patch: PatchOp[]
+}
+
+// The rows a room's actions write: the room itself, its participants, picks and completed matches.
+// Presence (last seen) and Elo bookkeeping are left out, they change outside the actions.
+export interface RoomRows {
+  room: Record<string, unknown>
+  participants: Array<Record<string, unknown>>
+  picks: Array<Record<string, unknown>>
+  completions: Array<Record<string, unknown>>
+}
+
+// The same rows keyed by what identifies them, so a diff adds or removes a single row rather than
+// replacing the whole list and the log grows with each change, not with the size of the room
+export interface RoomRecord {
+  room: Record<string, unknown>
+  participants: Record<string, Record<string, unknown>>
+  picks: Record<string, Record<string, unknown>>
+  completions: Record<string, Record<string, unknown>>
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Stored as JSON, so undefined fields and key order don't count as differences
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)))
+
+// The path to the first place two states differ, or null when they match
+export function findDivergence(a: unknown, b: unknown, path: string[] = []): string[] | null {
+  if (isObject(a) && isObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)].filter((key) => a[key] !== undefined || b[key] !== undefined))
+    for (const key of [...keys].sort()) {
+      const found = findDivergence(a[key], b[key], [...path, key])
+      if (found) return found
+    }
+    return null
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    if (a.length !== b.length) return path
+    for (let i = 0; i < a.length; i++) {
+      const found = findDivergence(a[i], b[i], [...path, String(i)])
+      if (found) return found
+    }
+    return null
+  }
+  return a === b || (a == null && b == null) ? null : path
+}
+
+// Objects are diffed field by field; arrays and plain values are replaced whole when they change
+export function diffState(before: unknown, after: unknown, path: string[] = []): PatchOp[] {
+  if (isObject(before) && isObject(after)) {
+    const ops: PatchOp[] = []
+    for (const key of Object.keys(before)) {
+      if (before[key] !== undefined && after[key] === undefined) {
+        ops.push({ op: 'remove', path: [...path, key] })
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (after[key] !== undefined) {
+        ops.push(...diffState(before[key], after[key], [...path, key]))
+      }
+    }
+    return ops
+  }
+  return findDivergence(before, after) === null ? [] : [{ op: 'set', path, value: clone(after) }]
+}
+
+export function applyPatch<T>(state: T | null, patch: PatchOp[]): T {
+  let root: unknown = clone(state)
+  for (const op of patch) {
+    if (op.path.length === 0) {
+      root = op.op === 'set' ? clone(op.value) : null
+      continue
+    }
+
+    let parent = (isObject(root) ? root : (root = {})) as Record<string, unknown>
+    for (const key of op.path.slice(0, -1)) {
+      if (!isObject(parent[key])) {
+        parent[key] = {}
+      }
+      parent = parent[key] as Record<string, unknown>
+    }
+
+    const last = op.path[op.path.length - 1]
+    if (op.op === 'set') {
+      parent[last] = clone(op.value)
+    } else {
+      delete parent[last]
+    }
+  }
+  return root as T
+}
+
+// The first sequence number missing between a snapshot and the events after it
+export function findGap(fromSeq: number, events: RoomEvent[]): number | null {
+  let expected = fromSeq + 1
+  for (const event of [...events].sort((a, b) => a.seq - b.seq)) {
+    if (event.seq !== expected) return expected
+    expected++
+  }
+  return null
+}
+
+export function reduceEvents<T>(snapshot: T | null, events: RoomEvent[]): T {
+  return [...events]
+    .sort((a, b) => a.seq - b.seq)
+    .reduce((state, event) => applyPatch(state, event.patch), snapshot) as T
+}
+
+export function shouldSnapshot(seq: number, interval = SNAPSHOT_INTERVAL): boolean {
+  return seq > 0 && seq % interval === 0
+}
+
+const keyBy = (rows: Array<Record<string, unknown>>, ...fields: string[]) =>
+  Object.fromEntries(rows.map((row) => [fields.map((field) => String(row[field])).join(':'), row]))
+
+// Rows keyed and as they read back from JSON, so the same rows always make the same record
+export function toRoomRecord(rows: RoomRows): RoomRecord {
+  return clone({
+    room: rows.room,
+    participants: keyBy(rows.participants, 'userId'),
+    picks: keyBy(rows.picks, 'matchId', 'userId'),
+    completions: keyBy(rows.completions, 'matchId'),
+  })
+}
+
+// The record after replaying events, or null where the log can't tell: an event from before records
+// were logged breaks the chain until the next one that sets the whole record
+export function reduceRecords(
+  snapshot: RoomRecord | null,
+  events: Array<{ seq: number; recordPatch?: PatchOp[] | null }>
+): RoomRecord | null {
+  return [...events]
+    .sort((a, b) => a.seq - b.seq)
+    .reduce<RoomRecord | null>((record, event) => {
+      if (!event.recordPatch) return null
+      const setsWhole = event.recordPatch.some((op) => op.op === 'set' && op.path.length === 0)
+      return record === null && !setsWhole ? null : applyPatch(record, event.recordPatch)
+    }, snapshot)
+}
+
+export interface RoomHead<T> {
+  version: number // what the next save is checked against; it is logged as version + 1
+  state: T | null
+  source: 'log' | 'cache' | 'none'
+  drifted: boolean // room_states disagrees with the log, e.g. after a hand edit; the log wins
+}
+
+// Which copy of a room's state is current. The log is the source of truth and room_states only caches
+// what it replays to: the cache is used solely for rooms saved before the log existed, which have no
+// events at all. A room with neither (new, or cleared by a repair) starts again from version 0.
+export function resolveHead<T>(
+  logged: { seq: number; state: T } | null,
+  cached: { stateVersion: number; currentState: unknown } | null
+): RoomHead<T> {
+  if (logged) {
+    const drifted = !!cached && (
+      cached.stateVersion !== logged.seq || findDivergence(logged.state, cached.currentState) !== null
+    )
+    return { version: logged.seq, state: logged.state, source: 'log', drifted }
+  }
+  if (cached) {
+    return { version: cached.stateVersion, state: cached.currentState as T, source: 'cache', drifted: false }
+  }
+  return { version: 0, state: null, source: 'none', drifted: false }
+}
@@ -0,0 +1,195 @@
+import { normalizePoolFilters, validatePoolFilters } from './pool-filters.ts'
+import type { PoolFilters } from './pool-filters.ts'
+import { MAX_VETOES_PER_USER } from './veto.ts'
+import { MAX_PICK_TIME_LIMIT, MIN_PICK_TIME_LIMIT } from './pick-timer.ts'
+import { MAX_EXCLUDED_MOVIES } from './rematch.ts'
+import { POOL_SOURCES, normalizeCandidates, validateCandidates } from './pool-source.ts'
+import type { CandidateMovie, PoolSource } from './pool-source.ts'
+
+export const MIN_PARTICIPANTS = 2
+export const MAX_PARTICIPANTS = 8
+
+// 'majority' needs more than half of the room's voters, with a timed-out voter's auto pick counted as an abstention;
+// 'plurality' counts every pick, auto picks included, and only needs more votes than the other movie
+export type VotingRule = 'majority' | 'plurality'
+
+// How a split vote is settled: 'elo' favours the higher combined rating, 'coin-flip' draws from the room seed,
+// 'rematch' makes everyone pick again with the split shown, 'owner' goes with the room owner's pick
+export type TieBreakPolicy = 'elo' | 'coin-flip' | 'rematch' | 'owner'
+
+// What the server picks for someone whose pick timer runs out: their higher-rated movie, or a seeded draw
+export type AutoPickPolicy = 'elo' | 'random'
+
+// 'elo' seeds from the participants' combined ratings, 'random' is a plain draw
+export type SeedingMode = 'elo' | 'random'
+
+// 'swiss' is a quick ranking for small pools: no eliminations, most wins after a fixed number of rounds
+export type TournamentFormat = 'single-elimination' | 'double-elimination' | 'swiss'
+
+export interface RoomSettings {
+  maxParticipants: number
+  votingRule: VotingRule
+  tieBreak: TieBreakPolicy
+  seeding: SeedingMode
+  format: TournamentFormat
+  grandFinalReset: boolean // double elimination only: replay the final if the losers' bracket champion wins it
+  filters: PoolFilters
+  vetoesPerUser: number // movies each participant can strike before the bracket is drawn, 0 skips the veto phase
+  pickTimeLimit: number // seconds to make each pick, 0 for no limit
+  autoPick: AutoPickPolicy
+  excludedMovieIds: number[] // TMDB ids kept out of the pool, e.g. the last winner and finalists on a rematch
+  poolSource: PoolSource
+  candidates: CandidateMovie[] // the owner's curated pool, used instead of the watchlists unless the source is 'watchlists'
+}
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  maxParticipants: 2,
+  votingRule: 'plurality',
+  tieBreak: 'elo',
+  seeding: 'random',
+  format: 'single-elimination',
+  grandFinalReset: true,
+  filters: {},
+  vetoesPerUser: 0,
+  pickTimeLimit: 0,
+  autoPick: 'elo',
+  excludedMovieIds: [],
+  poolSource: 'watchlists',
+  candidates: [],
+}
+
+const VOTING_RULES: VotingRule[] = ['majority', 'plurality']
+const TIE_BREAK_POLICIES: TieBreakPolicy[] = ['elo', 'coin-flip', 'rematch', 'owner']
+const AUTO_PICK_POLICIES: AutoPickPolicy[] = ['elo', 'random']
+const SEEDING_MODES: SeedingMode[] = ['elo', 'random']
+const TOURNAMENT_FORMATS: TournamentFormat[] = ['single-elimination', 'double-elimination', 'swiss']
+
+export function validateRoomSettings(input: unknown): { valid: boolean; error?: string } {
+  if (input === undefined || input === null) {
+    return { valid: true }
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, error: 'Settings must be an object' }
+  }
+
+  const settings = input as Partial<Record<keyof RoomSettings, unknown>>
+
+  if (settings.maxParticipants !== undefined) {
+    const max = settings.maxParticipants
+    if (typeof max !== 'number' || !Number.isInteger(max) || max < MIN_PARTICIPANTS || max > MAX_PARTICIPANTS) {
+      return { valid: false, error: `maxParticipants must be an integer between ${MIN_PARTICIPANTS} and ${MAX_PARTICIPANTS}` }
+    }
+  }
+
+  if (settings.votingRule !== undefined && !VOTING_RULES.includes(settings.votingRule as VotingRule)) {
+    return { valid: false, error: `votingRule must be one of: ${VOTING_RULES.join(', ')}` }
+  }
+
+  if (settings.tieBreak !== undefined && !TIE_BREAK_POLICIES.includes(settings.tieBreak as TieBreakPolicy)) {
+    return { valid: false, error: `tieBreak must be one of: ${TIE_BREAK_POLICIES.join(', ')}` }
+  }
+
+  if (settings.seeding !== undefined && !SEEDING_MODES.includes(settings.seeding as SeedingMode)) {
+    return { valid: false, error: `seeding must be one of: ${SEEDING_MODES.join(', ')}` }
+  }
+
+  if (settings.format !== undefined && !TOURNAMENT_FORMATS.includes(settings.format as TournamentFormat)) {
+    return { valid: false, error: `format must be one of: ${TOURNAMENT_FORMATS.join(', ')}` }
+  }
+
+  if (settings.grandFinalReset !== undefined && typeof settings.grandFinalReset !== 'boolean') {
+    return { valid: false, error: 'grandFinalReset must be a boolean' }
+  }
+
+  if (settings.vetoesPerUser !== undefined) {
+    const vetoes = settings.vetoesPerUser
+    if (typeof vetoes !== 'number' || !Number.isInteger(vetoes) || vetoes < 0 || vetoes > MAX_VETOES_PER_USER) {
+      return { valid: false, error: `vetoesPerUser must be an integer between 0 and ${MAX_VETOES_PER_USER}` }
+    }
+  }
+
+  if (settings.pickTimeLimit !== undefined) {
+    const limit = settings.pickTimeLimit
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || (limit !== 0 && (limit < MIN_PICK_TIME_LIMIT || limit > MAX_PICK_TIME_LIMIT))) {
+      return { valid: false, error: `pickTimeLimit must be 0 or between ${MIN_PICK_TIME_LIMIT} and ${MAX_PICK_TIME_LIMIT} seconds` }
+    }
+  }
+
+  if (settings.autoPick !== undefined && !AUTO_PICK_POLICIES.includes(settings.autoPick as AutoPickPolicy)) {
+    return { valid: false, error: `autoPick must be one of: ${AUTO_PICK_POLICIES.join(', ')}` }
+  }
+
+  if (settings.excludedMovieIds !== undefined) {
+    const ids = settings.excludedMovieIds
+    if (!Array.isArray(ids) || ids.length > MAX_EXCLUDED_MOVIES || !ids.every((id) => Number.isInteger(id) && id > 0)) {
+      return { valid: false, error: `excludedMovieIds must be a list of at most ${MAX_EXCLUDED_MOVIES} movie ids` }
+    }
+  }
+
+  if (settings.poolSource !== undefined && !POOL_SOURCES.includes(settings.poolSource as PoolSource)) {
+    return { valid: false, error: `poolSource must be one of: ${POOL_SOURCES.join(', ')}` }
+  }
+
+  if (settings.candidates !== undefined) {
+    const candidates = validateCandidates(settings.candidates)
+    if (!candidates.valid) {
+      return candidates
+    }
+  }
+
+  const filters = validatePoolFilters(settings.filters)
+  if (!filters.valid) {
+    return filters
+  }
+
+  return { valid: true }
+}
+
+// Fills in defaults for anything missing or invalid, e.g. rooms created before settings existed
+export function normalizeRoomSettings(input: unknown): RoomSettings {
+  const settings = (input && typeof input === 'object' ? input : {}) as Partial<RoomSettings>
+  const max = settings.maxParticipants
+  const vetoes = settings.vetoesPerUser
+  const limit = settings.pickTimeLimit
+  const candidates = normalizeCandidates(settings.candidates)
+  // A curated source without any movies left falls back to the watchlists
+  const poolSource = POOL_SOURCES.includes(settings.poolSource as PoolSource) && candidates.length > 0
+    ? settings.poolSource as PoolSource
+    : DEFAULT_ROOM_SETTINGS.poolSource
+
+  return {
+    maxParticipants: typeof max === 'number' && Number.isInteger(max)
+      ? Math.min(MAX_PARTICIPANTS, Math.max(MIN_PARTICIPANTS, max))
+      : DEFAULT_ROOM_SETTINGS.maxParticipants,
+    votingRule: VOTING_RULES.includes(settings.votingRule as VotingRule)
+      ? settings.votingRule as VotingRule
+      : DEFAULT_ROOM_SETTINGS.votingRule,
+    tieBreak: TIE_BREAK_POLICIES.includes(settings.tieBreak as TieBreakPolicy)
+      ? settings.tieBreak as TieBreakPolicy
+      : DEFAULT_ROOM_SETTINGS.tieBreak,
+    seeding: SEEDING_MODES.includes(settings.seeding as SeedingMode)
+      ? settings.seeding as SeedingMode
+      : DEFAULT_ROOM_SETTINGS.seeding,
+    format: TOURNAMENT_FORMATS.includes(settings.format as TournamentFormat)
+      ? settings.format as TournamentFormat
+      : DEFAULT_ROOM_SETTINGS.format,
+    grandFinalReset: typeof settings.grandFinalReset === 'boolean'
+      ? settings.grandFinalReset
+      : DEFAULT_ROOM_SETTINGS.grandFinalReset,
+    filters: normalizePoolFilters(settings.filters),
+    vetoesPerUser: typeof vetoes === 'number' && Number.isInteger(vetoes)
+      ? Math.min(MAX_VETOES_PER_USER, Math.max(0, vetoes))
+      : DEFAULT_ROOM_SETTINGS.vetoesPerUser,
+    pickTimeLimit: typeof limit === 'number' && Number.isInteger(limit) && limit > 0
+      ? Math.min(MAX_PICK_TIME_LIMIT, Math.max(MIN_PICK_TIME_LIMIT, limit))
+      : DEFAULT_ROOM_SETTINGS.pickTimeLimit,
+    autoPick: AUTO_PICK_POLICIES.includes(settings.autoPick as AutoPickPolicy)
+      ? settings.autoPick as AutoPickPolicy
+      : DEFAULT_ROOM_SETTINGS.autoPick,
+    excludedMovieIds: Array.isArray(settings.excludedMovieIds)
+      ? [...new Set(settings.excludedMovieIds.filter((id) => Number.isInteger(id) && id > 0))].slice(-MAX_EXCLUDED_MOVIES)
+      : DEFAULT_ROOM_SETTINGS.excludedMovieIds,
+    poolSource,
+    candidates: poolSource === 'watchlists' ? DEFAULT_ROOM_SETTINGS.candidates : candidates,
+  }
+}
@@ -0,0 +1,38 @@
+export const DEFAULT_ELO_RATING = 1200
+
+export interface ParticipantRating {
+  userId: string
+  movieId: number
+  eloRating: number | null
+}
+
+// Average of every participant's rating for each movie; unrated counts as the default rating
+// so one enthusiastic participant can't carry a movie nobody else has seen to the top seed
+export function computeJointRatings(
+  movieIds: number[],
+  participantIds: string[],
+  ratings: ParticipantRating[]
+): Map<number, number> {
+  const byKey = new Map<string, number>()
+  ratings.forEach((r) => {
+    byKey.set(`${r.userId}:${r.movieId}`, r.eloRating ?? DEFAULT_ELO_RATING)
+  })
+
+  const joint = new Map<number, number>()
+  movieIds.forEach((movieId) => {
+    const total = participantIds.reduce(
+      (sum, userId) => sum + (byKey.get(`${userId}:${movieId}`) ?? DEFAULT_ELO_RATING),
+      0
+    )
+    joint.set(movieId, participantIds.length > 0 ? Math.round(total / participantIds.length) : DEFAULT_ELO_RATING)
+  })
+
+  return joint
+}
+
+// Best joint rating first; ties keep their incoming order, so callers can pre-shuffle for a fair draw
+export function orderBySeed<T extends { id: number }>(movies: T[], jointRatings: Map<number, number>): T[] {
+  return [...movies].sort(
+    (a, b) => (jointRatings.get(b.id) ?? DEFAULT_ELO_RATING) - (jointRatings.get(a.id) ?? DEFAULT_ELO_RATING)
+  )
+}
@@ -0,0 +1,86 @@
+import { MIN_PARTICIPANTS } from './room-settings.ts'
+
+// Spectators follow the bracket without voting; they don't take a seat or count toward any vote
+export type ParticipantRole = 'player' | 'spectator'
+
+export const PARTICIPANT_ROLES: ParticipantRole[] = ['player', 'spectator']
+
+// Players can only join a room before it starts; spectators can drop in any time there is something to watch
+const JOINABLE_STATUSES: Record<ParticipantRole, string[]> = {
+  player: ['waiting'],
+  spectator: ['waiting', 'active', 'completed'],
+}
+
+export function parseJoinRole(input: unknown): { valid: boolean; error?: string; role?: ParticipantRole } {
+  if (input === undefined || input === null) {
+    return { valid: true, role: 'player' }
+  }
+  if (!PARTICIPANT_ROLES.includes(input as ParticipantRole)) {
+    return { valid: false, error: `role must be one of: ${PARTICIPANT_ROLES.join(', ')}` }
+  }
+  return { valid: true, role: input as ParticipantRole }
+}
+
+// A player dropped for losing their connection can take their seat back while the tournament runs
+export function canJoinAs(role: ParticipantRole, roomStatus: string, options: { reclaimingSeat?: boolean } = {}): boolean {
+  if (role === 'player' && options.reclaimingSeat && roomStatus === 'active') {
+    return true
+  }
+  return JOINABLE_STATUSES[role].includes(roomStatus)
+}
+
+export type JoinPlan =
+  | { kind: 'rejected'; error: string }
+  | { kind: 'already-joined' }
+  | { kind: 'join' | 'rejoin'; takesSeat: boolean } // a seat is only given out while the room has one free
+
+// What joining does, for someone who may have been in the room before
+export function planJoin(
+  role: ParticipantRole,
+  roomStatus: string,
+  existing?: { isActive: boolean | null; role?: string | null; droppedAt?: Date | string | null } | null
+): JoinPlan {
+  // Only a seat someone held as a player can be reclaimed; a spectator never had one
+  const reclaimingSeat = !!existing?.droppedAt && !existing.isActive && existing.role === 'player'
+  if (!canJoinAs(role, roomStatus, { reclaimingSeat })) {
+    return {
+      kind: 'rejected',
+      error: role === 'spectator' ? 'Room is no longer open to spectators' : 'Room is not accepting new participants',
+    }
+  }
+  if (existing?.isActive) {
+    return { kind: 'already-joined' }
+  }
+  // Someone coming back as a player needs a free seat as much as a newcomer does
+  return { kind: existing ? 'rejoin' : 'join', takesSeat: role === 'player' }
+}
+
+// Active participants who vote
+export function getPlayers<T extends { isActive: boolean; isSpectator?: boolean }>(participants: T[]): T[] {
+  return participants.filter((participant) => participant.isActive && !participant.isSpectator)
+}
+
+// Players holding a seat: those voting plus any dropped for losing their connection, who can still take it back
+export function getSeatedPlayers<T extends { isActive: boolean; isSpectator?: boolean; isDropped?: boolean }>(
+  participants: T[]
+): T[] {
+  return participants.filter((participant) => !participant.isSpectator && (participant.isActive || !!participant.isDropped))
+}
+
+export type LeaveOutcome = 'abandon' | 'await-reconnect' | 'continue'
+
+// What a running tournament does once someone has left. It is only abandoned when too few players could
+// ever take part again; short of voters while dropped players may come back, it waits for them.
+export function planAfterLeave<T extends { isActive: boolean; isSpectator?: boolean; isDropped?: boolean }>(
+  participants: T[],
+  inPlay: boolean
+): LeaveOutcome {
+  const seated = getSeatedPlayers(participants).length
+  if (seated === 0 || (inPlay && seated < MIN_PARTICIPANTS)) {
+    return 'abandon'
+  }
+  if (inPlay && getPlayers(participants).length < MIN_PARTICIPANTS) {
+    return 'await-reconnect'
+  }
+  return 'continue'
+}
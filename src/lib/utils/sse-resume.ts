@@ -0,0 +1,67 @@
+// Resuming a room's SSE stream. Every event carries the state version as its id; a client coming back
+// with the last id it saw gets the transitions it missed replayed, or one full snapshot when it has
+// been gone too long for that to be worth it.
+
+// Beyond this many missed versions a reconnecting client just gets the current state
+export const MAX_REPLAY_GAP = 20
+
+export type ResumePlan =
+  | { kind: 'snapshot' }
+  | { kind: 'replay'; fromSeq: number; toSeq: number } // send fromSeq + 1 through toSeq
+  | { kind: 'none' } // already up to date
+
+// From the Last-Event-ID header, or the lastEventId query param our own client sends on a fresh connection
+export function parseLastEventId(value: string | null | undefined): number | null {
+  if (!value || !/^\d+$/.test(value.trim())) {
+    return null
+  }
+  return Number(value.trim())
+}
+
+export function planResume(lastEventId: number | null, currentVersion: number, maxGap = MAX_REPLAY_GAP): ResumePlan {
+  // Nothing to resume from, or an id from a state this room never had
+  if (lastEventId === null || lastEventId > currentVersion || lastEventId === 0) {
+    return { kind: 'snapshot' }
+  }
+  if (lastEventId === currentVersion) {
+    return { kind: 'none' }
+  }
+  if (currentVersion - lastEventId > maxGap) {
+    return { kind: 'snapshot' }
+  }
+  return { kind: 'replay', fromSeq: lastEventId, toSeq: currentVersion }
+}
+
+// A missed state as the log has it, for replay. Personalizing reads the room's rows as they are now
+// (picks made, undo, pick deadlines), which would dress an old version in data it never had, so the
+// per-user parts are left out instead; the current state that follows the replay is personalized.
+export function toReplayedState<T extends {
+  availableActions?: string[]
+  data: { tournament?: { currentMatch?: unknown } }
+}>(state: T): T {
+  const replayed = JSON.parse(JSON.stringify(state)) as T
+  replayed.availableActions = []
+  if (replayed.data.tournament) {
+    delete replayed.data.tournament.currentMatch
+  }
+  return replayed
+}
+
+export function formatSseEvent(data: unknown, options: { id?: number; event?: string } = {}): string {
+  const lines = [
+    ...(options.event ? [`event: ${options.event}`] : []),
+    ...(options.id !== undefined ? [`id: ${options.id}`] : []),
+    `data: ${JSON.stringify(data)}`,
+  ]
+  return `${lines.join('\n')}\n\n`
+}
+
+export type VersionCheck = 'next' | 'stale' | 'gap'
+
+// How an incoming state relates to the last version the client applied
+export function checkVersion(lastVersion: number | null, incoming: number): VersionCheck {
+  if (lastVersion === null || incoming === lastVersion + 1) {
+    return 'next'
+  }
+  return incoming <= lastVersion ? 'stale' : 'gap'
+}
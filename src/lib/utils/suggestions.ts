@@ -0,0 +1,29 @@
+// Which catalog films can top up a thin pool, from what the participants have told us about themselves
+
+export interface ParticipantRating {
+  tmdbId: number
+  ratingType: string
+}
+
+export interface ParticipantWatchListEntry {
+  tmdbId: number
+  isWatched: boolean | null
+}
+
+// The genres any participant picked on their profile
+export function getSuggestionGenres(profiles: Array<{ selectedGenres: string[] | null }>): string[] {
+  return Array.from(new Set(profiles.flatMap((profile) => profile.selectedGenres ?? [])))
+}
+
+// Films nobody should be offered: already in the pool, disliked by a participant or one they've watched
+export function getSuggestionExclusions(
+  poolIds: number[],
+  ratings: ParticipantRating[],
+  watchList: ParticipantWatchListEntry[]
+): number[] {
+  return Array.from(new Set([
+    ...poolIds,
+    ...ratings.filter((rating) => rating.ratingType === 'dislike').map((rating) => rating.tmdbId),
+    ...watchList.filter((entry) => entry.isWatched === true).map((entry) => entry.tmdbId),
+  ]))
+}
@@ -0,0 +1,139 @@
+import type { BracketMatch } from './bracket.ts'
+
+export const SWISS_MIN_POOL_SIZE = 4
+export const SWISS_MAX_POOL_SIZE = 8
+
+export interface SwissEntrant {
+  id: number
+  seed?: number
+  jointElo?: number
+}
+
+export interface SwissStanding<T> {
+  movie: T
+  wins: number // a bye counts as a win
+  losses: number
+  opponents: number[] // movie ids already faced
+  hadBye: boolean
+}
+
+export interface SwissState<T> {
+  standings: SwissStanding<T>[]
+  totalRounds: number
+}
+
+// Enough rounds to separate the pool; small pools play a full round robin
+export function getSwissRounds(count: number): number {
+  if (count < SWISS_MIN_POOL_SIZE || count > SWISS_MAX_POOL_SIZE) {
+    throw new Error(`Swiss needs between ${SWISS_MIN_POOL_SIZE} and ${SWISS_MAX_POOL_SIZE} entrants, got ${count}`)
+  }
+  return Math.min(count - 1, Math.ceil(Math.log2(count)) + 1)
+}
+
+export function createSwissState<T extends SwissEntrant>(movies: T[]): SwissState<T> {
+  return {
+    standings: movies.map((movie) => ({ movie, wins: 0, losses: 0, opponents: [], hadBye: false })),
+    totalRounds: getSwissRounds(movies.length),
+  }
+}
+
+// Most wins first, then the participants' joint Elo, then the original seed
+export function rankStandings<T extends SwissEntrant>(standings: SwissStanding<T>[]): SwissStanding<T>[] {
+  return [...standings].sort((a, b) =>
+    b.wins - a.wins ||
+    (b.movie.jointElo ?? 0) - (a.movie.jointElo ?? 0) ||
+    (a.movie.seed ?? Number.MAX_SAFE_INTEGER) - (b.movie.seed ?? Number.MAX_SAFE_INTEGER)
+  )
+}
+
+export function getSwissMatchId(roundNumber: number, matchNumber: number): string {
+  return `swiss-round-${roundNumber}-match-${matchNumber}`
+}
+
+// Pairs neighbours in the standings, avoiding rematches where possible. With an odd
+// pool the lowest-ranked movie that hasn't had a bye sits the round out.
+export function pairSwissRound<T extends SwissEntrant>(
+  state: SwissState<T>,
+  roundNumber: number
+): { matches: BracketMatch<T>[]; bye?: T } {
+  const ranked = rankStandings(state.standings)
+  let bye: SwissStanding<T> | undefined
+
+  if (ranked.length % 2 === 1) {
+    const byeIndex = [...ranked].reverse().findIndex((s) => !s.hadBye)
+    const index = byeIndex === -1 ? ranked.length - 1 : ranked.length - 1 - byeIndex
+    bye = ranked.splice(index, 1)[0]
+  }
+
+  const pairs = pairWithoutRematches(ranked) ?? chunkPairs(ranked)
+
+  return {
+    matches: pairs.map(([a, b], index) => ({
+      matchId: getSwissMatchId(roundNumber, index + 1),
+      roundNumber,
+      slot: index,
+      movieA: a.movie,
+      movieB: b.movie,
+    })),
+    bye: bye?.movie,
+  }
+}
+
+function pairWithoutRematches<T extends SwissEntrant>(
+  remaining: SwissStanding<T>[]
+): Array<[SwissStanding<T>, SwissStanding<T>]> | null {
+  if (remaining.length === 0) return []
+
+  const [first, ...rest] = remaining
+  for (let i = 0; i < rest.length; i++) {
+    if (first.opponents.includes(rest[i].movie.id)) continue
+
+    const paired = pairWithoutRematches([...rest.slice(0, i), ...rest.slice(i + 1)])
+    if (paired) return [[first, rest[i]], ...paired]
+  }
+
+  return null
+}
+
+function chunkPairs<T>(items: T[]): Array<[T, T]> {
+  const pairs: Array<[T, T]> = []
+  for (let i = 0; i + 1 < items.length; i += 2) {
+    pairs.push([items[i], items[i + 1]])
+  }
+  return pairs
+}
+
+export function applySwissResults<T extends SwissEntrant>(
+  state: SwissState<T>,
+  results: Array<{ match: BracketMatch<T>; winner: T }>,
+  bye?: T
+): SwissState<T> {
+  const standings = state.standings.map((s) => ({ ...s, opponents: [...s.opponents] }))
+  const find = (id: number) => standings.find((s) => s.movie.id === id)
+
+  for (const { match, winner } of results) {
+    const a = find(match.movieA.id)
+    const b = find(match.movieB.id)
+    if (!a || !b) continue
+
+    a.opponents.push(b.movie.id)
+    b.opponents.push(a.movie.id)
+    const [won, lost] = winner.id === a.movie.id ? [a, b] : [b, a]
+    won.wins += 1
+    lost.losses += 1
+  }
+
+  if (bye) {
+    const sat = find(bye.id)
+    if (sat) {
+      sat.wins += 1
+      sat.hadBye = true
+    }
+  }
+
+  return { ...state, standings }
+}
+
+export function getSwissWinner<T extends SwissEntrant>(state: SwissState<T>): T {
+  return rankStandings(state.standings)[0].movie
+}
@@ -0,0 +1,121 @@
+import { hasActiveFilters, normalizePoolFilters, validatePoolFilters } from './pool-filters.ts'
+import type { PoolFilters } from './pool-filters.ts'
+import { validateRoomSettings } from './room-settings.ts'
+import type { RoomSettings } from './room-settings.ts'
+
+export const MAX_TEMPLATE_NAME_LENGTH = 80
+export const MAX_TEMPLATE_DESCRIPTION_LENGTH = 280
+
+// The room settings a template carries; who can join and what's excluded stay with the room
+export const TEMPLATE_SETTING_KEYS = [
+  'format',
+  'seeding',
+  'votingRule',
+  'tieBreak',
+  'grandFinalReset',
+  'vetoesPerUser',
+  'pickTimeLimit',
+  'autoPick',
+] as const
+
+export type TemplateSettings = Partial<Pick<RoomSettings, typeof TEMPLATE_SETTING_KEYS[number]>>
+
+// A themed tournament: a query over the films catalog plus how the bracket is played
+export interface TournamentTemplate {
+  slug: string // the share key, e.g. /api/decided/templates/80s-horror
+  name: string
+  description?: string
+  query: PoolFilters
+  settings: TemplateSettings
+  builtIn?: boolean
+}
+
+export const BUILT_IN_TEMPLATES: TournamentTemplate[] = [
+  {
+    slug: '80s-horror',
+    name: '80s horror',
+    description: 'Practical effects, synth scores and questionable decisions',
+    query: { includeGenres: ['Horror'], yearFrom: 1980, yearTo: 1989, minVoteCount: 200 },
+    settings: { format: 'single-elimination', seeding: 'random' },
+    builtIn: true,
+  },
+  {
+    slug: 'under-100-minutes',
+    name: 'Under 100 minutes',
+    description: 'Something good that still leaves time for bed',
+    query: { maxRuntime: 99, minVoteAverage: 6.5, minVoteCount: 500 },
+    settings: { format: 'single-elimination', seeding: 'elo', pickTimeLimit: 30 },
+    builtIn: true,
+  },
+  {
+    slug: 'oscar-best-picture',
+    name: 'Oscar Best Picture winners',
+    description: 'Every film here took home the top prize',
+    query: { keywords: ['oscar (best picture)'], minVoteCount: 1000 },
+    settings: { format: 'double-elimination', seeding: 'elo', votingRule: 'majority' },
+    builtIn: true,
+  },
+]
+
+export function findBuiltInTemplate(slug: string): TournamentTemplate | undefined {
+  return BUILT_IN_TEMPLATES.find((template) => template.slug === slug)
+}
+
+// Lowercase words joined by dashes; the caller adds a suffix to keep saved slugs unique
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'template'
+}
+
+// Keeps only the bracket settings a template may carry
+export function pickTemplateSettings(input: unknown): TemplateSettings {
+  const settings = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  return Object.fromEntries(
+    TEMPLATE_SETTING_KEYS.filter((key) => settings[key] !== undefined).map((key) => [key, settings[key]])
+  ) as TemplateSettings
+}
+
+export function validateTemplate(input: unknown): { valid: boolean; error?: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, error: 'Template must be an object' }
+  }
+
+  const template = input as { name?: unknown; description?: unknown; query?: unknown; settings?: unknown }
+
+  if (typeof template.name !== 'string' || template.name.trim().length === 0 || template.name.trim().length > MAX_TEMPLATE_NAME_LENGTH) {
+    return { valid: false, error: `name must be between 1 and ${MAX_TEMPLATE_NAME_LENGTH} characters` }
+  }
+  if (template.description !== undefined &&
+    (typeof template.description !== 'string' || template.description.length > MAX_TEMPLATE_DESCRIPTION_LENGTH)) {
+    return { valid: false, error: `description must be at most ${MAX_TEMPLATE_DESCRIPTION_LENGTH} characters` }
+  }
+
+  const query = validatePoolFilters(template.query)
+  if (!query.valid) {
+    return query
+  }
+  if (!hasActiveFilters(normalizePoolFilters(template.query))) {
+    return { valid: false, error: 'A template needs at least one filter' }
+  }
+
+  const settings = template.settings ?? {}
+  if (typeof settings !== 'object' || Array.isArray(settings)) {
+    return { valid: false, error: 'settings must be an object' }
+  }
+  const unknown = Object.keys(settings).filter((key) => !(TEMPLATE_SETTING_KEYS as readonly string[]).includes(key))
+  if (unknown.length > 0) {
+    return { valid: false, error: `Templates can't set: ${unknown.join(', ')}` }
+  }
+  return validateRoomSettings(settings)
+}
+
+// Room settings input for a room started from `template`; anything the owner set explicitly wins
+export function applyTemplate(template: TournamentTemplate, overrides: unknown): Record<string, unknown> {
+  const explicit = (overrides && typeof overrides === 'object' ? overrides : {}) as Record<string, unknown>
+  return { ...template.settings, filters: template.query, ...explicit }
+}
@@ -0,0 +1,69 @@
+// Each participant may strike up to `quota` movies from the merged pool before the bracket is drawn
+export const MAX_VETOES_PER_USER = 5
+
+export interface VetoRecord {
+  userId: string
+  movieId: number
+}
+
+export interface VetoPhase<T extends { id: number }> {
+  pool: T[] // the merged pool before any vetoes
+  quota: number
+  vetoes: VetoRecord[] // in the order they were made
+  done: string[] // participants who finished early without using their whole quota
+  complete: boolean
+}
+
+export function createVetoPhase<T extends { id: number }>(pool: T[], quota: number): VetoPhase<T> {
+  return { pool, quota, vetoes: [], done: [], complete: false }
+}
+
+export function getRemainingVetoes<T extends { id: number }>(phase: VetoPhase<T>, userId: string): number {
+  const used = phase.vetoes.filter((veto) => veto.userId === userId).length
+  return Math.max(0, phase.quota - used)
+}
+
+// Movies that survived the vetoes, in pool order
+export function getVetoedPool<T extends { id: number }>(phase: VetoPhase<T>): T[] {
+  const vetoed = new Set(phase.vetoes.map((veto) => veto.movieId))
+  return phase.pool.filter((movie) => !vetoed.has(movie.id))
+}
+
+// `minPoolSize` keeps enough movies for the room's format; once it is reached nobody can veto
+export function validateVeto<T extends { id: number }>(
+  phase: VetoPhase<T>,
+  userId: string,
+  movieId: unknown,
+  minPoolSize: number
+): { valid: boolean; error?: string } {
+  if (phase.complete) {
+    return { valid: false, error: 'Veto phase is over' }
+  }
+  if (typeof movieId !== 'number' || !phase.pool.some((movie) => movie.id === movieId)) {
+    return { valid: false, error: 'Movie is not in the pool' }
+  }
+  if (phase.vetoes.some((veto) => veto.movieId === movieId)) {
+    return { valid: false, error: 'Movie has already been vetoed' }
+  }
+  if (phase.done.includes(userId) || getRemainingVetoes(phase, userId) === 0) {
+    return { valid: false, error: 'No vetoes left' }
+  }
+  if (getVetoedPool(phase).length <= minPoolSize) {
+    return { valid: false, error: `The pool can't go below ${minPoolSize} movies` }
+  }
+  return { valid: true }
+}
+
+export function hasFinishedVetoing<T extends { id: number }>(phase: VetoPhase<T>, userId: string): boolean {
+  return phase.done.includes(userId) || getRemainingVetoes(phase, userId) === 0
+}
+
+// Over once every voter is finished, or when the pool is down to its minimum and nobody can veto anyway
+export function isVetoPhaseComplete<T extends { id: number }>(
+  phase: VetoPhase<T>,
+  voterIds: string[],
+  minPoolSize: number
+): boolean {
+  return getVetoedPool(phase).length <= minPoolSize ||
+    voterIds.every((userId) => hasFinishedVetoing(phase, userId))
+}
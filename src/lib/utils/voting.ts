@@ -0,0 +1,144 @@
+import type { TieBreakPolicy, VotingRule } from '@/lib/utils/room-settings'
+import { DEFAULT_ELO_RATING } from './seeding.ts'
+
+export interface MatchVote {
+  userId: string
+  selectedMovieId: number
+  autoPicked?: boolean // made by the server when the user's pick timer ran out
+}
+
+export interface VotingCandidate {
+  id: number
+  fromUsers?: string[]
+  jointElo?: number
+}
+
+// The rule that settled the match: the votes themselves, or the tie-break that was applied
+export type MatchDecision = 'majority' | 'plurality' | 'elo' | 'coin-flip' | 'owner'
+
+export interface MatchResolution {
+  winnerId: number
+  loserId: number
+  votes: Record<number, number>
+  decidedBy: MatchDecision
+  rematched?: boolean // replayed once because the first round of picks was split
+}
+
+// Everything a tie-break policy may need; policies missing their input fall back to Elo
+export interface TieBreak {
+  policy: TieBreakPolicy
+  jointElo?: Record<number, number> // participants' combined rating by movie id
+  coinFlip?: number // a draw in [0, 1) from the room seed
+  ownerId?: string
+}
+
+// A match is ready to resolve once every eligible voter has picked
+export function hasAllVotes(votes: MatchVote[], voterIds: string[]): boolean {
+  const voted = new Set(votes.map((v) => v.userId))
+  return voterIds.length > 0 && voterIds.every((id) => voted.has(id))
+}
+
+// One vote per user, ignoring votes for movies outside this match. Under 'majority' an auto pick is an
+// abstention: the voter still counts toward the threshold, but backs neither movie.
+function latestVotes(movieA: VotingCandidate, movieB: VotingCandidate, votes: MatchVote[], rule: VotingRule): Map<string, number> {
+  const latestByUser = new Map<string, number>()
+  votes.forEach((v) => {
+    if (rule === 'majority' && v.autoPicked) {
+      return
+    }
+    if (v.selectedMovieId === movieA.id || v.selectedMovieId === movieB.id) {
+      latestByUser.set(v.userId, v.selectedMovieId)
+    }
+  })
+  return latestByUser
+}
+
+function countVotes(movieA: VotingCandidate, movieB: VotingCandidate, latestByUser: Map<string, number>): Record<number, number> {
+  const counts: Record<number, number> = { [movieA.id]: 0, [movieB.id]: 0 }
+  latestByUser.forEach((movieId) => {
+    counts[movieId] += 1
+  })
+  return counts
+}
+
+// The movie the votes pick under `rule`, or null when it comes down to the tie-break
+function findVoteWinner(
+  movieA: VotingCandidate,
+  movieB: VotingCandidate,
+  counts: Record<number, number>,
+  options: { rule: VotingRule; voterCount: number }
+): { winner: VotingCandidate; decidedBy: MatchDecision } | null {
+  const votesA = counts[movieA.id]
+  const votesB = counts[movieB.id]
+  const leader = votesA > votesB ? movieA : votesB > votesA ? movieB : null
+
+  if (!leader) {
+    return null
+  }
+
+  const hasMajority = counts[leader.id] > options.voterCount / 2
+  if (options.rule === 'plurality' || hasMajority) {
+    return { winner: leader, decidedBy: hasMajority ? 'majority' : 'plurality' }
+  }
+  return null
+}
+
+export function isUndecided(
+  movieA: VotingCandidate,
+  movieB: VotingCandidate,
+  votes: MatchVote[],
+  options: { rule: VotingRule; voterCount: number }
+): boolean {
+  const counts = countVotes(movieA, movieB, latestVotes(movieA, movieB, votes, options.rule))
+  return findVoteWinner(movieA, movieB, counts, options) === null
+}
+
+// 'rematch' only reaches here once the replay is split too, and then falls back to Elo
+function breakTie(
+  movieA: VotingCandidate,
+  movieB: VotingCandidate,
+  latestByUser: Map<string, number>,
+  tieBreak: TieBreak
+): { winner: VotingCandidate; decidedBy: MatchDecision } {
+  if (tieBreak.policy === 'owner' && tieBreak.ownerId) {
+    const ownerPick = latestByUser.get(tieBreak.ownerId)
+    if (ownerPick !== undefined) {
+      return { winner: ownerPick === movieA.id ? movieA : movieB, decidedBy: 'owner' }
+    }
+  }
+
+  if (tieBreak.policy === 'coin-flip' && tieBreak.coinFlip !== undefined) {
+    return { winner: tieBreak.coinFlip < 0.5 ? movieA : movieB, decidedBy: 'coin-flip' }
+  }
+
+  // Higher combined Elo, then the movie more participants brought in, then the higher bracket slot
+  const eloA = tieBreak.jointElo?.[movieA.id] ?? movieA.jointElo ?? DEFAULT_ELO_RATING
+  const eloB = tieBreak.jointElo?.[movieB.id] ?? movieB.jointElo ?? DEFAULT_ELO_RATING
+  if (eloA !== eloB) {
+    return { winner: eloB > eloA ? movieB : movieA, decidedBy: 'elo' }
+  }
+
+  const supportA = movieA.fromUsers?.length ?? 0
+  const supportB = movieB.fromUsers?.length ?? 0
+  return { winner: supportB > supportA ? movieB : movieA, decidedBy: 'elo' }
+}
+
+export function resolveMatchVotes(
+  movieA: VotingCandidate,
+  movieB: VotingCandidate,
+  votes: MatchVote[],
+  options: { rule: VotingRule; voterCount: number; tieBreak?: TieBreak }
+): MatchResolution {
+  const latestByUser = latestVotes(movieA, movieB, votes, options.rule)
+  const counts = countVotes(movieA, movieB, latestByUser)
+
+  const { winner, decidedBy } = findVoteWinner(movieA, movieB, counts, options) ??
+    breakTie(movieA, movieB, latestByUser, options.tieBreak ?? { policy: 'elo' })
+
+  return {
+    winnerId: winner.id,
+    loserId: winner === movieA ? movieB.id : movieA.id,
+    votes: counts,
+    decidedBy,
+  }
+}